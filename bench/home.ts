@@ -0,0 +1,132 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createSqliteStorage } from "../src/sqlite";
+
+// Home page latency on a large site. Fills a fresh SQLite database, starts
+// the server on it and times GET / for a visitor and for a logged in user.
+//
+//   bun run bench/home.ts [problems] [submissions] [requests]
+
+const PROBLEMS = Number(process.argv[2] ?? 10_000);
+const SUBMISSIONS = Number(process.argv[3] ?? 1_000_000);
+const REQUESTS = Number(process.argv[4] ?? 20);
+const USERS = 1_000;
+const PORT = 3990;
+// Records written per transaction while filling the database
+const BATCH = 50_000;
+
+const dataDir = mkdtempSync(join(tmpdir(), "bench-"));
+
+async function fill() {
+  const storage = createSqliteStorage(join(dataDir, "data.db"));
+  await storage.load();
+  const start = Date.now() - 365 * 24 * 60 * 60 * 1000;
+
+  for (let i = 0; i < USERS; i++) {
+    storage.put("users", `u${i}`, {
+      id: `u${i}`,
+      username: `user${i}`,
+      avatarUrl: "",
+      identities: [{ provider: "dev", id: `user${i}`, username: `user${i}` }],
+    });
+  }
+  storage.put("sessions", "bench", {
+    userId: "u0",
+    expiresAt: Date.now() + 60 * 60 * 1000,
+    csrfToken: "bench",
+  });
+
+  for (let i = 0; i < PROBLEMS; i++) {
+    storage.put("problems", `p${i}`, {
+      id: `p${i}`,
+      title: `Problem ${i}`,
+      parts: [{ description: "Add the numbers." }],
+      inputs: [{ correctAnswers: ["42"] }],
+      checker: { type: "exact", settings: {} },
+      numericHints: false,
+      authorId: `u${i % USERS}`,
+      createdAt: start + i * 1000,
+    });
+    if (i % BATCH === BATCH - 1) await storage.flush();
+  }
+  await storage.flush();
+
+  for (let i = 0; i < SUBMISSIONS; i++) {
+    const isCorrect = i % 3 === 0;
+    storage.put("submissions", `s${i}`, {
+      id: `s${i}`,
+      problemId: `p${i % PROBLEMS}`,
+      userId: `u${(i * 7) % USERS}`,
+      part: 0,
+      answer: isCorrect ? "42" : "41",
+      isCorrect,
+      submittedAt: start + i,
+    });
+    if (i % BATCH === BATCH - 1) await storage.flush();
+  }
+  await storage.flush();
+}
+
+async function time(path: string, cookie?: string) {
+  const times: number[] = [];
+  // The first request is a warm-up
+  for (let i = -1; i < REQUESTS; i++) {
+    const startedAt = performance.now();
+    const res = await fetch(`http://localhost:${PORT}${path}`, {
+      headers: cookie ? { cookie } : {},
+    });
+    await res.text();
+    if (!res.ok) throw new Error(`${path} returned ${res.status}`);
+    if (i >= 0) times.push(performance.now() - startedAt);
+  }
+  times.sort((a, b) => a - b);
+  const at = (q: number) =>
+    times[Math.min(Math.floor(q * times.length), times.length - 1)]!.toFixed(1);
+  return `median ${at(0.5)} ms, p95 ${at(0.95)} ms`;
+}
+
+let server: ReturnType<typeof Bun.spawn> | null = null;
+try {
+  console.log(
+    `Filling database: ${PROBLEMS} problems, ${SUBMISSIONS} submissions`,
+  );
+  let startedAt = performance.now();
+  await fill();
+  console.log(`  done in ${Math.round(performance.now() - startedAt)} ms`);
+
+  startedAt = performance.now();
+  server = Bun.spawn(["bun", "run", "index.ts"], {
+    cwd: join(import.meta.dir, ".."),
+    env: {
+      ...process.env,
+      DEV_LOGIN: "1",
+      BASE_URL: `http://localhost:${PORT}`,
+      PORT: String(PORT),
+      DATA_DIR: dataDir,
+      STORAGE: "sqlite",
+    },
+    stdout: "ignore",
+    stderr: "inherit",
+  });
+  for (let i = 0; ; i++) {
+    try {
+      await fetch(`http://localhost:${PORT}/`, { method: "HEAD" });
+      break;
+    } catch {
+      if (i === 600) throw new Error("server did not start");
+      await Bun.sleep(100);
+    }
+  }
+  console.log(
+    `Server started in ${Math.round(performance.now() - startedAt)} ms`,
+  );
+
+  console.log(`GET / (${REQUESTS} requests each)`);
+  console.log(`  visitor:   ${await time("/")}`);
+  console.log(`  logged in: ${await time("/", "session=bench")}`);
+} finally {
+  server?.kill();
+  await server?.exited;
+  rmSync(dataDir, { recursive: true, force: true });
+}
@@ -0,0 +1,369 @@
+#!/usr/bin/env bun
+import { createHash } from "crypto";
+import { chmod, mkdir, rm, writeFile } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+import { parseArgs } from "util";
+import type {
+  ApiProblem,
+  ApiProblemDetails,
+  ApiSubmission,
+  ApiUser,
+} from "./src/api";
+
+// Command-line client for the JSON API. Run `bun run cli.ts help` for usage.
+//
+// The server and token are stored in $XDG_CONFIG_HOME/coding-problems (or
+// set with PROBLEMS_SERVER and PROBLEMS_TOKEN), and inputs are cached in
+// $XDG_CACHE_HOME/coding-problems, since a user's input never changes.
+
+const USAGE = `usage: problems <command> [options]
+
+commands:
+  login [--server URL]         save a personal access token from /settings
+  logout                       forget the saved token
+  list                         list problems and your progress
+  fetch <id> [--dir DIR]       save your input and a solution template
+        [--refresh]            (re-download the input instead of using the cache)
+  submit <id> [answer]         submit an answer; reads stdin without one,
+        [--part N]             so you can pipe: bun solution.ts | problems submit <id>
+        [--file FILE]          submit a program (judge problems)
+  status [id]                  your progress, or one problem's submissions
+`;
+
+interface Config {
+  server: string;
+  token: string;
+  username?: string;
+}
+
+class CliError extends Error {}
+
+const configDir = join(
+  process.env.XDG_CONFIG_HOME || join(homedir(), ".config"),
+  "coding-problems",
+);
+const cacheDir = join(
+  process.env.XDG_CACHE_HOME || join(homedir(), ".cache"),
+  "coding-problems",
+);
+const configFile = join(configDir, "config.json");
+
+async function readConfig(): Promise<Partial<Config>> {
+  const file = Bun.file(configFile);
+  const saved = (await file.exists()) ? await file.json() : {};
+  return {
+    ...saved,
+    server: process.env.PROBLEMS_SERVER || saved.server,
+    token: process.env.PROBLEMS_TOKEN || saved.token,
+  };
+}
+
+async function requireConfig(): Promise<Config> {
+  const config = await readConfig();
+  if (!config.server || !config.token) {
+    throw new CliError("Not logged in, run `problems login` first");
+  }
+  return config as Config;
+}
+
+async function api(
+  config: Config,
+  path: string,
+  init: RequestInit = {},
+): Promise<Response> {
+  let res: Response;
+  try {
+    res = await fetch(`${config.server}/api/v1${path}`, {
+      ...init,
+      headers: { Authorization: `Bearer ${config.token}`, ...init.headers },
+    });
+  } catch {
+    throw new CliError(`Could not reach ${config.server}`);
+  }
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new CliError(body?.error?.message ?? `HTTP ${res.status}`);
+  }
+  return res;
+}
+
+async function apiJson<T>(
+  config: Config,
+  path: string,
+  init?: RequestInit,
+): Promise<T> {
+  return (await api(config, path, init)).json() as Promise<T>;
+}
+
+async function readStdin(): Promise<string> {
+  if (process.stdin.isTTY) {
+    throw new CliError("Pass an answer or pipe one in");
+  }
+  return (await Bun.stdin.text()).trim();
+}
+
+function slugify(title: string) {
+  return (
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "problem"
+  );
+}
+
+function progress(problem: { parts: number; solvedParts: number | null }) {
+  const solved = problem.solvedParts ?? 0;
+  if (solved === problem.parts) return "✓";
+  return problem.parts > 1 ? `${solved}/${problem.parts}` : "";
+}
+
+// Cached per server and token, since each user gets their own input
+function inputCachePath(config: Config, problemId: string) {
+  const server = createHash("sha256").update(config.server).digest("hex");
+  const user = createHash("sha256").update(config.token).digest("hex");
+  return join(cacheDir, server.slice(0, 16), user.slice(0, 16), problemId);
+}
+
+const TEMPLATE = `// Reads input.txt next to this file and prints the answer, so you can run
+//   bun solution.ts | problems submit PROBLEM_ID
+const input = await Bun.file(new URL("input.txt", import.meta.url)).text();
+
+console.log(input.trim().split("\\n").length);
+`;
+
+const JUDGE_TEMPLATE = `// Reads a test's input from stdin and prints the answer
+const input = await Bun.stdin.text();
+
+console.log(input.trim());
+`;
+
+async function login(server: string | undefined) {
+  const saved = await readConfig();
+  server = (server || saved.server || "http://localhost:3000").replace(
+    /\/+$/,
+    "",
+  );
+  console.log(`Create a token at ${server}/settings and paste it here.`);
+  // Also reads a piped token, as in `echo $TOKEN | problems login`
+  const token = (
+    process.stdin.isTTY ? (prompt("token:") ?? "") : await Bun.stdin.text()
+  ).trim();
+  if (!token) throw new CliError("No token given");
+
+  const me = await apiJson<ApiUser>({ server, token }, "/me");
+  await mkdir(configDir, { recursive: true });
+  // Only readable by the user, also when it was written by an older version
+  await writeFile(
+    configFile,
+    JSON.stringify({ server, token, username: me.username }, null, 2),
+    { mode: 0o600 },
+  );
+  await chmod(configFile, 0o600);
+  console.log(`Logged in to ${server} as ${me.username}`);
+}
+
+async function list() {
+  const config = await requireConfig();
+  const { problems } = await apiJson<{ problems: ApiProblem[] }>(
+    config,
+    "/problems",
+  );
+  if (problems.length === 0) {
+    console.log("No problems yet");
+    return;
+  }
+  for (const problem of problems) {
+    const flags = [
+      progress(problem),
+      problem.judge ? "judge" : "",
+      problem.releaseAt && new Date(problem.releaseAt) > new Date()
+        ? "unreleased"
+        : "",
+    ].filter(Boolean);
+    console.log(
+      `${problem.id}  ${problem.title}${flags.length ? `  [${flags.join(", ")}]` : ""}`,
+    );
+    console.log(
+      `  by ${problem.author ?? "unknown"} • ${problem.stats.attempts} attempts • ${problem.stats.solves} solves`,
+    );
+  }
+}
+
+async function fetchProblem(id: string, dir?: string, refresh = false) {
+  const config = await requireConfig();
+  const problem = await apiJson<ApiProblemDetails>(config, `/problems/${id}`);
+  const target = dir ?? slugify(problem.title);
+  await mkdir(target, { recursive: true });
+
+  const descriptions = problem.descriptions
+    .map((text, i) =>
+      problem.parts > 1 ? `## Part ${i + 1}\n\n${text}` : text,
+    )
+    .join("\n\n");
+  await Bun.write(
+    join(target, "problem.md"),
+    `# ${problem.title}\n\n${descriptions}\n`,
+  );
+
+  if (problem.hasInput) {
+    const cached = Bun.file(inputCachePath(config, id));
+    let input: string;
+    if (!refresh && (await cached.exists())) {
+      input = await cached.text();
+    } else {
+      input = await (await api(config, `/problems/${id}/input`)).text();
+      await Bun.write(cached, input);
+    }
+    await Bun.write(join(target, "input.txt"), input);
+  }
+
+  const solution = join(target, problem.judge ? "main.ts" : "solution.ts");
+  if (!(await Bun.file(solution).exists())) {
+    await Bun.write(
+      solution,
+      problem.judge ? JUDGE_TEMPLATE : TEMPLATE.replace("PROBLEM_ID", id),
+    );
+  }
+
+  console.log(`${problem.title} → ${target}/`);
+  if (problem.cooldownUntil) {
+    console.log(`next answer allowed at ${problem.cooldownUntil}`);
+  }
+}
+
+async function submit(
+  id: string,
+  answer: string | undefined,
+  options: { part?: string; file?: string },
+) {
+  const config = await requireConfig();
+  const body: Record<string, unknown> = {};
+  if (options.part !== undefined) body.part = Number(options.part);
+
+  if (options.file) {
+    const extension = options.file.split(".").pop();
+    if (extension !== "js" && extension !== "ts") {
+      throw new CliError("Programs must be .js or .ts files");
+    }
+    body.language = extension;
+    body.source = await Bun.file(options.file).text();
+  } else {
+    body.answer = answer ?? (await readStdin());
+    if (!body.answer) throw new CliError("Empty answer");
+  }
+
+  const sub = await apiJson<ApiSubmission>(
+    config,
+    `/problems/${id}/submissions`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    },
+  );
+  if ("language" in sub) {
+    console.log(`part ${sub.part}: queued, see \`problems status ${id}\``);
+  } else if (sub.correct) {
+    console.log(`part ${sub.part}: ✓ correct`);
+  } else {
+    console.log(`part ${sub.part}: ✗ wrong${sub.hint ? ` (${sub.hint})` : ""}`);
+    process.exitCode = 1;
+  }
+}
+
+async function status(id: string | undefined) {
+  const config = await requireConfig();
+
+  if (!id) {
+    const { problems } = await apiJson<{ problems: ApiProblem[] }>(
+      config,
+      "/problems",
+    );
+    const started = problems.filter((p) => (p.solvedParts ?? 0) > 0);
+    console.log(
+      `${config.username ?? "you"}: ${started.filter((p) => p.solvedParts === p.parts).length} solved, ${started.length} started`,
+    );
+    for (const problem of started) {
+      console.log(
+        `  ${progress(problem).padEnd(4)} ${problem.id}  ${problem.title}`,
+      );
+    }
+    return;
+  }
+
+  const problem = await apiJson<ApiProblemDetails>(config, `/problems/${id}`);
+  const { submissions } = await apiJson<{ submissions: ApiSubmission[] }>(
+    config,
+    `/problems/${id}/submissions`,
+  );
+  console.log(
+    `${problem.title}: ${problem.solvedParts}/${problem.parts} parts solved`,
+  );
+  if (problem.cooldownUntil) {
+    console.log(`next answer allowed at ${problem.cooldownUntil}`);
+  }
+  for (const sub of submissions) {
+    const result =
+      "language" in sub
+        ? (sub.verdict ?? "queued")
+        : sub.correct
+          ? "✓"
+          : `✗${sub.hint ? ` ${sub.hint}` : ""}`;
+    const what = "language" in sub ? `${sub.language} program` : sub.answer;
+    console.log(`  ${sub.submittedAt}  part ${sub.part}  ${what}  ${result}`);
+  }
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      server: { type: "string" },
+      dir: { type: "string" },
+      refresh: { type: "boolean" },
+      part: { type: "string" },
+      file: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+    allowPositionals: true,
+  });
+  const [command, id, answer] = positionals;
+  const needId = () => {
+    if (!id) throw new CliError(`usage: problems ${command} <id>`);
+    return id;
+  };
+
+  switch (values.help ? "help" : command) {
+    case "login":
+      return login(values.server);
+    case "logout":
+      await rm(configFile, { force: true });
+      return console.log("Logged out");
+    case "list":
+      return list();
+    case "fetch":
+      return fetchProblem(needId(), values.dir, values.refresh);
+    case "submit":
+      return submit(needId(), answer, values);
+    case "status":
+      return status(id);
+    case "help":
+    case undefined:
+      return console.log(USAGE);
+    default:
+      throw new CliError(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+}
+
+try {
+  await main();
+} catch (e) {
+  // parseArgs throws TypeErrors with codes like ERR_PARSE_ARGS_UNKNOWN_OPTION
+  const isUsageError = String((e as { code?: unknown }).code).startsWith(
+    "ERR_PARSE_ARGS",
+  );
+  if (!(e instanceof CliError) && !isUsageError) throw e;
+  console.error(`error: ${(e as Error).message}`);
+  process.exit(2);
+}
@@ -1,1022 +1,6208 @@
-import { randomBytes } from "crypto";
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import {
+  checkAnswer,
+  DEFAULT_CHECKER,
+  getChecker,
+  listCheckers,
+  validateChecker,
+  type CheckerConfig,
+} from "./src/checkers";
+import {
+  apiError,
+  errorCodeFor,
+  generateToken,
+  getBearerToken,
+  hashToken,
+  json,
+  readJsonBody,
+  type ApiProblem,
+  type ApiProblemDetails,
+  type ApiSubmission,
+  type ApiUser,
+} from "./src/api";
+import { markup, type SafeHtml } from "./src/html";
+import {
+  DEFAULT_MEMORY_LIMIT_MB,
+  DEFAULT_TIME_LIMIT_MS,
+  isLanguage,
+  judge,
+  LANGUAGES,
+  MAX_MEMORY_LIMIT_MB,
+  MAX_SOURCE_LENGTH,
+  MAX_TESTS,
+  MAX_TIME_LIMIT_MS,
+  overallVerdict,
+  parseTestCases,
+  type JudgeConfig,
+  type SubmittedCode,
+  type TestCase,
+  type TestResult,
+  type Verdict,
+} from "./src/judge";
+import { createRateLimiter } from "./src/ratelimit";
+import { renderMarkdown } from "./src/markdown";
+import { scoreContest, type ScoreboardRow } from "./src/contest";
+import {
+  DIFFICULTIES,
+  formatProblemQuery,
+  matchesText,
+  MAX_TAGS,
+  paginate,
+  parseDifficulty,
+  parseProblemQuery,
+  SORTS,
+  splitTags,
+  validateTags,
+  type Sort,
+} from "./src/search";
+import {
+  createDevProvider,
+  createGitHubProvider,
+  createGitLabProvider,
+  createGoogleProvider,
+  type OAuthProfile,
+  type OAuthProvider,
+} from "./src/oauth";
+import {
+  BACKUP_COLLECTIONS,
+  createBackup,
+  createProblemBundle,
+  parseBackup,
+  parseProblemBundle,
+  problemFingerprint,
+  type BundledProblem,
+} from "./src/bundle";
+import { renderAtomFeed } from "./src/feed";
+import { createSqliteStorage } from "./src/sqlite";
+import {
+  createJsonStorage,
+  StoredMap,
+  type CollectionName,
+  type Storage,
+  type StoredData,
+} from "./src/storage";
+import { SubmissionMap } from "./src/submissions";
+import {
+  formatPayload,
+  isWebhookEvent,
+  isWebhookFormat,
+  isWebhookUrl,
+  sendWebhook,
+  WEBHOOK_EVENTS,
+  WEBHOOK_FORMATS,
+  type WebhookEvent,
+  type WebhookEventType,
+  type WebhookFormat,
+} from "./src/webhooks";
 
 // Types
 interface User {
   id: string;
-  githubId: number;
   username: string;
   avatarUrl: string;
+  // Accounts at login providers; any of them logs in as this user
+  identities: Identity[];
 }
 
-interface Problem {
+interface Identity {
+  // An OAuthProvider name, like "github"
+  provider: string;
   id: string;
-  title: string;
+  // The account's username at the provider, for display
+  username: string;
+}
+
+interface ProblemPart {
   description: string;
+}
+
+interface ProblemInput {
   inputFile?: string;
   inputFileName?: string;
-  correctAnswer: string;
+  // One per part, in part order
+  correctAnswers: string[];
+}
+
+// Help for stuck solvers. With neither condition set it can be revealed
+// right away, otherwise once either one is met.
+interface ProblemHint {
+  // Markdown
+  text: string;
+  // Wrong answers to the problem, counting every part
+  afterWrongAnswers?: number;
+  availableAt?: number;
+}
+
+interface Problem {
+  id: string;
+  title: string;
+  // Part n + 1 unlocks once part n is solved
+  parts: ProblemPart[];
+  // Each solver is assigned one of these, so answers can't be shared
+  inputs: ProblemInput[];
+  // How submitted answers are compared with the correct ones
+  checker: CheckerConfig;
+  // Tell solvers whether a wrong numeric answer is too high or too low
+  numericHints: boolean;
+  // Judge mode: solvers submit programs that are run on hidden test cases,
+  // and `inputs` is empty
+  judge?: JudgeConfig;
   authorId: string;
   createdAt: number;
+  // Hidden from everyone but the author and admins until this time
+  releaseAt?: number;
+  // Only members of these groups can see the problem; public if missing
+  groupIds?: string[];
+  // Lowercase, for filtering the problem list
+  tags?: string[];
+  // The author's rating, 1 to 5 (see DIFFICULTIES)
+  difficulty?: number;
+  // Revealed one at a time, in order
+  hints?: ProblemHint[];
+  // Added to a solver's leaderboard time for each hint revealed before
+  // the solve
+  hintPenaltyMinutes?: number;
+  // False until webhooks have been told about the problem, which happens
+  // once it is public and released. Problems from before webhooks have
+  // none and are never announced.
+  announced?: boolean;
+}
+
+// The author-editable fields of a problem
+type ProblemContent = Pick<
+  Problem,
+  | "title"
+  | "parts"
+  | "inputs"
+  | "checker"
+  | "numericHints"
+  | "judge"
+  | "releaseAt"
+  | "groupIds"
+  | "tags"
+  | "difficulty"
+  | "hints"
+  | "hintPenaltyMinutes"
+>;
+
+interface ProblemRevision {
+  id: string;
+  problemId: string;
+  editorId: string;
+  editedAt: number;
+  // The fields this edit replaced, as they were before it
+  previous: Partial<ProblemContent>;
+  // Submissions whose verdict flipped when re-graded against new answers or
+  // a new checker
+  regraded?: number;
+}
+
+interface InputAssignment {
+  problemId: string;
+  userId: string;
+  inputIndex: number;
+  assignedAt: number;
 }
 
 interface Submission {
   id: string;
   problemId: string;
   userId: string;
+  // Index into problem.parts
+  part: number;
   answer: string;
   isCorrect: boolean;
+  // Set on wrong numeric answers when the problem has numericHints on
+  hint?: "too high" | "too low";
+  inputIndex?: number;
+  // Judge problems: the submitted program and, once it has been run, the
+  // result of each test case
+  code?: SubmittedCode;
+  verdict?: Verdict;
+  testResults?: TestResult[];
   submittedAt: number;
 }
 
 interface Session {
   userId: string;
   expiresAt: number;
+  // Every form post made with this session must echo it back
+  csrfToken: string;
 }
 
-interface GitHubTokenResponse {
-  access_token: string;
+// A private league. Problems published to it are only visible to its
+// members, who join with the invite link.
+interface Group {
+  id: string;
+  name: string;
+  ownerId: string;
+  memberIds: string[];
+  // Joining is at /join/<inviteCode>; the owner can replace the code
+  inviteCode: string;
+  createdAt: number;
 }
 
-interface GitHubUser {
-  id: number;
-  login: string;
-  avatar_url: string;
+// A timed set of problems with an ICPC-style scoreboard. Its problems are
+// hidden until the start, and only answers given before the end count.
+interface Contest {
+  id: string;
+  title: string;
+  authorId: string;
+  // In scoreboard order; a problem can only be in one contest
+  problemIds: string[];
+  startAt: number;
+  endAt: number;
+  // Added to a solve's time for each wrong answer before it
+  penaltyMinutes: number;
+  // The scoreboard stops updating for everyone but the author and admins
+  // this many minutes before the end, until the contest is over
+  freezeMinutes: number;
+  createdAt: number;
 }
 
-// In-memory storage
-const appState = {
-  users: new Map<string, User>(),
-  problems: new Map<string, Problem>(),
-  submissions: new Map<string, Submission>(),
-  sessions: new Map<string, Session>(),
-};
-
-// Config
-if (!process.env.GITHUB_CLIENT_ID || !process.env.GITHUB_CLIENT_SECRET) {
-  console.error("ERROR: GITHUB_CLIENT_ID and GITHUB_CLIENT_SECRET must be set");
-  console.error(
-    "Create a GitHub OAuth App at https://github.com/settings/developers",
-  );
-  process.exit(1);
+// A solver's difficulty rating of a problem, kept under
+// `${problemId}:${userId}` in appState.votes
+interface DifficultyVote {
+  problemId: string;
+  userId: string;
+  // 1 to 5, like Problem.difficulty
+  difficulty: number;
+  votedAt: number;
 }
 
-const GITHUB_CLIENT_ID = process.env.GITHUB_CLIENT_ID;
-const GITHUB_CLIENT_SECRET = process.env.GITHUB_CLIENT_SECRET;
-const BASE_URL = process.env.BASE_URL || "http://localhost:3000";
-const PORT = process.env.PORT || 3000;
-const DATA_DIR = process.env.DATA_DIR || ".";
-const DATA_FILE = `${DATA_DIR}/data.json`;
-const ADMIN_USERS = new Set(
-  (process.env.ADMIN_USERS || "")
-    .split(",")
-    .map((u) => u.trim())
-    .filter(Boolean),
-);
-
-// Persistence
-async function saveState() {
-  // Convert Maps to arrays for JSON serialization
-  const data = {
-    users: Array.from(appState.users.entries()),
-    problems: Array.from(appState.problems.entries()),
-    submissions: Array.from(appState.submissions.entries()),
-    sessions: Array.from(appState.sessions.entries()),
-  };
+// A hint a user revealed, kept under `${problemId}:${userId}:${hint}` in
+// appState.reveals
+interface HintReveal {
+  problemId: string;
+  userId: string;
+  // Index into problem.hints
+  hint: number;
+  revealedAt: number;
+}
+
+// A comment in a problem's discussion, which is hidden from everyone who
+// hasn't solved the problem so it can talk about solutions
+interface Post {
+  id: string;
+  problemId: string;
+  authorId: string;
+  // Markdown, with solutions in fenced code blocks tagged with a language
+  body: string;
+  createdAt: number;
+  editedAt?: number;
+}
 
-  // Write to temporary file first, then atomically rename
-  const tempFile = `${DATA_FILE}.tmp`;
-  await Bun.write(tempFile, JSON.stringify(data, null, 2));
+// An outgoing webhook, set up on the admin page
+interface Webhook {
+  id: string;
+  url: string;
+  format: WebhookFormat;
+  events: WebhookEventType[];
+  createdAt: number;
+}
 
-  // Atomic rename (if power loss happens before this, old file is intact)
-  await Bun.$`mv ${tempFile} ${DATA_FILE}`;
+// An event sent to a webhook, with its retries. Only the latest
+// MAX_DELIVERIES are kept, for the log on the admin page.
+interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  // Copied so the log still reads well once the webhook is deleted
+  url: string;
+  event: WebhookEventType;
+  problemId: string;
+  attempts: number;
+  ok: boolean;
+  // Of the last attempt; no status means there was no response
+  status?: number;
+  error?: string;
+  // Set while a retry is waiting
+  nextAttemptAt?: number;
+  createdAt: number;
+  lastAttemptAt: number;
 }
 
-async function loadState() {
-  try {
-    const file = Bun.file(DATA_FILE);
-    if (await file.exists()) {
-      const data = JSON.parse(await file.text());
+// A personal access token for the API. Only the token's hash is kept, and
+// it is also the key in appState.tokens.
+interface ApiToken {
+  id: string;
+  userId: string;
+  name: string;
+  createdAt: number;
+  lastUsedAt?: number;
+}
 
-      // Revive Maps from JSON
-      appState.users = new Map(data.users || []);
-      appState.problems = new Map(data.problems || []);
-      appState.submissions = new Map(data.submissions || []);
-      appState.sessions = new Map(data.sessions || []);
+// Limits
+const MAX_INPUT_SLOTS = 10;
+const MAX_PARTS = 5;
+const LEADERBOARD_SIZE = 100;
+const PROBLEMS_PER_PAGE = 20;
+const MAX_POST_LENGTH = 20_000;
+const MAX_HINTS = 3;
+const MAX_HINT_PENALTY_MINUTES = 24 * 60;
+const MAX_TOKENS_PER_USER = 20;
+const FEED_SIZE = 50;
+const MAX_WEBHOOKS = 20;
+const MAX_DELIVERIES = 100;
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+const MAX_CONTEST_PROBLEMS = 26;
+const MAX_CONTEST_MINUTES = 7 * 24 * 60;
+const DEFAULT_PENALTY_MINUTES = 20;
+const COOLDOWN_MS = 60 * 1000;
+const MAX_COOLDOWN_MS = 60 * 60 * 1000;
+const SAVE_INTERVAL_MS = 30 * 1000;
+const ANNOUNCE_INTERVAL_MS = 60 * 1000;
+
+export interface ServerConfig {
+  // Where users reach the app, for OAuth callbacks and invite links
+  baseUrl: string;
+  // 0 picks a free port
+  port: number;
+  storage: Storage;
+  // Offered on the login page, in order; at least one is needed
+  providers: OAuthProvider[];
+  // Login provider accounts with access to /admin, as "provider:id" like
+  // "github:583231". Not usernames, which anyone can take on first login.
+  adminUsers?: string[];
+  // Behind a reverse proxy, take client IPs from X-Forwarded-For
+  trustProxy?: boolean;
+  // The waits before each retry of a failed webhook delivery
+  webhookRetryDelaysMs?: number[];
+}
 
-      console.log(`Loaded state from ${DATA_FILE}`);
+// Loads the state from `config.storage` and starts serving. Each server
+// has its own state, so tests can run several in one process.
+export async function createServer(config: ServerConfig) {
+  const BASE_URL = config.baseUrl;
+  const TRUST_PROXY = config.trustProxy ?? false;
+  const SECURE_COOKIES = BASE_URL.startsWith("https://");
+  const ADMIN_USERS = new Set(config.adminUsers);
+  for (const admin of ADMIN_USERS) {
+    if (!admin.includes(":")) {
+      console.warn(
+        `Ignoring admin "${admin}": admins are given as provider:id, like github:583231`,
+      );
     }
-  } catch (e) {
-    console.log("No existing state found, starting fresh");
   }
-}
+  const OAUTH_PROVIDERS = config.providers;
+  const storage = config.storage;
+  const WEBHOOK_RETRY_DELAYS_MS = config.webhookRetryDelaysMs ?? [
+    10 * 1000,
+    60 * 1000,
+    10 * 60 * 1000,
+  ];
+
+  // Everything is kept in memory; sets and deletes are saved on the next flush
+  const appState = {
+    users: new StoredMap<User>(storage, "users"),
+    problems: new StoredMap<Problem>(storage, "problems"),
+    submissions: new SubmissionMap<Submission>(storage, "submissions"),
+    sessions: new StoredMap<Session>(storage, "sessions"),
+    // Keyed by `${problemId}:${userId}`
+    assignments: new StoredMap<InputAssignment>(storage, "assignments"),
+    revisions: new StoredMap<ProblemRevision>(storage, "revisions"),
+    tokens: new StoredMap<ApiToken>(storage, "tokens"),
+    groups: new StoredMap<Group>(storage, "groups"),
+    contests: new StoredMap<Contest>(storage, "contests"),
+    // Keyed by `${problemId}:${userId}`
+    votes: new StoredMap<DifficultyVote>(storage, "votes"),
+    posts: new StoredMap<Post>(storage, "posts"),
+    reveals: new StoredMap<HintReveal>(storage, "reveals"),
+    webhooks: new StoredMap<Webhook>(storage, "webhooks"),
+    deliveries: new StoredMap<WebhookDelivery>(storage, "deliveries"),
+  };
 
-// Save state every 30 seconds
-setInterval(saveState, 30000);
+  // Set once the server stops, to cancel webhook retries
+  let stopped = false;
 
-// Helper functions
-function generateId() {
-  return randomBytes(16).toString("hex");
-}
+  async function saveState() {
+    await storage.flush();
+  }
 
-function getCookie(req: Request, name: string): string | null {
-  const cookies = req.headers.get("cookie");
-  if (!cookies) return null;
-  const match = cookies.match(new RegExp(`${name}=([^;]+)`));
-  return match?.[1] ?? null;
-}
+  async function loadState() {
+    const data = await storage.load();
+    // Records are taken to have their collection's shape, except for ones
+    // saved by older versions, which are upgraded below
+    const records = <V>(name: CollectionName) =>
+      data[name] as unknown as [string, V][];
+    appState.users = new StoredMap(storage, "users", records<User>("users"));
+    appState.problems = new StoredMap(
+      storage,
+      "problems",
+      records<Problem>("problems"),
+    );
+    appState.submissions = new SubmissionMap(
+      storage,
+      "submissions",
+      records<Submission>("submissions"),
+    );
+    appState.sessions = new StoredMap(
+      storage,
+      "sessions",
+      records<Session>("sessions"),
+    );
+    appState.assignments = new StoredMap(
+      storage,
+      "assignments",
+      records<InputAssignment>("assignments"),
+    );
+    appState.revisions = new StoredMap(
+      storage,
+      "revisions",
+      records<ProblemRevision>("revisions"),
+    );
+    appState.tokens = new StoredMap(
+      storage,
+      "tokens",
+      records<ApiToken>("tokens"),
+    );
+    appState.groups = new StoredMap(
+      storage,
+      "groups",
+      records<Group>("groups"),
+    );
+    appState.contests = new StoredMap(
+      storage,
+      "contests",
+      records<Contest>("contests"),
+    );
+    appState.votes = new StoredMap(
+      storage,
+      "votes",
+      records<DifficultyVote>("votes"),
+    );
+    appState.posts = new StoredMap(storage, "posts", records<Post>("posts"));
+    appState.reveals = new StoredMap(
+      storage,
+      "reveals",
+      records<HintReveal>("reveals"),
+    );
+    appState.webhooks = new StoredMap(
+      storage,
+      "webhooks",
+      records<Webhook>("webhooks"),
+    );
+    appState.deliveries = new StoredMap(
+      storage,
+      "deliveries",
+      records<WebhookDelivery>("deliveries"),
+    );
+
+    upgradeRecords();
+    for (const sub of appState.submissions.values()) {
+      // Programs still queued when the server stopped
+      if (sub.code && !sub.verdict) queueJudging(sub.id);
+    }
+    // Retries that were waiting when the server stopped are given up
+    for (const [id, delivery] of appState.deliveries) {
+      if (delivery.nextAttemptAt !== undefined) {
+        delete delivery.nextAttemptAt;
+        appState.deliveries.set(id, delivery);
+      }
+    }
+    await saveState();
+  }
+
+  // Upgrades records saved by older versions, then sets them again so the
+  // upgrade is saved too
+  function upgradeRecords() {
+    for (const [id, user] of appState.users) {
+      if (upgradeUser(user)) appState.users.set(id, user);
+    }
+    for (const [id, problem] of appState.problems) {
+      const before = JSON.stringify(problem);
+      upgradeProblem(problem);
+      if (JSON.stringify(problem) !== before)
+        appState.problems.set(id, problem);
+    }
+    for (const [id, sub] of appState.submissions) {
+      // Submissions from before multi-part problems were all for part 1
+      if (sub.part === undefined) {
+        sub.part = 0;
+        appState.submissions.set(id, sub);
+      }
+    }
+    // Sessions from before CSRF protection get a token on first load
+    for (const [id, session] of appState.sessions) {
+      if (!session.csrfToken) {
+        session.csrfToken = generateId();
+        appState.sessions.set(id, session);
+      }
+    }
+  }
 
-function getSessionUser(req: Request): User | null {
-  const sessionId = getCookie(req, "session");
-  if (!sessionId) return null;
-  const session = appState.sessions.get(sessionId);
-  if (!session || session.expiresAt < Date.now()) {
-    if (session) appState.sessions.delete(sessionId);
-    return null;
+  // Brings users saved by older versions up to the current shape, returning
+  // whether anything changed
+  function upgradeUser(user: User): boolean {
+    const legacy = user as User & { githubId?: number };
+
+    // Before other login providers, users were GitHub accounts
+    if (legacy.identities) return false;
+    legacy.identities =
+      legacy.githubId === undefined
+        ? []
+        : [
+            {
+              provider: "github",
+              id: String(legacy.githubId),
+              username: legacy.username,
+            },
+          ];
+    delete legacy.githubId;
+    return true;
   }
-  return appState.users.get(session.userId) || null;
-}
 
-function getProblemStats(problemId: string) {
-  const attempts = new Set<string>();
-  const solves = new Set<string>();
+  // Brings problems saved by older versions up to the current shape
+  function upgradeProblem(problem: Problem) {
+    const legacy = problem as Problem & {
+      description?: string;
+      inputFile?: string;
+      inputFileName?: string;
+      correctAnswer?: string;
+    };
+
+    // Before per-user inputs there was a single input/answer
+    if (!legacy.inputs) {
+      legacy.inputs = [
+        {
+          inputFile: legacy.inputFile,
+          inputFileName: legacy.inputFileName,
+          correctAnswers: [legacy.correctAnswer || ""],
+        },
+      ];
+      delete legacy.inputFile;
+      delete legacy.inputFileName;
+      delete legacy.correctAnswer;
+    }
 
-  for (const sub of appState.submissions.values()) {
-    if (sub.problemId === problemId) {
-      attempts.add(sub.userId);
-      if (sub.isCorrect) solves.add(sub.userId);
+    // Before multi-part problems there was one description and one answer
+    if (!legacy.parts) {
+      legacy.parts = [{ description: legacy.description || "" }];
+      delete legacy.description;
+      for (const input of legacy.inputs) {
+        const old = input as ProblemInput & { correctAnswer?: string };
+        if (!old.correctAnswers) {
+          old.correctAnswers = [old.correctAnswer || ""];
+          delete old.correctAnswer;
+        }
+      }
     }
+
+    // Before answer checkers answers had to match exactly
+    legacy.checker ??= { type: DEFAULT_CHECKER.type, settings: {} };
+    legacy.numericHints ??= false;
   }
 
-  return { attempts: attempts.size, solves: solves.size };
-}
+  // Helper functions
+  function generateId() {
+    return randomBytes(16).toString("hex");
+  }
+
+  function getCookie(req: Request, name: string): string | null {
+    const cookies = req.headers.get("cookie");
+    if (!cookies) return null;
+    const match = cookies.match(new RegExp(`(?:^|;\\s*)${name}=([^;]+)`));
+    return match?.[1] ?? null;
+  }
 
-function hasSolved(userId: string, problemId: string): boolean {
-  for (const sub of appState.submissions.values()) {
-    if (sub.problemId === problemId && sub.userId === userId && sub.isCorrect) {
-      return true;
+  function setCookie(name: string, value: string, maxAge: number, path = "/") {
+    return `${name}=${value}; Path=${path}; HttpOnly; SameSite=Lax; Max-Age=${maxAge}${SECURE_COOKIES ? "; Secure" : ""}`;
+  }
+
+  function getSession(req: Request): Session | null {
+    const sessionId = getCookie(req, "session");
+    if (!sessionId) return null;
+    const session = appState.sessions.get(sessionId);
+    if (!session || session.expiresAt < Date.now()) {
+      if (session) appState.sessions.delete(sessionId);
+      return null;
     }
+    return session;
   }
-  return false;
-}
 
-function isAdmin(user: User | null): boolean {
-  return user ? ADMIN_USERS.has(user.username) : false;
-}
+  // The logged in user, or null for an expired session or a deleted user
+  function getSessionUser(session: Session | null): User | null {
+    return session ? appState.users.get(session.userId) || null : null;
+  }
 
-function html(content: string, user: User | null = null) {
-  const nav = user
-    ? `<nav>
-        <span>@${user.username}</span>
-        <span class="nav-sep">|</span>
-        <a href="/">home</a>
-        <span class="nav-sep">|</span>
-        <a href="/new-problem">new</a>
-        ${isAdmin(user) ? '<span class="nav-sep">|</span><a href="/admin">admin</a>' : ""}
-        <span class="nav-sep">|</span>
-        <form action="/logout" method="post" style="display: inline;">
-          <button type="submit" class="link-button">logout</button>
-        </form>
-      </nav>`
-    : `<nav>
-        <a href="/">home</a>
-        <span class="nav-sep">|</span>
-        <a href="/auth/github">login</a>
-      </nav>`;
+  // Hidden field for forms that post back to the app, checked by
+  // isValidCsrfToken before any POST route runs
+  function csrfField(session: Session | null) {
+    return (
+      session &&
+      markup`<input type="hidden" name="csrf" value="${session.csrfToken}">`
+    );
+  }
 
-  return `<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="utf-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1">
-  <title>coding problems</title>
-  <link rel="icon" href="data:image/svg+xml,<svg xmlns=%22http://www.w3.org/2000/svg%22 viewBox=%220 0 100 100%22><text y=%22.9em%22 font-size=%2290%22>💻</text></svg>">
-  <style>
-    * {
-      margin: 0;
-      padding: 0;
-      box-sizing: border-box;
-    }
+  function isValidCsrfToken(session: Session, token: unknown): boolean {
+    if (typeof token !== "string") return false;
+    const given = Buffer.from(token);
+    const expected = Buffer.from(session.csrfToken);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
 
-    body {
-      font-family: 'Monaco', 'Menlo', 'Courier New', monospace;
-      font-size: 14px;
-      line-height: 1.6;
-      max-width: 900px;
-      margin: 0 auto;
-      padding: 20px;
-      background: #0d1117;
-      color: #c9d1d9;
-    }
+  // Where to send the user after login. Only paths on this site are allowed,
+  // anything else (//evil.com, https://evil.com, ...) falls back to "/"
+  function safeReturnPath(value: string | null): string {
+    if (!value?.startsWith("/")) return "/";
+    const base = new URL(BASE_URL);
+    const target = new URL(value, base);
+    if (target.origin !== base.origin) return "/";
+    return target.pathname + target.search + target.hash;
+  }
 
-    a {
-      color: #58a6ff;
-      text-decoration: none;
+  // Decodes a URL path segment or cookie value. Malformed escapes like %E0
+  // give null instead of throwing, so they can be answered with a 404.
+  function decodeComponent(value: string): string | null {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return null;
     }
+  }
 
-    a:hover {
-      text-decoration: underline;
-    }
+  function getProblemStats(problem: Problem) {
+    const partSolves = problem.parts.map((_, part) =>
+      appState.submissions.solverCount(problem.id, part),
+    );
+
+    // Parts unlock in order, so solving the last part means solving them all
+    return {
+      attempts: appState.submissions.attemptCount(problem.id),
+      solves: partSolves[partSolves.length - 1]!,
+      partSolves,
+    };
+  }
 
-    nav {
-      border-bottom: 1px solid #30363d;
-      padding-bottom: 15px;
-      margin-bottom: 25px;
-      font-size: 13px;
+  // Number of parts solved, which is also the index of the part to work on next
+  function getSolvedPartCount(userId: string, problem: Problem): number {
+    let count = 0;
+    while (
+      count < problem.parts.length &&
+      appState.submissions.hasSolved(userId, problem.id, count)
+    ) {
+      count++;
     }
+    return count;
+  }
 
-    .nav-sep {
-      color: #30363d;
-      margin: 0 8px;
+  function formatStats(
+    problem: Problem,
+    stats: ReturnType<typeof getProblemStats>,
+  ) {
+    let line = `${stats.attempts} ${stats.attempts === 1 ? "attempt" : "attempts"} • ${stats.solves} ${stats.solves === 1 ? "solve" : "solves"}`;
+    if (problem.parts.length > 1) {
+      line += ` (${stats.partSolves.map((n, i) => `part ${i + 1}: ${n}`).join(", ")})`;
     }
+    return line;
+  }
 
-    h1 {
-      font-size: 24px;
-      margin-bottom: 20px;
-      color: #58a6ff;
-      font-weight: normal;
-    }
+  // When the clock starts for leaderboard times
+  // Contest problems start with their contest
+  function getProblemStartTime(problem: Problem): number {
+    const contest = getProblemContest(problem.id);
+    return Math.max(
+      problem.releaseAt ?? problem.createdAt,
+      contest?.startAt ?? 0,
+    );
+  }
 
-    h2 {
-      font-size: 18px;
-      margin: 25px 0 15px;
-      color: #8b949e;
-      font-weight: normal;
-    }
+  function isReleased(problem: Problem): boolean {
+    return getProblemStartTime(problem) <= Date.now();
+  }
 
-    h3 {
-      font-size: 16px;
-      margin-bottom: 8px;
-      font-weight: normal;
+  function getProblemContest(problemId: string): Contest | undefined {
+    for (const contest of appState.contests.values()) {
+      if (contest.problemIds.includes(problemId)) return contest;
     }
+    return undefined;
+  }
 
-    p {
-      margin-bottom: 12px;
+  function removeFromContest(problemId: string) {
+    const contest = getProblemContest(problemId);
+    if (contest) {
+      contest.problemIds = contest.problemIds.filter((id) => id !== problemId);
+      appState.contests.set(contest.id, contest);
     }
+  }
 
-    form {
-      margin: 20px 0;
-    }
+  function isMember(user: User | null, groupId: string): boolean {
+    return (
+      !!user && !!appState.groups.get(groupId)?.memberIds.includes(user.id)
+    );
+  }
 
-    label {
-      display: block;
-      margin: 15px 0 5px;
-      color: #8b949e;
-    }
+  // Groups the user belongs to, by name
+  function getUserGroups(user: User): Group[] {
+    return Array.from(appState.groups.values())
+      .filter((group) => group.memberIds.includes(user.id))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
 
-    input[type="text"],
-    input[type="file"],
-    textarea {
-      width: 100%;
-      padding: 8px 12px;
-      background: #0d1117;
-      border: 1px solid #30363d;
-      color: #c9d1d9;
-      font-family: inherit;
-      font-size: 13px;
-      margin-bottom: 5px;
-    }
+  // Whether the problem is public or published to one of the user's groups
+  function isInAudience(user: User | null, problem: Problem): boolean {
+    return (
+      !problem.groupIds?.length ||
+      problem.groupIds.some((groupId) => isMember(user, groupId))
+    );
+  }
 
-    input[type="text"]:focus,
-    textarea:focus {
-      outline: none;
-      border-color: #58a6ff;
-    }
+  // Problems are visible to their author and admins, and once released to
+  // everyone they're published to
+  function canView(user: User | null, problem: Problem): boolean {
+    return (
+      (isReleased(problem) && isInAudience(user, problem)) ||
+      (!!user && (problem.authorId === user.id || isAdmin(user)))
+    );
+  }
 
-    textarea {
-      min-height: 200px;
-      resize: vertical;
-    }
+  // " • group: a, b" for problems published to groups
+  function formatGroups(problem: Problem) {
+    const names = (problem.groupIds ?? []).map(
+      (id) => appState.groups.get(id)?.name ?? "deleted group",
+    );
+    return (
+      names.length > 0 &&
+      ` • ${names.length === 1 ? "group" : "groups"}: ${names.join(", ")}`
+    );
+  }
 
-    button {
-      padding: 8px 16px;
-      background: #21262d;
-      color: #c9d1d9;
-      border: 1px solid #30363d;
-      cursor: pointer;
-      font-family: inherit;
-      font-size: 13px;
-      margin-top: 5px;
-    }
+  interface VoteTotal {
+    total: number;
+    count: number;
+  }
 
-    button:hover {
-      background: #30363d;
-      border-color: #8b949e;
+  // Solvers' difficulty votes by problem id
+  function getVoteTotals(): Map<string, VoteTotal> {
+    const totals = new Map<string, VoteTotal>();
+    for (const vote of appState.votes.values()) {
+      const entry = totals.get(vote.problemId) ?? { total: 0, count: 0 };
+      entry.total += vote.difficulty;
+      entry.count++;
+      totals.set(vote.problemId, entry);
     }
+    return totals;
+  }
 
-    button:active {
-      background: #0d1117;
+  // What the problem list filters and sorts by: the author's rating, or
+  // else the solvers' average
+  function getDifficulty(
+    problem: Problem,
+    votes: VoteTotal | undefined,
+  ): number | undefined {
+    if (problem.difficulty) return problem.difficulty;
+    return votes && Math.round(votes.total / votes.count);
+  }
+
+  // " • medium • solvers say hard (3 votes)"
+  function formatDifficulty(problem: Problem, votes: VoteTotal | undefined) {
+    let line = "";
+    if (problem.difficulty) {
+      line += ` • ${DIFFICULTIES[problem.difficulty - 1]}`;
     }
+    if (votes) {
+      const average = Math.round(votes.total / votes.count);
+      line += ` • solvers say ${DIFFICULTIES[average - 1]} (${votes.count} ${votes.count === 1 ? "vote" : "votes"})`;
+    }
+    return line;
+  }
 
-    .link-button {
-      background: none;
-      border: none;
-      color: #58a6ff;
-      padding: 0;
-      margin: 0;
-      cursor: pointer;
+  // " • tags: a, b", each linking to the problems with that tag
+  function formatTags(problem: Problem) {
+    const tags = problem.tags ?? [];
+    return (
+      tags.length > 0 &&
+      markup` • tags: ${tags.map(
+        (tag, i) =>
+          markup`${i > 0 && ", "}<a href="/?tag=${encodeURIComponent(tag)}">${tag}</a>`,
+      )}`
+    );
+  }
+
+  interface LeaderboardEntry {
+    rank: number;
+    userId: string;
+    solvedAt: number;
+    elapsedMs: number;
+    wrongAttempts: number;
+    // Hints revealed before the solve, and the time they added
+    hintsUsed: number;
+    penaltyMs: number;
+  }
+
+  // Ranks everyone who solved the given part by time from the problem's start
+  // to their first correct answer, plus any hint penalty, then by wrong
+  // answers before it. Times are compared to the second and equal entries
+  // share a rank (1, 2, 2, 4).
+  function getProblemLeaderboard(
+    problem: Problem,
+    part: number,
+  ): LeaderboardEntry[] {
+    const startTime = getProblemStartTime(problem);
+    const byUser = new Map<string, Submission[]>();
+
+    for (const sub of appState.submissions.forProblem(problem.id)) {
+      if (sub.part === part) {
+        const subs = byUser.get(sub.userId) || [];
+        subs.push(sub);
+        byUser.set(sub.userId, subs);
+      }
     }
 
-    .link-button:hover {
-      text-decoration: underline;
-      background: none;
-      border: none;
+    const entries: Omit<LeaderboardEntry, "rank">[] = [];
+    for (const [userId, subs] of byUser) {
+      subs.sort((a, b) => a.submittedAt - b.submittedAt);
+      const firstCorrect = subs.findIndex((s) => s.isCorrect);
+      if (firstCorrect === -1) continue;
+
+      const solvedAt = subs[firstCorrect]!.submittedAt;
+      const hintsUsed = getRevealedHints(userId, problem).filter(
+        (reveal) => reveal.revealedAt <= solvedAt,
+      ).length;
+      entries.push({
+        userId,
+        solvedAt,
+        elapsedMs: Math.max(solvedAt - startTime, 0),
+        wrongAttempts: firstCorrect,
+        hintsUsed,
+        penaltyMs: hintsUsed * (problem.hintPenaltyMinutes ?? 0) * 60 * 1000,
+      });
     }
 
-    .problem {
-      border: 1px solid #30363d;
-      padding: 15px;
-      margin: 12px 0;
-      background: #161b22;
+    const seconds = (entry: { elapsedMs: number; penaltyMs: number }) =>
+      Math.floor((entry.elapsedMs + entry.penaltyMs) / 1000);
+    entries.sort(
+      (a, b) =>
+        seconds(a) - seconds(b) ||
+        a.wrongAttempts - b.wrongAttempts ||
+        a.solvedAt - b.solvedAt,
+    );
+
+    const ranked: LeaderboardEntry[] = [];
+    entries.forEach((entry, i) => {
+      const prev = ranked[i - 1];
+      const tied =
+        prev &&
+        seconds(prev) === seconds(entry) &&
+        prev.wrongAttempts === entry.wrongAttempts;
+      ranked.push({ ...entry, rank: tied ? prev.rank : i + 1 });
+    });
+    return ranked;
+  }
+
+  // The hints the user revealed, in order
+  function getRevealedHints(userId: string, problem: Problem): HintReveal[] {
+    const reveals: HintReveal[] = [];
+    for (let i = 0; i < (problem.hints?.length ?? 0); i++) {
+      const reveal = appState.reveals.get(`${problem.id}:${userId}:${i}`);
+      if (!reveal) break;
+      reveals.push(reveal);
     }
+    return reveals;
+  }
 
-    .problem h3 {
-      margin-top: 0;
+  // Judged wrong, so programs still waiting for a verdict don't count
+  function getWrongAnswerCount(userId: string, problem: Problem): number {
+    return appState.submissions
+      .forProblemAndUser(problem.id, userId)
+      .filter((sub) => !sub.isCorrect && (!sub.code || sub.verdict)).length;
+  }
+
+  // What's left before the hint can be revealed, or null if it can be now
+  function getHintLock(hint: ProblemHint, wrongAnswers: number): string | null {
+    const now = Date.now();
+    const { afterWrongAnswers, availableAt } = hint;
+    if (
+      (afterWrongAnswers === undefined && availableAt === undefined) ||
+      (afterWrongAnswers !== undefined && wrongAnswers >= afterWrongAnswers) ||
+      (availableAt !== undefined && now >= availableAt)
+    ) {
+      return null;
     }
 
-    .problem-meta {
-      font-size: 12px;
-      color: #8b949e;
-      margin-top: 8px;
+    const conditions: string[] = [];
+    if (afterWrongAnswers !== undefined) {
+      const left = afterWrongAnswers - wrongAnswers;
+      conditions.push(
+        `after ${left} more wrong ${left === 1 ? "answer" : "answers"}`,
+      );
     }
+    if (availableAt !== undefined) {
+      conditions.push(`in ${formatDuration(availableAt - now)}`);
+    }
+    return conditions.join(" or ");
+  }
 
-    .submission {
-      border-left: 2px solid #30363d;
-      padding: 10px 12px;
-      margin: 8px 0;
-      background: #161b22;
-      font-size: 13px;
+  // When a hint unlocks, for its author
+  function formatHintCondition(hint: ProblemHint): string {
+    const conditions: string[] = [];
+    if (hint.afterWrongAnswers !== undefined) {
+      conditions.push(
+        `after ${hint.afterWrongAnswers} wrong ${hint.afterWrongAnswers === 1 ? "answer" : "answers"}`,
+      );
+    }
+    if (hint.availableAt !== undefined) {
+      conditions.push(`from ${new Date(hint.availableAt).toUTCString()}`);
     }
+    return conditions.length > 0 ? conditions.join(" or ") : "right away";
+  }
 
-    .submission.correct {
-      border-left-color: #238636;
+  // The hints of a problemForm; blank slots are skipped
+  function readHints(
+    formData: Awaited<ReturnType<Request["formData"]>>,
+  ): ProblemHint[] | undefined {
+    const texts = formData.getAll("hintText") as string[];
+    const afterWrong = formData.getAll("hintAfterWrong") as string[];
+    const times = formData.getAll("hintAt") as string[];
+
+    const hints: ProblemHint[] = [];
+    texts.slice(0, MAX_HINTS).forEach((text, i) => {
+      if (!text.trim()) return;
+      const hint: ProblemHint = { text: text.trim() };
+
+      const wrongValue = afterWrong[i]?.trim();
+      if (wrongValue) {
+        const count = Number(wrongValue);
+        if (!Number.isInteger(count) || count < 1 || count > 1000) {
+          throw new Error(
+            `Hint ${i + 1} needs a whole number of wrong answers from 1 to 1000`,
+          );
+        }
+        hint.afterWrongAnswers = count;
+      }
+
+      const timeValue = times[i];
+      if (timeValue) {
+        hint.availableAt = parseUtcDateTime(timeValue);
+        if (hint.availableAt === undefined) {
+          throw new Error(`Invalid unlock time for hint ${i + 1}`);
+        }
+      }
+      hints.push(hint);
+    });
+    return hints.length > 0 ? hints : undefined;
+  }
+
+  function readHintPenalty(
+    formData: Awaited<ReturnType<Request["formData"]>>,
+  ): number | undefined {
+    const value = (
+      (formData.get("hintPenaltyMinutes") as string | null) ?? ""
+    ).trim();
+    const minutes = Number(value || 0);
+    if (
+      !Number.isInteger(minutes) ||
+      minutes < 0 ||
+      minutes > MAX_HINT_PENALTY_MINUTES
+    ) {
+      throw new Error(
+        `The hint penalty must be 0 to ${MAX_HINT_PENALTY_MINUTES} minutes`,
+      );
     }
+    return minutes || undefined;
+  }
 
-    .submission.incorrect {
-      border-left-color: #da3633;
+  // Clamped integer from a query parameter
+  function parseCount(value: string | null, min: number, max: number) {
+    return Math.min(Math.max(parseInt(value || "") || min, min), max);
+  }
+
+  // Shared by the new and edit problem pages. Parts and inputs are sent as
+  // repeated fields: one description per part, then for each input one answer
+  // per part followed by its file. `problem` is the saved problem when editing,
+  // `values` the fields to fill in when they differ from it (after a preview).
+  function problemForm(options: {
+    action: string;
+    problem?: Problem;
+    values?: ProblemContent;
+    partCount: number;
+    inputCount: number;
+    submitLabel: string;
+    // Groups the problem can be published to
+    groups: Group[];
+    csrf: SafeHtml | null;
+  }) {
+    const { action, problem, groups } = options;
+    const values = options.values ?? problem;
+    const partCount = Math.max(options.partCount, values?.parts.length ?? 1);
+    const inputCount = Math.max(options.inputCount, values?.inputs.length ?? 1);
+
+    const partFields: SafeHtml[] = [];
+    for (let part = 0; part < partCount; part++) {
+      partFields.push(markup`
+      <label>${partCount > 1 ? `part ${part + 1} description` : "description"}:</label>
+      <textarea name="description" required placeholder="explain the problem... (markdown)">${values?.parts[part]?.description}</textarea>
+    `);
     }
 
-    .submission-actions {
-      margin-top: 8px;
+    const inputSlots: SafeHtml[] = [];
+    for (let i = 0; i < inputCount; i++) {
+      const suffix = inputCount > 1 ? ` #${i + 1}` : "";
+      const input = values?.inputs[i];
+      const saved = problem?.inputs[i];
+      for (let part = 0; part < partCount; part++) {
+        inputSlots.push(markup`
+        <label>${partCount > 1 ? `part ${part + 1} answer` : "correct answer"}${suffix}:</label>
+        <textarea name="correctAnswer" class="answer" placeholder="the answer string">${input?.correctAnswers[part]}</textarea>
+      `);
+      }
+      inputSlots.push(markup`
+      <label>input file${suffix} (optional${saved?.inputFile && `, leave empty to keep ${saved.inputFileName || "the current file"}`}):</label>
+      <input type="file" name="inputFile">
+    `);
     }
 
-    pre {
-      background: #161b22;
-      border: 1px solid #30363d;
-      padding: 15px;
-      overflow-x: auto;
-      margin: 12px 0;
-      white-space: pre-wrap;
-      word-wrap: break-word;
+    const countLinks = (param: string, current: number, choices: number[]) =>
+      choices
+        .filter((n) =>
+          param === "parts"
+            ? n >= (problem?.parts.length ?? 1)
+            : n >= (problem?.inputs.length ?? 1),
+        )
+        .map((n, i) => {
+          const separator = i > 0 && " • ";
+          if (n === current) return markup`${separator}<strong>${n}</strong>`;
+          const params = new URLSearchParams({
+            inputs: String(inputCount),
+            parts: String(partCount),
+            [param]: String(n),
+          });
+          return markup`${separator}<a href="${action}?${params}">${n}</a>`;
+        });
+
+    const checker = values?.checker ?? DEFAULT_CHECKER;
+    const checkers = listCheckers();
+    const checkerSettings = checkers.flatMap(([type, { label, settings }]) =>
+      (settings ?? []).map(
+        (setting) => markup`
+        <label>${label} — ${setting.label}:</label>
+        <input type="text" name="checker-${type}-${setting.name}" value="${checker.type === type && checker.settings[setting.name]}" placeholder="${setting.placeholder}">
+      `,
+      ),
+    );
+
+    const judgeConfig = values?.judge;
+    const testFields: SafeHtml[] = [];
+    for (let part = 0; part < partCount; part++) {
+      const saved = problem?.judge?.tests[part];
+      testFields.push(markup`
+      <label>test cases${partCount > 1 && ` for part ${part + 1}`}${saved && ` (leave empty to keep the current ${saved.length})`}:</label>
+      <input type="file" name="tests" accept=".json,application/json">
+    `);
     }
 
-    code {
-      background: #161b22;
-      padding: 2px 6px;
-      border: 1px solid #30363d;
-      font-size: 12px;
+    const releaseAt = values?.releaseAt
+      ? new Date(values.releaseAt).toISOString().slice(0, 16)
+      : "";
+
+    return markup`
+    <p class="stats">
+      parts: ${countLinks("parts", partCount, [1, 2, 3, 4, 5])}
+      — each part unlocks once the previous one is solved
+    </p>
+    <p class="stats">
+      inputs: ${countLinks("inputs", inputCount, [1, 2, 3, 5, 10])}
+      — each solver is assigned one input and its answers
+    </p>
+    <form action="${action}" method="post" enctype="multipart/form-data">
+      ${options.csrf}
+      <label>title:</label>
+      <input type="text" name="title" value="${values?.title}" required autofocus>
+      ${partFields}${inputSlots}
+      <label>input bundle (optional, replaces the answers above):</label>
+      <input type="file" name="inputBundle" accept=".json,application/json">
+      <p class="stats">a JSON array like [{"name": "input1.txt", "input": "...", "answer": "42"}, ...], using "answers": ["part 1", "part 2"] for multi-part problems</p>
+
+      <label>
+        <input type="checkbox" name="judge" value="1" ${judgeConfig && "checked"}>
+        judge mode: solvers submit a program instead of an answer
+      </label>
+      <p class="stats">programs (${Object.values(LANGUAGES).join(", ")}) read a test's input on stdin and print its output, which is compared with the expected output by the answer checker. the answers and input files above aren't used</p>
+      ${testFields}
+      <p class="stats">a JSON array like [{"input": "1 2", "output": "3"}, ...], kept hidden from solvers</p>
+      <label>time limit per test, ms:</label>
+      <input type="text" name="timeLimitMs" value="${judgeConfig?.timeLimitMs ?? DEFAULT_TIME_LIMIT_MS}">
+      <label>memory limit, MB:</label>
+      <input type="text" name="memoryLimitMb" value="${judgeConfig?.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB}">
+
+      <label>answer checker:</label>
+      <select name="checker">
+        ${checkers.map(
+          ([type, { label }]) =>
+            markup`<option value="${type}" ${type === checker.type && "selected"}>${label}</option>`,
+        )}
+      </select>
+      <p class="stats">
+        ${checkers.map(([, { label, hint }]) => markup`${label}: ${hint}<br>`)}
+      </p>
+      ${checkerSettings}
+      <label>
+        <input type="checkbox" name="numericHints" value="1" ${values?.numericHints && "checked"}>
+        tell solvers if a wrong numeric answer is too high or too low
+      </label>
+
+      <label>hints (optional):</label>
+      <p class="stats">solvers reveal them one at a time, in order. each can be revealed after a number of wrong answers, from a time (UTC), or whichever comes first. with neither, right away</p>
+      ${Array.from({ length: MAX_HINTS }, (_, i) => {
+        const hint = values?.hints?.[i];
+        const availableAt = hint?.availableAt
+          ? new Date(hint.availableAt).toISOString().slice(0, 16)
+          : "";
+        return markup`
+          <label>hint ${i + 1}:</label>
+          <textarea name="hintText" class="hint" placeholder="Markdown">${hint?.text}</textarea>
+          <input type="text" name="hintAfterWrong" value="${hint?.afterWrongAnswers}" placeholder="wrong answers before it can be revealed">
+          <input type="datetime-local" name="hintAt" value="${availableAt}">
+        `;
+      })}
+      <label>leaderboard penalty per revealed hint, minutes:</label>
+      <input type="text" name="hintPenaltyMinutes" value="${values?.hintPenaltyMinutes ?? 0}">
+
+      <label>tags (optional):</label>
+      <input type="text" name="tags" value="${values?.tags?.join(", ")}" placeholder="graphs, dynamic-programming">
+      <p class="stats">up to ${MAX_TAGS} tags, separated by commas. solvers can filter the problem list by them</p>
+
+      <label>difficulty:</label>
+      <select name="difficulty">
+        <option value="">not rated</option>
+        ${DIFFICULTIES.map(
+          (label, i) =>
+            markup`<option value="${i + 1}" ${values?.difficulty === i + 1 && "selected"}>${label}</option>`,
+        )}
+      </select>
+      <p class="stats">solvers vote on it too, once they've solved the problem</p>
+
+      <label>release at, UTC (optional):</label>
+      <input type="datetime-local" name="releaseAt" value="${releaseAt}">
+      <p class="stats">until then only you and admins can see the problem</p>
+
+      <label>publish to:</label>
+      ${
+        groups.length === 0
+          ? markup`<p class="stats">everyone. <a href="/groups">create a group</a> to publish to a private league instead</p>`
+          : markup`
+            ${groups.map(
+              (group) => markup`
+                <label>
+                  <input type="checkbox" name="groups" value="${group.id}" ${values?.groupIds?.includes(group.id) && "checked"}>
+                  ${group.name}
+                </label>
+              `,
+            )}
+            <p class="stats">only members of the checked groups can see the problem. leave all unchecked to publish to everyone</p>
+          `
+      }
+      ${
+        problem &&
+        markup`
+          <label>
+            <input type="checkbox" name="regrade" value="1">
+            re-grade existing submissions if the answers or checker changed
+          </label>
+        `
+      }
+      <button type="submit">${options.submitLabel}</button>
+      <button type="submit" name="preview" value="1">preview</button>
+    </form>
+  `;
+  }
+
+  // Rendered descriptions of a problemForm draft, shown above the form
+  function problemPreview(values: ProblemContent, filesDropped: boolean) {
+    return markup`
+    <div class="problem">
+      <h2>preview: ${values.title}</h2>
+      ${values.parts.map(
+        (part, i) => markup`
+          ${values.parts.length > 1 && markup`<h3>part ${i + 1}</h3>`}
+          <div class="markdown">${renderMarkdown(part.description)}</div>
+        `,
+      )}
+      ${
+        filesDropped &&
+        markup`<p class="stats">browsers don't keep chosen files, so select any input files again before creating the problem</p>`
+      }
+    </div>
+  `;
+  }
+
+  // The fields of a submitted problemForm as typed, without validation or
+  // file uploads, for previews
+  function readProblemDraft(
+    formData: Awaited<ReturnType<Request["formData"]>>,
+    existing?: Problem,
+  ): ProblemContent {
+    const descriptions = formData.getAll("description") as string[];
+    const answers = formData.getAll("correctAnswer") as string[];
+    const partCount = Math.max(descriptions.length, 1);
+
+    const inputs: ProblemInput[] = [];
+    for (let i = 0; i * partCount < answers.length; i++) {
+      inputs.push({
+        ...existing?.inputs[i],
+        correctAnswers: answers.slice(i * partCount, (i + 1) * partCount),
+      });
     }
 
-    .badge {
-      display: inline-block;
-      padding: 2px 8px;
-      font-size: 11px;
-      border: 1px solid #30363d;
-      margin-left: 8px;
+    return {
+      title: formData.get("title") as string,
+      parts: descriptions.map((description) => ({ description })),
+      inputs,
+      checker: readChecker(formData),
+      numericHints: formData.get("numericHints") === "1",
+      judge:
+        formData.get("judge") === "1"
+          ? {
+              tests: existing?.judge?.tests ?? [],
+              timeLimitMs: Number(formData.get("timeLimitMs")),
+              memoryLimitMb: Number(formData.get("memoryLimitMb")),
+            }
+          : undefined,
+      releaseAt: parseUtcDateTime((formData.get("releaseAt") as string) || ""),
+      groupIds: readGroupIds(formData),
+      tags: splitTags((formData.get("tags") as string | null) ?? ""),
+      difficulty: parseDifficulty(formData.get("difficulty")),
+      hints: formData.getAll("hintText").map((text, i) => ({
+        text: text as string,
+        afterWrongAnswers:
+          Number(formData.getAll("hintAfterWrong")[i]) || undefined,
+        availableAt: parseUtcDateTime(
+          (formData.getAll("hintAt")[i] as string | undefined) ?? "",
+        ),
+      })),
+      hintPenaltyMinutes: Number(formData.get("hintPenaltyMinutes")) || 0,
+    };
+  }
+
+  // The groups checked in a problemForm, or undefined for a public problem
+  function readGroupIds(
+    formData: Awaited<ReturnType<Request["formData"]>>,
+  ): string[] | undefined {
+    const ids = Array.from(new Set(formData.getAll("groups") as string[]));
+    return ids.length > 0 ? ids : undefined;
+  }
+
+  // Groups an author can publish a problem to: their own, plus any it is
+  // already published to
+  function getPublishableGroups(user: User, problem?: Problem): Group[] {
+    const groups = getUserGroups(user);
+    for (const id of problem?.groupIds ?? []) {
+      const group = appState.groups.get(id);
+      if (group && !groups.includes(group)) groups.push(group);
     }
+    return groups;
+  }
 
-    .badge.solved {
-      border-color: #238636;
-      color: #238636;
+  // Judge settings from a submitted problemForm. When editing, parts without
+  // a newly uploaded test file keep their current tests.
+  async function readJudgeConfig(
+    formData: Awaited<ReturnType<Request["formData"]>>,
+    partCount: number,
+    existing?: JudgeConfig,
+  ): Promise<JudgeConfig> {
+    const files = formData.getAll("tests") as File[];
+    const tests: TestCase[][] = [];
+    for (let part = 0; part < partCount; part++) {
+      const file = files[part];
+      const current = existing?.tests[part];
+      if (file && file.size > 0) {
+        try {
+          tests.push(parseTestCases(await file.text()));
+        } catch (e) {
+          throw new Error(
+            `Invalid test cases for part ${part + 1}: ${(e as Error).message}`,
+          );
+        }
+      } else if (current) {
+        tests.push(current);
+      } else {
+        throw new Error(`Part ${part + 1} needs test cases`);
+      }
     }
 
-    .stats {
-      font-size: 12px;
-      color: #8b949e;
-      margin: 8px 0;
+    const timeLimitMs = Number(formData.get("timeLimitMs"));
+    if (
+      !Number.isInteger(timeLimitMs) ||
+      timeLimitMs < 100 ||
+      timeLimitMs > MAX_TIME_LIMIT_MS
+    ) {
+      throw new Error(`Time limit must be 100 to ${MAX_TIME_LIMIT_MS} ms`);
+    }
+    const memoryLimitMb = Number(formData.get("memoryLimitMb"));
+    if (
+      !Number.isInteger(memoryLimitMb) ||
+      memoryLimitMb < 64 ||
+      memoryLimitMb > MAX_MEMORY_LIMIT_MB
+    ) {
+      throw new Error(`Memory limit must be 64 to ${MAX_MEMORY_LIMIT_MB} MB`);
     }
 
-    .alert {
-      background: #161b22;
-      border: 1px solid #f85149;
-      padding: 12px;
-      margin: 15px 0;
-      color: #f85149;
+    return { tests, timeLimitMs, memoryLimitMb };
+  }
+
+  // The chosen checker and its settings, leaving out blank settings
+  function readChecker(
+    formData: Awaited<ReturnType<Request["formData"]>>,
+  ): CheckerConfig {
+    const type = (formData.get("checker") as string | null) || "exact";
+    const settings: CheckerConfig["settings"] = {};
+    for (const { name } of getChecker(type)?.settings ?? []) {
+      const value = (
+        formData.get(`checker-${type}-${name}`) as string | null
+      )?.trim();
+      if (value) settings[name] = value;
     }
+    return { type, settings };
+  }
 
-    .success {
-      background: #161b22;
-      border: 1px solid #238636;
-      padding: 12px;
-      margin: 15px 0;
-      color: #238636;
+  // Reads a submitted problemForm. When editing, inputs without a newly
+  // uploaded file keep their current one. Throws on invalid input.
+  async function parseProblemForm(
+    formData: Awaited<ReturnType<Request["formData"]>>,
+    user: User,
+    existing?: Problem,
+  ): Promise<ProblemContent> {
+    const title = formData.get("title") as string;
+    const groupIds = readGroupIds(formData);
+    const publishable = getPublishableGroups(user, existing).map((g) => g.id);
+    if (groupIds?.some((id) => !publishable.includes(id))) {
+      throw new Error("You can only publish to groups you belong to");
+    }
+    const descriptions = formData.getAll("description") as string[];
+    const inputBundle = formData.get("inputBundle") as File | null;
+    const releaseAtValue = formData.get("releaseAt") as string | null;
+
+    let releaseAt: number | undefined;
+    if (releaseAtValue) {
+      releaseAt = parseUtcDateTime(releaseAtValue);
+      if (releaseAt === undefined) {
+        throw new Error("Invalid release time");
+      }
     }
 
-    .small-button {
-      padding: 4px 8px;
-      font-size: 11px;
-      margin-left: 8px;
+    if (descriptions.length === 0 || descriptions.length > MAX_PARTS) {
+      throw new Error(`A problem needs 1 to ${MAX_PARTS} parts`);
+    }
+    if (existing && descriptions.length < existing.parts.length) {
+      throw new Error("Parts can't be removed from an existing problem");
+    }
+    const partCount = descriptions.length;
+
+    const tags = splitTags((formData.get("tags") as string | null) ?? "");
+    validateTags(tags);
+    const difficultyValue = formData.get("difficulty");
+    const difficulty = parseDifficulty(difficultyValue);
+    if (difficultyValue && difficulty === undefined) {
+      throw new Error("Invalid difficulty");
     }
-  </style>
-</head>
-<body>
-  ${nav}
-  ${content}
-</body>
-</html>`;
-}
 
-// Load state on startup
-await loadState();
+    const hints = readHints(formData);
+    const hintPenaltyMinutes = readHintPenalty(formData);
 
-// Start server
-Bun.serve({
-  port: PORT,
-  async fetch(req) {
-    const url = new URL(req.url);
-    const user = getSessionUser(req);
+    const checker = readChecker(formData);
+    const numericHints = formData.get("numericHints") === "1";
 
-    // Home page
-    if (url.pathname === "/" && req.method === "GET") {
-      const problems = Array.from(appState.problems.values()).sort(
-        (a, b) => b.createdAt - a.createdAt,
+    if (formData.get("judge") === "1") {
+      const judge = await readJudgeConfig(formData, partCount, existing?.judge);
+      validateChecker(
+        checker,
+        judge.tests.flat().map((test) => test.output),
       );
+      return {
+        title,
+        parts: descriptions.map((description) => ({ description })),
+        inputs: [],
+        checker,
+        numericHints,
+        judge,
+        releaseAt,
+        groupIds,
+        tags: tags.length > 0 ? tags : undefined,
+        difficulty,
+        hints,
+        hintPenaltyMinutes,
+      };
+    }
 
-      let content = "<h1>$ coding problems</h1>";
+    const inputs: ProblemInput[] = [];
+    if (inputBundle && inputBundle.size > 0) {
+      try {
+        inputs.push(...parseInputBundle(await inputBundle.text(), partCount));
+      } catch (e) {
+        throw new Error(`Invalid input bundle: ${(e as Error).message}`);
+      }
+    } else {
+      const answers = formData.getAll("correctAnswer") as string[];
+      const files = formData.getAll("inputFile") as File[];
+
+      for (let i = 0; i * partCount < answers.length; i++) {
+        const correctAnswers = answers.slice(
+          i * partCount,
+          (i + 1) * partCount,
+        );
+        const current = existing?.inputs[i];
+        const inputFile = files[i];
+        const hasFile = inputFile && inputFile.size > 0;
+        const filled = correctAnswers.filter((a) => a.trim()).length;
+
+        // Blank new slots are skipped, existing inputs must stay filled in
+        if (filled === 0 && !hasFile && !current) continue;
+        if (filled < partCount) {
+          throw new Error(`Input #${i + 1} needs an answer for every part`);
+        }
 
-      if (!user) {
-        content +=
-          '<p>> <a href="/auth/github">login with github</a> to create and submit problems</p>';
+        inputs.push({
+          correctAnswers,
+          inputFile: hasFile ? await inputFile.text() : current?.inputFile,
+          inputFileName: hasFile ? inputFile.name : current?.inputFileName,
+        });
       }
+    }
 
-      if (problems.length === 0) {
-        content += "<p>> no problems yet</p>";
-      } else {
-        for (const problem of problems) {
-          const author = appState.users.get(problem.authorId);
-          const solved = user ? hasSolved(user.id, problem.id) : false;
-          const stats = getProblemStats(problem.id);
+    if (inputs.length === 0) {
+      throw new Error("At least one correct answer is required");
+    }
 
-          content += `
-            <div class="problem">
-              <h3>
-                <a href="/problem/${problem.id}">${problem.title}</a>
-                ${solved ? '<span class="badge solved">✓</span>' : ""}
-              </h3>
-              <div class="problem-meta">
-                by @${author?.username || "unknown"} • ${new Date(problem.createdAt).toLocaleDateString()}
-                ${problem.inputFile ? " • has input file" : ""}
-              </div>
-              <div class="stats">
-                ${stats.attempts} ${stats.attempts === 1 ? "attempt" : "attempts"} • ${stats.solves} ${stats.solves === 1 ? "solve" : "solves"}
-              </div>
-            </div>
-          `;
+    validateChecker(
+      checker,
+      inputs.flatMap((input) => input.correctAnswers),
+    );
+
+    return {
+      title,
+      parts: descriptions.map((description) => ({ description })),
+      inputs,
+      checker,
+      numericHints,
+      // Explicitly, so that turning judge mode off removes the tests
+      judge: undefined,
+      releaseAt,
+      groupIds,
+      tags: tags.length > 0 ? tags : undefined,
+      difficulty,
+      hints,
+      hintPenaltyMinutes,
+    };
+  }
+
+  function getNumericHint(
+    problem: Problem,
+    answer: string,
+    correctAnswer: string,
+  ): Submission["hint"] {
+    if (!problem.numericHints || !answer.trim() || !correctAnswer.trim()) {
+      return undefined;
+    }
+    const given = Number(answer.trim());
+    const expected = Number(correctAnswer.trim());
+    if (!Number.isFinite(given) || !Number.isFinite(expected)) return undefined;
+    if (given > expected) return "too high";
+    if (given < expected) return "too low";
+    return undefined;
+  }
+
+  // When the user may next submit an answer for a part, AoC style: a minute
+  // after each of the first three wrong answers to the part, then doubling
+  // with every further one up to an hour. Unjudged programs and judge errors
+  // don't count.
+  function getCooldownEnd(userId: string, problem: Problem, part: number) {
+    let wrong = 0;
+    let lastWrongAt = 0;
+    for (const sub of appState.submissions.forProblemAndUser(
+      problem.id,
+      userId,
+    )) {
+      if (
+        sub.part !== part ||
+        sub.isCorrect ||
+        (sub.code && (!sub.verdict || sub.verdict === "judge error"))
+      ) {
+        continue;
+      }
+      wrong++;
+      lastWrongAt = Math.max(lastWrongAt, sub.submittedAt);
+    }
+    if (wrong === 0) return 0;
+    const cooldown = Math.min(
+      COOLDOWN_MS * 2 ** Math.max(wrong - 3, 0),
+      MAX_COOLDOWN_MS,
+    );
+    return lastWrongAt + cooldown;
+  }
+
+  // The checker's name with any settings, e.g. "number within a tolerance
+  // (absolute tolerance 0.01)"
+  function formatChecker(config: CheckerConfig): string {
+    const checker = getChecker(config.type);
+    const settings = (checker?.settings ?? [])
+      .filter(({ name }) => config.settings[name] !== undefined)
+      .map(({ name, label }) => `${label} ${config.settings[name]}`);
+    const label = checker?.label ?? config.type;
+    return settings.length > 0 ? `${label} (${settings.join(", ")})` : label;
+  }
+
+  // Re-checks every submission for a problem against its current answers and
+  // checker, and returns how many verdicts changed
+  function regradeSubmissions(problem: Problem): number {
+    let changed = 0;
+    for (const sub of appState.submissions.forProblem(problem.id)) {
+      if (sub.code) continue;
+
+      const inputIndex =
+        sub.inputIndex ?? getAssignedInput(sub.userId, problem).index;
+      const correctAnswer =
+        problem.inputs[inputIndex]?.correctAnswers[sub.part];
+      if (correctAnswer === undefined) continue;
+
+      const isCorrect = checkAnswer(problem.checker, sub.answer, correctAnswer);
+      sub.hint = isCorrect
+        ? undefined
+        : getNumericHint(problem, sub.answer, correctAnswer);
+      if (isCorrect !== sub.isCorrect) {
+        sub.isCorrect = isCorrect;
+        changed++;
+      }
+      appState.submissions.set(sub.id, sub);
+    }
+    return changed;
+  }
+
+  // A submitted program with its verdict and the result of each test
+  function judgedSubmission(sub: Submission, isMultiPart: boolean) {
+    const results = sub.testResults ?? [];
+    const failed = results.findIndex((r) => r.verdict !== "accepted");
+    let status: SafeHtml | string = "… queued, reload to see the verdict";
+    if (sub.verdict === "accepted") {
+      status = "✓ accepted";
+    } else if (sub.verdict) {
+      status = `✗ ${sub.verdict}${failed >= 0 ? ` on test ${failed + 1}` : ""}`;
+    }
+
+    return markup`
+    <div class="submission ${sub.verdict && (sub.isCorrect ? "correct" : "incorrect")}">
+      ${status}${isMultiPart && ` • part ${sub.part + 1}`} • ${sub.code && LANGUAGES[sub.code.language]} • ${new Date(sub.submittedAt).toLocaleString()}
+      ${
+        results.length > 0 &&
+        markup`<div class="stats">${results.map((result, i) => [i > 0 && " • ", `test ${i + 1}: ${result.verdict} (${result.timeMs} ms)`])}</div>`
+      }
+      <details>
+        <summary>source</summary>
+        <pre>${sub.code?.source}</pre>
+      </details>
+    </div>
+  `;
+  }
+
+  // A problem page's hints: for the author and admins all of them, with how
+  // many users revealed each, and for everyone else the ones they revealed
+  // and a button for the next
+  function hintsSection(
+    problem: Problem,
+    user: User | null,
+    csrf: SafeHtml | null,
+  ) {
+    const hints = problem.hints ?? [];
+    if (hints.length === 0) return null;
+    const penalty =
+      problem.hintPenaltyMinutes &&
+      markup`<p class="stats">each hint revealed before solving adds ${problem.hintPenaltyMinutes} minutes to the leaderboard time</p>`;
+
+    if (user && (problem.authorId === user.id || isAdmin(user))) {
+      const counts = hints.map(() => 0);
+      for (const reveal of appState.reveals.values()) {
+        if (reveal.problemId === problem.id && reveal.hint < counts.length) {
+          counts[reveal.hint]!++;
         }
       }
+      return markup`
+      <h2 id="hints">hints</h2>
+      ${penalty}
+      ${hints.map(
+        (hint, i) => markup`
+          <h3>hint ${i + 1}</h3>
+          <p class="stats">can be revealed ${formatHintCondition(hint)} • revealed by ${counts[i]} ${counts[i] === 1 ? "user" : "users"}</p>
+          <div class="markdown">${renderMarkdown(hint.text)}</div>
+        `,
+      )}
+    `;
+    }
 
-      return new Response(html(content, user), {
-        headers: { "Content-Type": "text/html" },
-      });
+    if (!user) {
+      return markup`
+      <h2 id="hints">hints</h2>
+      <p>> ${hints.length} ${hints.length === 1 ? "hint" : "hints"} for logged in solvers</p>
+    `;
+    }
+
+    const revealed = getRevealedHints(user.id, problem);
+    const next = hints[revealed.length];
+    const lock =
+      next && getHintLock(next, getWrongAnswerCount(user.id, problem));
+    return markup`
+    <h2 id="hints">hints</h2>
+    ${penalty}
+    ${revealed.map(
+      (_, i) => markup`
+        <h3>hint ${i + 1}</h3>
+        <div class="markdown">${renderMarkdown(hints[i]!.text)}</div>
+      `,
+    )}
+    ${
+      next &&
+      (lock !== null
+        ? markup`<p>> hint ${revealed.length + 1} of ${hints.length} can be revealed ${lock}</p>`
+        : isReleased(problem) &&
+          markup`
+            <form action="/problem/${problem.id}/hints" method="post">
+              ${csrf}
+              <input type="hidden" name="hint" value="${revealed.length}">
+              <button type="submit">reveal hint ${revealed.length + 1} of ${hints.length}</button>
+            </form>
+          `)
+    }
+  `;
+  }
+
+  // Solvers, the author and admins can read and join the discussion
+  function canDiscuss(user: User | null, problem: Problem): boolean {
+    return (
+      !!user &&
+      (problem.authorId === user.id ||
+        isAdmin(user) ||
+        getSolvedPartCount(user.id, problem) === problem.parts.length)
+    );
+  }
+
+  function getProblemPosts(problemId: string): Post[] {
+    return Array.from(appState.posts.values())
+      .filter((post) => post.problemId === problemId)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  function readPostBody(
+    formData: Awaited<ReturnType<Request["formData"]>>,
+  ): string {
+    const body = ((formData.get("body") as string | null) ?? "").trim();
+    if (!body) throw new Error("The post is empty");
+    if (body.length > MAX_POST_LENGTH) {
+      throw new Error(`Posts are limited to ${MAX_POST_LENGTH} characters`);
     }
+    return body;
+  }
 
-    // GitHub OAuth
-    if (url.pathname === "/auth/github" && req.method === "GET") {
-      const returnTo = url.searchParams.get("return") || "/";
-      const redirectUri = `${BASE_URL}/auth/github/callback`;
-      const state = encodeURIComponent(returnTo);
-      const githubUrl = `https://github.com/login/oauth/authorize?client_id=${GITHUB_CLIENT_ID}&redirect_uri=${redirectUri}&scope=read:user&state=${state}`;
-      return Response.redirect(githubUrl);
+  function postForm(action: string, csrf: SafeHtml | null, body = "") {
+    return markup`
+    <form action="${action}" method="post">
+      ${csrf}
+      <textarea name="body" required maxlength="${MAX_POST_LENGTH}" placeholder="Markdown. Share code in fenced blocks tagged with the language, like \`\`\`python">${body}</textarea>
+      <button type="submit">${body ? "save" : "post"}</button>
+    </form>
+  `;
+  }
+
+  // The discussion at the bottom of a problem page, or how many posts it
+  // has for those who haven't solved the problem yet
+  function discussionSection(
+    problem: Problem,
+    user: User | null,
+    csrf: SafeHtml | null,
+  ) {
+    const posts = getProblemPosts(problem.id);
+    if (!canDiscuss(user, problem)) {
+      return markup`
+      <h2>discussion</h2>
+      <p>> ${posts.length > 0 ? `${posts.length} ${posts.length === 1 ? "post" : "posts"} about solutions` : "a place to talk about solutions"}, unlocked once you solve the problem</p>
+    `;
     }
 
-    // GitHub OAuth callback
-    if (url.pathname === "/auth/github/callback" && req.method === "GET") {
-      const code = url.searchParams.get("code");
-      const state = url.searchParams.get("state");
-      const returnTo = state ? decodeURIComponent(state) : "/";
+    return markup`
+    <h2>discussion</h2>
+    <p class="stats">only visible to those who solved the problem, so spoilers are fine</p>
+    ${posts.length === 0 && markup`<p>> no posts yet</p>`}
+    ${posts.map(
+      (post) => markup`
+        <div class="problem" id="post-${post.id}">
+          <div class="problem-meta">
+            ${userLink(appState.users.get(post.authorId))} • ${new Date(post.createdAt).toLocaleString()}${post.editedAt && " • edited"}
+            ${
+              post.authorId === user!.id &&
+              markup`<a href="/post/${post.id}/edit" style="margin-left: 15px;">edit</a>`
+            }
+            ${
+              (post.authorId === user!.id || isAdmin(user)) &&
+              markup`
+                <form action="/post/${post.id}/delete" method="post" style="display: inline; margin-left: 15px;">
+                  ${csrf}
+                  <button type="submit" class="small-button" onclick="return confirm('Delete this post?')">delete</button>
+                </form>
+              `
+            }
+          </div>
+          <div class="markdown">${renderMarkdown(post.body)}</div>
+        </div>
+      `,
+    )}
+    ${postForm(`/problem/${problem.id}/posts`, csrf)}
+  `;
+  }
+
+  // Programs waiting to be judged, run one at a time in submission order
+  const judgeQueue: string[] = [];
+  let judging = false;
+
+  function queueJudging(submissionId: string) {
+    judgeQueue.push(submissionId);
+    if (!judging) void runJudgeQueue();
+  }
 
-      if (!code) {
-        return new Response("Missing code", { status: 400 });
+  async function runJudgeQueue() {
+    judging = true;
+    while (judgeQueue.length > 0) {
+      const sub = appState.submissions.get(judgeQueue.shift()!);
+      const problem = sub && appState.problems.get(sub.problemId);
+      // Deleted while waiting
+      if (!sub?.code || !problem?.judge) continue;
+
+      try {
+        sub.testResults = await judge(
+          sub.code,
+          problem.judge.tests[sub.part] ?? [],
+          problem.judge,
+          problem.checker,
+        );
+        sub.verdict = overallVerdict(sub.testResults);
+      } catch (e) {
+        console.error(`Failed to judge submission ${sub.id}:`, e);
+        sub.testResults = [];
+        sub.verdict = "judge error";
       }
+      sub.isCorrect = sub.verdict === "accepted";
+      appState.submissions.set(sub.id, sub);
+      notifyFirstSolve(sub);
+      await saveState();
+    }
+    judging = false;
+  }
 
-      // Exchange code for access token
-      const tokenResponse = await fetch(
-        "https://github.com/login/oauth/access_token",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Accept: "application/json",
-          },
-          body: JSON.stringify({
-            client_id: GITHUB_CLIENT_ID,
-            client_secret: GITHUB_CLIENT_SECRET,
-            code,
-          }),
-        },
+  // Tells webhooks about new problems that have become public, at creation
+  // or later on release
+  function announceProblems() {
+    for (const problem of appState.problems.values()) {
+      if (problem.announced !== false) continue;
+      if (!isReleased(problem) || !isInAudience(null, problem)) continue;
+      problem.announced = true;
+      appState.problems.set(problem.id, problem);
+      fireWebhooks("problem.created", problem);
+    }
+  }
+
+  // Tells webhooks when a correct answer makes its solver the first to solve
+  // every part of a public problem. The author's own answers don't count,
+  // and nothing is sent during a contest's scoreboard freeze.
+  function notifyFirstSolve(sub: Submission) {
+    const problem = appState.problems.get(sub.problemId);
+    if (!problem || !sub.isCorrect || sub.userId === problem.authorId) return;
+    const lastPart = problem.parts.length - 1;
+    if (sub.part !== lastPart || !isInAudience(null, problem)) return;
+
+    const authorSolved = appState.submissions.hasSolved(
+      problem.authorId,
+      problem.id,
+      lastPart,
+    );
+    const solvers =
+      appState.submissions.solverCount(problem.id, lastPart) -
+      (authorSolved ? 1 : 0);
+    if (solvers !== 1) return;
+
+    const contest = getProblemContest(problem.id);
+    const now = Date.now();
+    if (
+      contest &&
+      now >= contest.endAt - contest.freezeMinutes * 60 * 1000 &&
+      now < contest.endAt
+    ) {
+      return;
+    }
+    fireWebhooks("problem.solved", problem, appState.users.get(sub.userId));
+  }
+
+  // Sends an event to every webhook that wants it, in the background
+  function fireWebhooks(
+    type: WebhookEventType,
+    problem: Problem,
+    solver?: User,
+  ) {
+    const event: WebhookEvent = {
+      type,
+      problem: {
+        id: problem.id,
+        title: problem.title,
+        url: `${BASE_URL}/problem/${problem.id}`,
+        author: appState.users.get(problem.authorId)?.username ?? "unknown",
+      },
+      user: solver && {
+        username: solver.username,
+        url: `${BASE_URL}/user/${encodeURIComponent(solver.username)}`,
+      },
+      at: new Date().toISOString(),
+    };
+    for (const webhook of appState.webhooks.values()) {
+      if (webhook.events.includes(type)) void deliverWebhook(webhook, event);
+    }
+  }
+
+  // Posts an event to a webhook, retrying after network errors, 429s and
+  // 5xx responses, and logs every attempt
+  async function deliverWebhook(webhook: Webhook, event: WebhookEvent) {
+    const payload = formatPayload(event, webhook.format);
+    const delivery: WebhookDelivery = {
+      id: generateId(),
+      webhookId: webhook.id,
+      url: webhook.url,
+      event: event.type,
+      problemId: event.problem.id,
+      attempts: 0,
+      ok: false,
+      createdAt: Date.now(),
+      lastAttemptAt: Date.now(),
+    };
+
+    // Deleting the webhook or stopping the server cancels the retries
+    while (!stopped && appState.webhooks.has(webhook.id)) {
+      const result = await sendWebhook(
+        webhook.url,
+        payload,
+        WEBHOOK_TIMEOUT_MS,
+      );
+      const delay = result.retry
+        ? WEBHOOK_RETRY_DELAYS_MS[delivery.attempts]
+        : undefined;
+      delivery.attempts++;
+      delivery.ok = result.ok;
+      delivery.status = result.status;
+      delivery.error = result.error;
+      delivery.lastAttemptAt = Date.now();
+      delivery.nextAttemptAt =
+        delay === undefined ? undefined : Date.now() + delay;
+      appState.deliveries.set(delivery.id, delivery);
+      pruneDeliveries();
+      if (delay === undefined) break;
+      await Bun.sleep(delay);
+    }
+  }
+
+  function pruneDeliveries() {
+    const oldest = Array.from(appState.deliveries.values())
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(MAX_DELIVERIES);
+    for (const delivery of oldest) appState.deliveries.delete(delivery.id);
+  }
+
+  // Values from <input type="datetime-local">, which carry no time zone
+  function parseUtcDateTime(value: string): number | undefined {
+    const time = Date.parse(`${value}Z`);
+    return Number.isNaN(time) ? undefined : time;
+  }
+
+  function formatDuration(ms: number) {
+    const totalSeconds = Math.floor(ms / 1000);
+    const days = Math.floor(totalSeconds / 86400);
+    const time = [
+      Math.floor((totalSeconds % 86400) / 3600),
+      Math.floor((totalSeconds % 3600) / 60),
+      totalSeconds % 60,
+    ]
+      .map((n) => String(n).padStart(2, "0"))
+      .join(":");
+    return days > 0 ? `${days}d ${time}` : time;
+  }
+
+  // Each solved part earns points by solve order: with N users (or group
+  // members), the first solver gets N points, the second N - 1, and so on
+  // down to 1
+  function getUserScores(group?: Group) {
+    const userIds = group ? group.memberIds : Array.from(appState.users.keys());
+    const scores = new Map<
+      string,
+      { points: number; solves: number; partsSolved: number }
+    >();
+    for (const id of userIds) {
+      scores.set(id, { points: 0, solves: 0, partsSolved: 0 });
+    }
+
+    // A group's league counts the problems published to it; the site-wide
+    // one counts public problems
+    for (const problem of appState.problems.values()) {
+      if (
+        group ? !problem.groupIds?.includes(group.id) : problem.groupIds?.length
+      ) {
+        continue;
+      }
+      for (let part = 0; part < problem.parts.length; part++) {
+        for (const entry of getProblemLeaderboard(problem, part)) {
+          const score = scores.get(entry.userId);
+          if (!score) continue;
+          score.points += Math.max(userIds.length + 1 - entry.rank, 1);
+          score.partsSolved++;
+          if (part === problem.parts.length - 1) score.solves++;
+        }
+      }
+    }
+
+    return scores;
+  }
+
+  function findUserByUsername(username: string): User | undefined {
+    return Array.from(appState.users.values()).find(
+      (u) => u.username === username,
+    );
+  }
+
+  function findUserByIdentity(provider: string, id: string): User | undefined {
+    return Array.from(appState.users.values()).find((u) =>
+      u.identities.some((i) => i.provider === provider && i.id === id),
+    );
+  }
+
+  // Usernames are unique across providers, so a taken one gets a number
+  function getUnusedUsername(name: string): string {
+    let username = name;
+    for (let i = 2; findUserByUsername(username); i++) {
+      username = `${name}-${i}`;
+    }
+    return username;
+  }
+
+  function getProvider(name: string): OAuthProvider | undefined {
+    return OAUTH_PROVIDERS.find((p) => p.name === name);
+  }
+
+  function userLink(user: User | undefined) {
+    return user
+      ? markup`<a href="/user/${encodeURIComponent(user.username)}">@${user.username}</a>`
+      : "@unknown";
+  }
+
+  // Picks the input a user works on for a problem. The choice is a hash of the
+  // problem and user ids, recorded on first use so it stays put even if the
+  // author later adds more inputs.
+  function getAssignedInput(userId: string, problem: Problem) {
+    const key = `${problem.id}:${userId}`;
+    let assignment = appState.assignments.get(key);
+
+    if (!assignment || assignment.inputIndex >= problem.inputs.length) {
+      const hash = createHash("sha256").update(key).digest();
+      assignment = {
+        problemId: problem.id,
+        userId,
+        inputIndex: hash.readUInt32BE(0) % problem.inputs.length,
+        assignedAt: Date.now(),
+      };
+      appState.assignments.set(key, assignment);
+    }
+
+    return {
+      index: assignment.inputIndex,
+      input: problem.inputs[assignment.inputIndex]!,
+    };
+  }
+
+  // Input bundles are JSON arrays of { name?, input?, answer } objects, or
+  // { name?, input?, answers: [...] } with one answer per part
+  function parseInputBundle(text: string, partCount: number): ProblemInput[] {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error("bundle is not valid JSON");
+    }
+
+    if (!Array.isArray(data) || data.length === 0) {
+      throw new Error("bundle must be a non-empty array");
+    }
+
+    return data.map((entry, i) => {
+      const answers: unknown[] = Array.isArray(entry?.answers)
+        ? entry.answers
+        : [entry?.answer];
+      if (answers.length !== partCount) {
+        throw new Error(
+          `entry ${i + 1} needs ${partCount} ${partCount === 1 ? "answer" : "answers"}, one per part`,
+        );
+      }
+      for (const answer of answers) {
+        if (typeof answer !== "string" || !answer.trim()) {
+          throw new Error(`entry ${i + 1} is missing an answer`);
+        }
+      }
+      if (entry.input !== undefined && typeof entry.input !== "string") {
+        throw new Error(`entry ${i + 1} has a non-string input`);
+      }
+      return {
+        inputFile: entry.input || undefined,
+        inputFileName:
+          entry.input && typeof entry.name === "string"
+            ? entry.name
+            : undefined,
+        correctAnswers: answers as string[],
+      };
+    });
+  }
+
+  // A problem as it goes into a problem bundle. Groups are left out, since
+  // they only exist on this instance.
+  function bundleProblem(problem: Problem): BundledProblem {
+    const isoTime = (time: number | undefined) =>
+      time === undefined ? undefined : new Date(time).toISOString();
+    return {
+      id: problem.id,
+      title: problem.title,
+      author: appState.users.get(problem.authorId)?.username ?? "unknown",
+      createdAt: isoTime(problem.createdAt)!,
+      parts: problem.parts,
+      inputs: problem.inputs.map((input) => ({
+        name: input.inputFileName,
+        input: input.inputFile,
+        answers: input.correctAnswers,
+      })),
+      checker: problem.checker,
+      numericHints: problem.numericHints,
+      judge: problem.judge,
+      releaseAt: isoTime(problem.releaseAt),
+      tags: problem.tags,
+      difficulty: problem.difficulty,
+      hints: problem.hints?.map((hint) => ({
+        text: hint.text,
+        afterWrongAnswers: hint.afterWrongAnswers,
+        availableAt: isoTime(hint.availableAt),
+      })),
+      hintPenaltyMinutes: problem.hintPenaltyMinutes,
+    };
+  }
+
+  // The content of a bundled problem, checked against the same limits as
+  // the problem form. Throws on invalid problems.
+  function readBundledContent(bundled: BundledProblem): ProblemContent {
+    const title = bundled.title.trim();
+    if (!title) throw new Error("A problem needs a title");
+    const partCount = bundled.parts.length;
+    if (partCount > MAX_PARTS) {
+      throw new Error(`A problem needs 1 to ${MAX_PARTS} parts`);
+    }
+
+    const tags = bundled.tags?.map((tag) => tag.toLowerCase()) ?? [];
+    validateTags(tags);
+    if (
+      bundled.difficulty !== undefined &&
+      parseDifficulty(bundled.difficulty) === undefined
+    ) {
+      throw new Error("Invalid difficulty");
+    }
+
+    const hints = bundled.hints?.map((hint, i) => {
+      if (!hint.text.trim()) throw new Error(`Hint ${i + 1} is empty`);
+      const wrong = hint.afterWrongAnswers;
+      if (wrong !== undefined && (wrong < 1 || wrong > 1000)) {
+        throw new Error(
+          `Hint ${i + 1} needs a whole number of wrong answers from 1 to 1000`,
+        );
+      }
+      return {
+        text: hint.text.trim(),
+        afterWrongAnswers: wrong,
+        availableAt: hint.availableAt
+          ? Date.parse(hint.availableAt)
+          : undefined,
+      };
+    });
+    if (hints && hints.length > MAX_HINTS) {
+      throw new Error(`A problem can have at most ${MAX_HINTS} hints`);
+    }
+    const penalty = bundled.hintPenaltyMinutes ?? 0;
+    if (penalty < 0 || penalty > MAX_HINT_PENALTY_MINUTES) {
+      throw new Error(
+        `The hint penalty must be 0 to ${MAX_HINT_PENALTY_MINUTES} minutes`,
       );
+    }
+
+    const judge = bundled.judge;
+    if (judge) {
+      if (judge.tests.length !== partCount || bundled.inputs.length > 0) {
+        throw new Error("Judge problems need test cases for every part");
+      }
+      if (judge.tests.some((t) => t.length === 0 || t.length > MAX_TESTS)) {
+        throw new Error(`Each part needs 1 to ${MAX_TESTS} test cases`);
+      }
+      if (judge.timeLimitMs < 100 || judge.timeLimitMs > MAX_TIME_LIMIT_MS) {
+        throw new Error(`Time limit must be 100 to ${MAX_TIME_LIMIT_MS} ms`);
+      }
+      if (
+        judge.memoryLimitMb < 64 ||
+        judge.memoryLimitMb > MAX_MEMORY_LIMIT_MB
+      ) {
+        throw new Error(`Memory limit must be 64 to ${MAX_MEMORY_LIMIT_MB} MB`);
+      }
+    } else if (bundled.inputs.length === 0) {
+      throw new Error("At least one correct answer is required");
+    }
+    if (bundled.inputs.some((input) => input.answers.some((a) => !a.trim()))) {
+      throw new Error("Every input needs an answer for every part");
+    }
+    validateChecker(
+      bundled.checker,
+      judge
+        ? judge.tests.flat().map((test) => test.output)
+        : bundled.inputs.flatMap((input) => input.answers),
+    );
+
+    return {
+      title,
+      parts: bundled.parts,
+      inputs: bundled.inputs.map((input) => ({
+        inputFile: input.input || undefined,
+        inputFileName: input.input ? input.name : undefined,
+        correctAnswers: input.answers,
+      })),
+      checker: bundled.checker,
+      numericHints: bundled.numericHints,
+      judge,
+      releaseAt: bundled.releaseAt ? Date.parse(bundled.releaseAt) : undefined,
+      tags: tags.length > 0 ? Array.from(new Set(tags)) : undefined,
+      difficulty: bundled.difficulty,
+      hints: hints && hints.length > 0 ? hints : undefined,
+      hintPenaltyMinutes: penalty || undefined,
+    };
+  }
+
+  // Adds the problems of a bundle under new ids, skipping any that are
+  // already among `existing` or earlier in the bundle. Every problem is
+  // checked before anything is added, so a bad bundle adds nothing.
+  function importProblems(
+    bundled: BundledProblem[],
+    existing: Problem[],
+    getAuthor: (problem: BundledProblem) => User,
+  ) {
+    const contents = bundled.map((problem, i) => {
+      try {
+        return readBundledContent(problem);
+      } catch (e) {
+        throw new Error(`Problem ${i + 1}: ${(e as Error).message}`);
+      }
+    });
+
+    const known = new Map(
+      existing.map((p) => [problemFingerprint(bundleProblem(p)), p]),
+    );
+    const imported: { from: BundledProblem; problem: Problem }[] = [];
+    const duplicates: { from: BundledProblem; problem: Problem }[] = [];
+    bundled.forEach((from, i) => {
+      const fingerprint = problemFingerprint(from);
+      const duplicate = known.get(fingerprint);
+      if (duplicate) {
+        duplicates.push({ from, problem: duplicate });
+        return;
+      }
+      const problem: Problem = {
+        id: generateId(),
+        ...contents[i]!,
+        authorId: getAuthor(from).id,
+        createdAt: Date.now(),
+        announced: false,
+      };
+      appState.problems.set(problem.id, problem);
+      known.set(fingerprint, problem);
+      imported.push({ from, problem });
+    });
+    announceProblems();
+    return { imported, duplicates };
+  }
+
+  function importResults(result: ReturnType<typeof importProblems>) {
+    const { imported, duplicates } = result;
+    return markup`
+    <h1>$ import</h1>
+    <p>> imported ${imported.length} ${imported.length === 1 ? "problem" : "problems"}</p>
+    ${imported.map(
+      ({ from, problem }) => markup`
+        <div class="submission correct">
+          ✓ <a href="/problem/${problem.id}">${problem.title}</a> • by ${userLink(appState.users.get(problem.authorId))} • was <code>${from.id}</code>
+        </div>
+      `,
+    )}
+    ${
+      duplicates.length > 0 &&
+      markup`
+        <h2>skipped</h2>
+        ${duplicates.map(
+          ({ from, problem }) => markup`
+            <div class="submission">
+              ${from.title} • already here as <a href="/problem/${problem.id}">${problem.title}</a>
+            </div>
+          `,
+        )}
+      `
+    }
+  `;
+  }
+
+  // Replaces everything but sessions with the contents of a backup and
+  // upgrades older records. Unlike on startup, programs without a verdict
+  // aren't queued, as they may be waiting in the queue already; any left
+  // over are judged on the next start.
+  async function restoreBackup(data: StoredData) {
+    for (const name of BACKUP_COLLECTIONS) {
+      const map: StoredMap<object> = appState[name];
+      for (const key of Array.from(map.keys())) map.delete(key);
+      for (const [key, record] of data[name]) map.set(key, record);
+    }
+    upgradeRecords();
+    await saveState();
+  }
+
+  function downloadResponse(body: string, filename: string) {
+    return new Response(body, {
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  }
+
+  function parseContestForm(
+    formData: Awaited<ReturnType<Request["formData"]>>,
+    user: User,
+  ): Omit<Contest, "id" | "authorId" | "createdAt"> {
+    const title = String(formData.get("title") || "").trim();
+    if (!title || title.length > 100) {
+      throw new Error("Title must be 1-100 characters");
+    }
+
+    const startAt = parseUtcDateTime(String(formData.get("startAt") || ""));
+    if (startAt === undefined) {
+      throw new Error("Invalid start time");
+    }
+    const minutes = (name: string, label: string, min: number, max: number) => {
+      const value = Number(formData.get(name));
+      if (!Number.isInteger(value) || value < min || value > max) {
+        throw new Error(`The ${label} must be ${min} to ${max} minutes`);
+      }
+      return value;
+    };
+    const duration = minutes(
+      "durationMinutes",
+      "duration",
+      1,
+      MAX_CONTEST_MINUTES,
+    );
+    const penaltyMinutes = minutes("penaltyMinutes", "penalty", 0, 24 * 60);
+    const freezeMinutes = minutes("freezeMinutes", "freeze", 0, duration);
+
+    const problemIds = Array.from(
+      new Set(
+        String(formData.get("problemIds") || "")
+          .split(/\s+/)
+          .filter(Boolean),
+      ),
+    );
+    if (problemIds.length === 0 || problemIds.length > MAX_CONTEST_PROBLEMS) {
+      throw new Error(
+        `A contest needs 1 to ${MAX_CONTEST_PROBLEMS} problems, one id per line`,
+      );
+    }
+    for (const id of problemIds) {
+      const problem = appState.problems.get(id);
+      if (!problem || (problem.authorId !== user.id && !isAdmin(user))) {
+        throw new Error(`${id} is not one of your problems`);
+      }
+      const contest = getProblemContest(id);
+      if (contest) {
+        throw new Error(`${problem.title} is already in ${contest.title}`);
+      }
+    }
+
+    return {
+      title,
+      problemIds,
+      startAt,
+      endAt: startAt + duration * 60 * 1000,
+      penaltyMinutes,
+      freezeMinutes,
+    };
+  }
+
+  function formatContestStatus(contest: Contest) {
+    const now = Date.now();
+    if (now < contest.startAt) {
+      return `starts in ${formatDuration(contest.startAt - now)}`;
+    }
+    if (now < contest.endAt) {
+      return `running • ${formatDuration(contest.endAt - now)} left`;
+    }
+    return "ended";
+  }
+
+  // The scoreboard as the viewer may see it. The author's own answers don't
+  // count, and neither do programs still waiting for a verdict.
+  function getContestScoreboard(contest: Contest, viewer: User | null) {
+    const now = Date.now();
+    const frozenAt = contest.endAt - contest.freezeMinutes * 60 * 1000;
+    const isFrozen =
+      contest.freezeMinutes > 0 &&
+      now >= frozenAt &&
+      now < contest.endAt &&
+      !(viewer && (viewer.id === contest.authorId || isAdmin(viewer)));
+
+    const problems = contest.problemIds
+      .map((id) => appState.problems.get(id))
+      .filter((problem): problem is Problem => !!problem);
+    const submissions = problems
+      .flatMap((problem) => appState.submissions.forProblem(problem.id))
+      .filter(
+        (sub) =>
+          sub.userId !== contest.authorId &&
+          !(sub.code && (!sub.verdict || sub.verdict === "judge error")),
+      );
+
+    const rows = scoreContest(
+      {
+        startAt: contest.startAt,
+        endAt: contest.endAt,
+        problems: problems.map((p) => ({ id: p.id, parts: p.parts.length })),
+        penaltyMinutes: contest.penaltyMinutes,
+      },
+      submissions,
+      isFrozen ? frozenAt : undefined,
+    );
+    return { problems, rows, isFrozen };
+  }
+
+  // A scoreboard cell: "+" and the solve time, with the wrong answers before
+  // it, or "-" and the wrong answers so far, then answers hidden by a freeze
+  function formatContestResult(
+    result: ScoreboardRow["results"][number],
+    parts: number,
+  ) {
+    const cell: string[] = [];
+    if (result.solvedAt !== undefined) {
+      const minutes = Math.floor(result.solvedAt / 60000);
+      cell.push(
+        `+${result.wrongAttempts || ""} ${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, "0")}`,
+      );
+    } else {
+      if (result.wrongAttempts > 0) cell.push(`-${result.wrongAttempts}`);
+      if (parts > 1 && result.solvedParts > 0) {
+        cell.push(`${result.solvedParts}/${parts}`);
+      }
+    }
+    if (result.pendingAttempts > 0) cell.push(`?${result.pendingAttempts}`);
+    return cell.join(" ");
+  }
+
+  function contestPage(
+    contest: Contest,
+    user: User | null,
+    csrf: SafeHtml | null,
+  ) {
+    const now = Date.now();
+    const isOrganizer =
+      !!user && (user.id === contest.authorId || isAdmin(user));
+    const { problems, rows, isFrozen } = getContestScoreboard(contest, user);
+    const letter = (i: number) => String.fromCharCode(65 + i);
+
+    return markup`
+    <h1>$ contest: ${contest.title}</h1>
+    <div class="problem-meta">
+      by ${userLink(appState.users.get(contest.authorId))} •
+      ${new Date(contest.startAt).toUTCString()} to ${new Date(contest.endAt).toUTCString()}
+      ${
+        isOrganizer &&
+        markup`
+          <form action="/contest/${contest.id}/delete" method="post" style="display: inline; margin-left: 15px;">
+            ${csrf}
+            <button type="submit" class="small-button" onclick="return confirm('Delete this contest? Its problems are kept.')">delete contest</button>
+          </form>
+        `
+      }
+    </div>
+    <p class="stats">
+      ${formatContestStatus(contest)} • ${contest.penaltyMinutes} penalty minutes per wrong answer${contest.freezeMinutes > 0 && ` • scoreboard freezes ${contest.freezeMinutes} minutes before the end`}
+    </p>
+
+    <h2>problems</h2>
+    ${
+      now < contest.startAt && !isOrganizer
+        ? markup`<p>> the ${problems.length} problems unlock when the contest starts</p>`
+        : markup`
+          <table>
+            ${problems.map(
+              (problem, i) => markup`
+                <tr>
+                  <td>${letter(i)}</td>
+                  <td>${canView(user, problem) ? markup`<a href="/problem/${problem.id}">${problem.title}</a>` : "(not in your groups)"}</td>
+                  <td class="stats">${appState.submissions.solverCount(problem.id, problem.parts.length - 1)} solved</td>
+                </tr>
+              `,
+            )}
+          </table>
+        `
+    }
+    ${now >= contest.endAt && markup`<p class="stats">the contest is over: answers are still checked but no longer change the scoreboard</p>`}
+
+    <h2>scoreboard</h2>
+    ${
+      isFrozen &&
+      markup`<p class="stats">frozen for the last ${contest.freezeMinutes} minutes: answers since then show as ?, and are revealed when the contest ends</p>`
+    }
+    ${
+      rows.length === 0
+        ? markup`<p class="stats">no answers yet</p>`
+        : markup`
+          <table>
+            <tr>
+              <th>#</th><th>user</th><th>solved</th><th>penalty</th>
+              ${problems.map((_, i) => markup`<th>${letter(i)}</th>`)}
+            </tr>
+            ${rows.map(
+              (row) => markup`
+                <tr>
+                  <td>${row.rank}</td>
+                  <td>${userLink(appState.users.get(row.userId))}</td>
+                  <td>${row.solved}</td>
+                  <td>${row.penaltyMinutes}</td>
+                  ${row.results.map(
+                    (result, i) =>
+                      markup`<td>${formatContestResult(result, problems[i]!.parts.length)}</td>`,
+                  )}
+                </tr>
+              `,
+            )}
+          </table>
+          <p class="stats">+ solved, with the wrong answers before it and the time from the start • - wrong answers so far • penalty is the solve times in minutes plus ${contest.penaltyMinutes} per wrong answer before a solve</p>
+        `
+    }
+  `;
+  }
+
+  function contestForm(user: User, csrf: SafeHtml) {
+    const problems = Array.from(appState.problems.values())
+      .filter((p) => p.authorId === user.id && !getProblemContest(p.id))
+      .sort((a, b) => b.createdAt - a.createdAt);
+
+    return markup`
+    <form action="/new-contest" method="post">
+      ${csrf}
+      <label>title:</label>
+      <input type="text" name="title" maxlength="100" required autofocus>
+      <label>start (UTC):</label>
+      <input type="datetime-local" name="startAt" required>
+      <label>duration, minutes:</label>
+      <input type="text" name="durationMinutes" value="180" required>
+      <label>penalty per wrong answer, minutes:</label>
+      <input type="text" name="penaltyMinutes" value="${DEFAULT_PENALTY_MINUTES}" required>
+      <label>freeze the scoreboard for the last, minutes (0 for no freeze):</label>
+      <input type="text" name="freezeMinutes" value="0" required>
+      <label>problem ids, one per line, in order:</label>
+      <textarea name="problemIds" required></textarea>
+      <p class="stats">
+        the problems are hidden until the contest starts. your problems that aren't in a contest:
+        ${problems.length === 0 ? "none yet" : problems.map((p) => markup`<br><code>${p.id}</code> ${p.title}`)}
+      </p>
+      <button type="submit">create contest</button>
+    </form>
+  `;
+  }
+
+  function isAdmin(user: User | null): boolean {
+    return (
+      !!user &&
+      user.identities.some((i) => ADMIN_USERS.has(`${i.provider}:${i.id}`))
+    );
+  }
+
+  // The settings page, with a just-created token shown once
+  function settingsPage(user: User, csrf: SafeHtml, newToken?: string) {
+    const tokens = Array.from(appState.tokens.values())
+      .filter((t) => t.userId === user.id)
+      .sort((a, b) => b.createdAt - a.createdAt);
+
+    const unlinked = OAUTH_PROVIDERS.filter(
+      (provider) => !user.identities.some((i) => i.provider === provider.name),
+    );
+
+    return markup`
+    <h1>$ settings</h1>
+
+    <h2>linked accounts</h2>
+    <p>> you can log in with any of these</p>
+    <table>
+      ${user.identities.map(
+        (identity) => markup`
+          <tr>
+            <td>${getProvider(identity.provider)?.label ?? identity.provider}</td>
+            <td>${identity.username}</td>
+            <td class="stats" title="for ADMIN_USERS">${identity.provider}:${identity.id}</td>
+            <td>
+              ${
+                user.identities.length > 1 &&
+                markup`
+                  <form action="/settings/unlink" method="post" style="display: inline;">
+                    ${csrf}
+                    <input type="hidden" name="provider" value="${identity.provider}">
+                    <input type="hidden" name="id" value="${identity.id}">
+                    <button type="submit" class="small-button">unlink</button>
+                  </form>
+                `
+              }
+            </td>
+          </tr>
+        `,
+      )}
+    </table>
+    ${
+      unlinked.length > 0 &&
+      markup`
+        <p class="stats">
+          link another account:
+          ${unlinked.map(
+            (provider, i) =>
+              markup`${i > 0 && " • "}<a href="/auth/${provider.name}?link=1&return=/settings">${provider.label}</a>`,
+          )}
+        </p>
+      `
+    }
+
+    <h2>personal access tokens</h2>
+    <p>> tokens let scripts use the JSON API at <code>/api/v1</code> as you. send one in an <code>Authorization: Bearer &lt;token&gt;</code> header.</p>
+    ${
+      newToken &&
+      markup`
+        <div class="success">
+          new token: <code>${newToken}</code><br>
+          copy it now, it won't be shown again
+        </div>
+      `
+    }
+    ${
+      tokens.length === 0
+        ? markup`<p class="stats">no tokens yet</p>`
+        : markup`
+          <table>
+            <tr><th>name</th><th>created</th><th>last used</th><th></th></tr>
+            ${tokens.map(
+              (token) => markup`
+                <tr>
+                  <td>${token.name}</td>
+                  <td>${new Date(token.createdAt).toUTCString()}</td>
+                  <td>${token.lastUsedAt ? new Date(token.lastUsedAt).toUTCString() : "never"}</td>
+                  <td>
+                    <form action="/settings/tokens/${token.id}/revoke" method="post" style="display: inline;">
+                      ${csrf}
+                      <button type="submit" class="small-button">revoke</button>
+                    </form>
+                  </td>
+                </tr>
+              `,
+            )}
+          </table>
+        `
+    }
+    <form action="/settings/tokens" method="post">
+      ${csrf}
+      <label>new token name</label>
+      <input type="text" name="name" placeholder="e.g. laptop script" maxlength="100" required>
+      <button type="submit">create token</button>
+    </form>
+  `;
+  }
+
+  // The user's groups and a form to start one
+  function groupsPage(user: User, csrf: SafeHtml) {
+    const groups = getUserGroups(user);
+
+    return markup`
+    <h1>$ groups</h1>
+    <p>> problems published to a group are only shown to its members, and each group has its own leaderboard. join one with an invite link from its owner.</p>
+    ${
+      groups.length === 0
+        ? markup`<p class="stats">you're not in any groups yet</p>`
+        : groups.map(
+            (group) => markup`
+              <div class="problem">
+                <h3><a href="/group/${group.id}">${group.name}</a></h3>
+                <div class="stats">${group.memberIds.length} ${group.memberIds.length === 1 ? "member" : "members"}${group.ownerId === user.id && " • owner"}</div>
+              </div>
+            `,
+          )
+    }
+    <h2>new group</h2>
+    <form action="/groups" method="post">
+      ${csrf}
+      <label>name</label>
+      <input type="text" name="name" placeholder="e.g. office league" maxlength="100" required>
+      <button type="submit">create group</button>
+    </form>
+  `;
+  }
+
+  function groupPage(group: Group, user: User, csrf: SafeHtml) {
+    const isOwner = group.ownerId === user.id || isAdmin(user);
+    const members = group.memberIds
+      .map((id) => appState.users.get(id))
+      .filter((member): member is User => !!member);
+    const problems = Array.from(appState.problems.values())
+      .filter(
+        (problem) =>
+          problem.groupIds?.includes(group.id) && canView(user, problem),
+      )
+      .sort((a, b) => getProblemStartTime(b) - getProblemStartTime(a));
+
+    return markup`
+    <h1>$ group: ${group.name}</h1>
+    <p class="stats">
+      owned by ${userLink(appState.users.get(group.ownerId))} •
+      <a href="/leaderboard?group=${group.id}">leaderboard</a>
+    </p>
+
+    <h2>invite link</h2>
+    <p>> anyone with this link can join:</p>
+    <p><code>${BASE_URL}/join/${group.inviteCode}</code></p>
+    ${
+      isOwner &&
+      markup`
+        <form action="/group/${group.id}/invite" method="post">
+          ${csrf}
+          <button type="submit" class="small-button">new invite link</button>
+          <span class="stats">the old link stops working</span>
+        </form>
+      `
+    }
+
+    <h2>problems</h2>
+    ${
+      problems.length === 0
+        ? markup`<p class="stats">nothing published to this group yet</p>`
+        : problems.map(
+            (problem) => markup`
+              <div class="problem">
+                <h3><a href="/problem/${problem.id}">${problem.title}</a></h3>
+                <div class="problem-meta">${new Date(getProblemStartTime(problem)).toLocaleDateString()}</div>
+              </div>
+            `,
+          )
+    }
+
+    <h2>members (${members.length})</h2>
+    <table>
+      ${members.map(
+        (member) => markup`
+          <tr>
+            <td>${userLink(member)}${member.id === group.ownerId && " (owner)"}</td>
+            <td>
+              ${
+                isOwner &&
+                member.id !== group.ownerId &&
+                markup`
+                  <form action="/group/${group.id}/remove/${member.id}" method="post" style="display: inline;">
+                    ${csrf}
+                    <button type="submit" class="small-button">remove</button>
+                  </form>
+                `
+              }
+            </td>
+          </tr>
+        `,
+      )}
+    </table>
+
+    ${
+      group.ownerId !== user.id &&
+      group.memberIds.includes(user.id) &&
+      markup`
+        <form action="/group/${group.id}/leave" method="post">
+          ${csrf}
+          <button type="submit">leave group</button>
+        </form>
+      `
+    }
+    ${
+      isOwner &&
+      markup`
+        <form action="/group/${group.id}/delete" method="post" >
+          ${csrf}
+          <button type="submit" class="small-button" onclick="return confirm('Delete this group? Its problems stay hidden until republished.')">delete group</button>
+        </form>
+      `
+    }
+  `;
+  }
+
+  // Wraps a page's content in the document layout and nav
+  function page(
+    content: SafeHtml | SafeHtml[],
+    user: User | null = null,
+    csrf: SafeHtml | null = null,
+    refreshSeconds?: number,
+  ): string {
+    const nav = user
+      ? markup`<nav>
+        ${userLink(user)}
+        <span class="nav-sep">|</span>
+        <a href="/">home</a>
+        <span class="nav-sep">|</span>
+        <a href="/leaderboard">leaderboard</a>
+        <span class="nav-sep">|</span>
+        <a href="/contests">contests</a>
+        <span class="nav-sep">|</span>
+        <a href="/new-problem">new</a>
+        <span class="nav-sep">|</span>
+        <a href="/groups">groups</a>
+        <span class="nav-sep">|</span>
+        <a href="/settings">settings</a>
+        ${isAdmin(user) && markup`<span class="nav-sep">|</span><a href="/admin">admin</a>`}
+        <span class="nav-sep">|</span>
+        <form action="/logout" method="post" style="display: inline;">
+          ${csrf}
+          <button type="submit" class="link-button">logout</button>
+        </form>
+      </nav>`
+      : markup`<nav>
+        <a href="/">home</a>
+        <span class="nav-sep">|</span>
+        <a href="/leaderboard">leaderboard</a>
+        <span class="nav-sep">|</span>
+        <a href="/contests">contests</a>
+        <span class="nav-sep">|</span>
+        <a href="/login">login</a>
+      </nav>`;
+
+    return markup`<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>coding problems</title>
+  <link rel="alternate" type="application/atom+xml" title="new problems" href="/feed.xml">
+  ${refreshSeconds && markup`<meta http-equiv="refresh" content="${refreshSeconds}">`}
+  <link rel="icon" href="data:image/svg+xml,<svg xmlns=%22http://www.w3.org/2000/svg%22 viewBox=%220 0 100 100%22><text y=%22.9em%22 font-size=%2290%22>💻</text></svg>">
+  <style>
+    * {
+      margin: 0;
+      padding: 0;
+      box-sizing: border-box;
+    }
+
+    body {
+      font-family: 'Monaco', 'Menlo', 'Courier New', monospace;
+      font-size: 14px;
+      line-height: 1.6;
+      max-width: 900px;
+      margin: 0 auto;
+      padding: 20px;
+      background: #0d1117;
+      color: #c9d1d9;
+    }
+
+    a {
+      color: #58a6ff;
+      text-decoration: none;
+    }
+
+    a:hover {
+      text-decoration: underline;
+    }
+
+    nav {
+      border-bottom: 1px solid #30363d;
+      padding-bottom: 15px;
+      margin-bottom: 25px;
+      font-size: 13px;
+    }
+
+    .nav-sep {
+      color: #30363d;
+      margin: 0 8px;
+    }
+
+    h1 {
+      font-size: 24px;
+      margin-bottom: 20px;
+      color: #58a6ff;
+      font-weight: normal;
+    }
+
+    h2 {
+      font-size: 18px;
+      margin: 25px 0 15px;
+      color: #8b949e;
+      font-weight: normal;
+    }
+
+    h3 {
+      font-size: 16px;
+      margin-bottom: 8px;
+      font-weight: normal;
+    }
+
+    p {
+      margin-bottom: 12px;
+    }
+
+    form {
+      margin: 20px 0;
+    }
+
+    label {
+      display: block;
+      margin: 15px 0 5px;
+      color: #8b949e;
+    }
+
+    input[type="text"],
+    input[type="file"],
+    input[type="datetime-local"],
+    select,
+    textarea {
+      width: 100%;
+      padding: 8px 12px;
+      background: #0d1117;
+      border: 1px solid #30363d;
+      color: #c9d1d9;
+      font-family: inherit;
+      font-size: 13px;
+      margin-bottom: 5px;
+    }
+
+    input[type="text"]:focus,
+    input[type="datetime-local"]:focus,
+    select:focus,
+    textarea:focus {
+      outline: none;
+      border-color: #58a6ff;
+    }
+
+    textarea {
+      min-height: 200px;
+      resize: vertical;
+    }
+
+    textarea.answer {
+      min-height: 0;
+      height: 36px;
+    }
+
+    textarea.hint {
+      min-height: 80px;
+    }
+
+    button {
+      padding: 8px 16px;
+      background: #21262d;
+      color: #c9d1d9;
+      border: 1px solid #30363d;
+      cursor: pointer;
+      font-family: inherit;
+      font-size: 13px;
+      margin-top: 5px;
+    }
+
+    button:hover {
+      background: #30363d;
+      border-color: #8b949e;
+    }
+
+    button:active {
+      background: #0d1117;
+    }
+
+    .link-button {
+      background: none;
+      border: none;
+      color: #58a6ff;
+      padding: 0;
+      margin: 0;
+      cursor: pointer;
+    }
+
+    .link-button:hover {
+      text-decoration: underline;
+      background: none;
+      border: none;
+    }
+
+    .problem {
+      border: 1px solid #30363d;
+      padding: 15px;
+      margin: 12px 0;
+      background: #161b22;
+    }
+
+    .problem h3 {
+      margin-top: 0;
+    }
+
+    .problem-meta {
+      font-size: 12px;
+      color: #8b949e;
+      margin-top: 8px;
+    }
+
+    .submission {
+      border-left: 2px solid #30363d;
+      padding: 10px 12px;
+      margin: 8px 0;
+      background: #161b22;
+      font-size: 13px;
+    }
+
+    .submission.correct {
+      border-left-color: #238636;
+    }
+
+    .submission.incorrect {
+      border-left-color: #da3633;
+    }
+
+    .submission-actions {
+      margin-top: 8px;
+    }
+
+    pre {
+      background: #161b22;
+      border: 1px solid #30363d;
+      padding: 15px;
+      overflow-x: auto;
+      margin: 12px 0;
+      white-space: pre-wrap;
+      word-wrap: break-word;
+    }
+
+    code {
+      background: #161b22;
+      padding: 2px 6px;
+      border: 1px solid #30363d;
+      font-size: 12px;
+    }
+
+    .filters {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 8px;
+    }
+
+    .filters input[type="text"],
+    .filters select {
+      flex: 1 1 140px;
+      width: auto;
+      margin: 0;
+    }
+
+    .filters input[name="q"] {
+      flex-basis: 100%;
+    }
+
+    .badge {
+      display: inline-block;
+      padding: 2px 8px;
+      font-size: 11px;
+      border: 1px solid #30363d;
+      margin-left: 8px;
+    }
+
+    .badge.solved {
+      border-color: #238636;
+      color: #238636;
+    }
+
+    .stats {
+      font-size: 12px;
+      color: #8b949e;
+      margin: 8px 0;
+    }
+
+    .alert {
+      background: #161b22;
+      border: 1px solid #f85149;
+      padding: 12px;
+      margin: 15px 0;
+      color: #f85149;
+    }
+
+    .success {
+      background: #161b22;
+      border: 1px solid #238636;
+      padding: 12px;
+      margin: 15px 0;
+      color: #238636;
+    }
+
+    .small-button {
+      padding: 4px 8px;
+      font-size: 11px;
+      margin-left: 8px;
+    }
+
+    table {
+      width: 100%;
+      border-collapse: collapse;
+      margin: 12px 0;
+      font-size: 13px;
+    }
+
+    th,
+    td {
+      text-align: left;
+      padding: 6px 10px;
+      border-bottom: 1px solid #30363d;
+    }
+
+    th {
+      color: #8b949e;
+      font-weight: normal;
+    }
+
+    .markdown h1,
+    .markdown h2,
+    .markdown h3,
+    .markdown h4 {
+      font-size: 15px;
+      margin: 18px 0 8px;
+      color: #c9d1d9;
+    }
+
+    .markdown ul,
+    .markdown ol {
+      margin: 0 0 12px 25px;
+    }
+
+    .markdown blockquote {
+      border-left: 2px solid #30363d;
+      padding-left: 12px;
+      color: #8b949e;
+      margin: 12px 0;
+    }
+
+    .markdown img {
+      max-width: 100%;
+    }
+
+    pre code,
+    pre code.hljs {
+      background: none;
+      border: none;
+      padding: 0;
+      font-size: 13px;
+    }
+
+    .hljs-keyword,
+    .hljs-selector-tag,
+    .hljs-type {
+      color: #ff7b72;
+    }
+
+    .hljs-string,
+    .hljs-regexp {
+      color: #a5d6ff;
+    }
+
+    .hljs-number,
+    .hljs-literal,
+    .hljs-attr,
+    .hljs-variable {
+      color: #79c0ff;
+    }
+
+    .hljs-title,
+    .hljs-title.function_,
+    .hljs-built_in {
+      color: #d2a8ff;
+    }
+
+    .hljs-comment,
+    .hljs-quote {
+      color: #8b949e;
+    }
+
+    .hljs-meta {
+      color: #ffa657;
+    }
+
+    .profile {
+      display: flex;
+      align-items: center;
+      gap: 15px;
+      margin-bottom: 20px;
+    }
+
+    .avatar {
+      width: 64px;
+      height: 64px;
+      border: 1px solid #30363d;
+    }
+
+    .profile h1 {
+      margin-bottom: 0;
+    }
+  </style>
+</head>
+<body>
+  ${nav}
+  ${content}
+</body>
+</html>`.toString();
+  }
+
+  // Request limits on top of the answer cooldowns, so no single client can
+  // flood the login flow, the judge or the discussions
+  const authRateLimit = createRateLimiter({ limit: 20, windowMs: 60 * 1000 });
+  const submitRateLimit = createRateLimiter({ limit: 10, windowMs: 60 * 1000 });
+  const postRateLimit = createRateLimiter({ limit: 5, windowMs: 60 * 1000 });
+
+  function tooManyRequests(retryAfterMs: number, message: string) {
+    return new Response(message, {
+      status: 429,
+      headers: { "Retry-After": String(Math.ceil(retryAfterMs / 1000)) },
+    });
+  }
+
+  type SubmitResult =
+    | { submission: Submission }
+    | { error: string; status: number; retryAfterMs?: number };
+
+  // Checks and saves an answer, or on judge problems queues a program, for
+  // the part the user is working on. `part` is only a guard against answering
+  // a part that has since been solved. Shared by the submit form and the API.
+  async function submitAnswer(
+    user: User,
+    problem: Problem,
+    fields: {
+      answer?: unknown;
+      part?: number;
+      language?: unknown;
+      source?: unknown;
+    },
+  ): Promise<SubmitResult> {
+    if (!isReleased(problem)) {
+      return { error: "Problem is not released yet", status: 403 };
+    }
+
+    const retryAfter = submitRateLimit(user.id);
+    if (retryAfter > 0) {
+      return {
+        error: "Too many submissions, try again in a minute",
+        status: 429,
+        retryAfterMs: retryAfter,
+      };
+    }
+
+    const part = getSolvedPartCount(user.id, problem);
+    if (part === problem.parts.length) {
+      return { error: "Problem is already solved", status: 409 };
+    }
+    if (fields.part !== undefined && fields.part !== part) {
+      return { error: `Part ${part + 1} is the part to solve`, status: 409 };
+    }
+
+    const cooldownLeft = getCooldownEnd(user.id, problem, part) - Date.now();
+    if (cooldownLeft > 0) {
+      return {
+        error: `Please wait ${formatDuration(cooldownLeft)} before submitting again`,
+        status: 429,
+        retryAfterMs: cooldownLeft,
+      };
+    }
+
+    if (problem.judge) {
+      const { language, source } = fields;
+      if (!isLanguage(language)) {
+        return { error: "Unknown language", status: 400 };
+      }
+      if (typeof source !== "string" || !source.trim()) {
+        return { error: "Missing source code", status: 400 };
+      }
+      if (source.length > MAX_SOURCE_LENGTH) {
+        return { error: "Source code is too long", status: 400 };
+      }
+
+      // One run in the queue at a time per solver
+      const pending = appState.submissions
+        .forProblemAndUser(problem.id, user.id)
+        .some((s) => s.code && !s.verdict);
+      if (pending) {
+        return {
+          error: "Your previous submission is still being judged",
+          status: 429,
+        };
+      }
+
+      const submission: Submission = {
+        id: generateId(),
+        problemId: problem.id,
+        userId: user.id,
+        part,
+        answer: "",
+        isCorrect: false,
+        code: { language, source },
+        submittedAt: Date.now(),
+      };
+
+      appState.submissions.set(submission.id, submission);
+      await saveState();
+      queueJudging(submission.id);
+      return { submission };
+    }
+
+    const { answer } = fields;
+    if (typeof answer !== "string") {
+      return { error: "Missing answer", status: 400 };
+    }
+
+    const { index, input } = getAssignedInput(user.id, problem);
+    const correctAnswer = input.correctAnswers[part]!;
+    const isCorrect = checkAnswer(problem.checker, answer, correctAnswer);
+
+    const submission: Submission = {
+      id: generateId(),
+      problemId: problem.id,
+      userId: user.id,
+      part,
+      answer,
+      isCorrect,
+      hint: isCorrect
+        ? undefined
+        : getNumericHint(problem, answer, correctAnswer),
+      inputIndex: index,
+      submittedAt: Date.now(),
+    };
+
+    appState.submissions.set(submission.id, submission);
+    notifyFirstSolve(submission);
+    await saveState();
+    return { submission };
+  }
+
+  // JSON API. Times are ISO 8601 strings and parts are numbered from 1, as
+  // on the site.
+  function userJson(user: User | undefined) {
+    return user
+      ? { username: user.username, avatarUrl: user.avatarUrl }
+      : { username: null, avatarUrl: null };
+  }
+
+  function problemJson(problem: Problem, user: User | null): ApiProblem {
+    return {
+      id: problem.id,
+      title: problem.title,
+      author: userJson(appState.users.get(problem.authorId)).username,
+      parts: problem.parts.length,
+      createdAt: new Date(problem.createdAt).toISOString(),
+      releaseAt:
+        getProblemStartTime(problem) !== problem.createdAt
+          ? new Date(getProblemStartTime(problem)).toISOString()
+          : null,
+      judge: !!problem.judge,
+      hasInput: !problem.judge && problem.inputs.some((i) => i.inputFile),
+      groups: (problem.groupIds ?? []).map(
+        (id) => appState.groups.get(id)?.name ?? null,
+      ),
+      tags: problem.tags ?? [],
+      difficulty: problem.difficulty
+        ? (DIFFICULTIES[problem.difficulty - 1] ?? null)
+        : null,
+      stats: getProblemStats(problem),
+      solvedParts: user ? getSolvedPartCount(user.id, problem) : null,
+    };
+  }
+
+  function submissionJson(sub: Submission): ApiSubmission {
+    const base = {
+      id: sub.id,
+      problemId: sub.problemId,
+      part: sub.part + 1,
+      submittedAt: new Date(sub.submittedAt).toISOString(),
+    };
+    return sub.code
+      ? {
+          ...base,
+          language: sub.code.language,
+          verdict: sub.verdict ?? null,
+          correct: sub.verdict ? sub.isCorrect : null,
+          tests: sub.testResults ?? [],
+        }
+      : {
+          ...base,
+          answer: sub.answer,
+          correct: sub.isCorrect,
+          hint: sub.hint ?? null,
+        };
+  }
+
+  // API requests authenticate with a personal access token or, from pages on
+  // this site, the session cookie. Posts made with the cookie must send the
+  // session's CSRF token in an X-CSRF-Token header.
+  function getApiUser(req: Request, session: Session | null): User | Response {
+    const token = getBearerToken(req);
+    if (token) {
+      const apiToken = appState.tokens.get(hashToken(token));
+      const user = apiToken && appState.users.get(apiToken.userId);
+      if (!apiToken || !user) {
+        return apiError("unauthorized", "Invalid or revoked token");
+      }
+      apiToken.lastUsedAt = Date.now();
+      appState.tokens.set(apiToken.id, apiToken);
+      return user;
+    }
+
+    const user = session && appState.users.get(session.userId);
+    if (!session || !user) {
+      return apiError("unauthorized", "Authentication required");
+    }
+    if (
+      req.method !== "GET" &&
+      !isValidCsrfToken(session, req.headers.get("x-csrf-token"))
+    ) {
+      return apiError("forbidden", "Invalid CSRF token");
+    }
+    return user;
+  }
+
+  // Paths and the methods they take, for telling a wrong method (405) from a
+  // wrong path (404)
+  const API_ROUTES: [RegExp, string[]][] = [
+    [/^\/api\/v1\/me$/, ["GET"]],
+    [/^\/api\/v1\/problems$/, ["GET"]],
+    [/^\/api\/v1\/problems\/[^/]+$/, ["GET"]],
+    [/^\/api\/v1\/problems\/[^/]+\/input$/, ["GET"]],
+    [/^\/api\/v1\/problems\/[^/]+\/stats$/, ["GET"]],
+    [/^\/api\/v1\/problems\/[^/]+\/submissions$/, ["GET", "POST"]],
+    [/^\/api\/v1\/submissions$/, ["GET"]],
+  ];
+
+  async function handleApi(
+    req: Request,
+    url: URL,
+    session: Session | null,
+  ): Promise<Response> {
+    const path = url.pathname.replace(/\/+$/, "");
+    const [, , , resource, problemId, action, ...rest] = path.split("/");
+
+    const route = API_ROUTES.find(([pattern]) => pattern.test(path));
+    if (!route || rest.length > 0) {
+      return apiError("not_found", "No such API endpoint");
+    }
+    if (!route[1].includes(req.method)) {
+      return apiError("method_not_allowed", `Use ${route[1].join(" or ")}`);
+    }
+
+    // Reading problems works without logging in, like the pages do, but a
+    // token that was sent has to be valid
+    const auth = getApiUser(req, session);
+    if (auth instanceof Response && getBearerToken(req)) return auth;
+    const user = auth instanceof Response ? null : auth;
+
+    if (resource === "me") {
+      if (!user) return auth as Response;
+      return json({
+        id: user.id,
+        username: user.username,
+        avatarUrl: user.avatarUrl,
+        admin: isAdmin(user),
+      } satisfies ApiUser);
+    }
+
+    if (resource === "submissions") {
+      if (!user) return auth as Response;
+      const submissions = appState.submissions
+        .forUser(user.id)
+        .filter((sub) => appState.problems.has(sub.problemId))
+        .sort((a, b) => b.submittedAt - a.submittedAt);
+      return json({ submissions: submissions.map(submissionJson) });
+    }
+
+    if (!problemId) {
+      const problems = Array.from(appState.problems.values())
+        .filter((p) => canView(user, p))
+        .sort((a, b) => getProblemStartTime(b) - getProblemStartTime(a));
+      return json({ problems: problems.map((p) => problemJson(p, user)) });
+    }
+
+    const problem = appState.problems.get(problemId);
+    if (!problem || !canView(user, problem)) {
+      return apiError("not_found", "Problem not found");
+    }
+
+    if (!action) {
+      const solvedParts = user ? getSolvedPartCount(user.id, problem) : 0;
+      // Authors see every part; everyone else sees up to their current one
+      const visibleParts =
+        user && problem.authorId === user.id
+          ? problem.parts.length
+          : Math.min(solvedParts + 1, problem.parts.length);
+      const cooldownEnd =
+        user && solvedParts < problem.parts.length
+          ? getCooldownEnd(user.id, problem, solvedParts)
+          : 0;
+
+      return json({
+        ...problemJson(problem, user),
+        descriptions: problem.parts
+          .slice(0, visibleParts)
+          .map((part) => part.description),
+        checker: problem.checker.type,
+        languages: problem.judge ? Object.keys(LANGUAGES) : null,
+        cooldownUntil:
+          cooldownEnd > Date.now() ? new Date(cooldownEnd).toISOString() : null,
+      } satisfies ApiProblemDetails);
+    }
+
+    if (action === "input") {
+      if (problem.judge) {
+        return apiError("not_found", "Judge problems have no input");
+      }
+      // With several inputs we need to know whose input to hand out
+      if (!user && problem.inputs.length > 1) return auth as Response;
+
+      const { input } = user
+        ? getAssignedInput(user.id, problem)
+        : { input: problem.inputs[0]! };
+      if (!input.inputFile) {
+        return apiError("not_found", "Problem has no input file");
+      }
+      return new Response(input.inputFile, {
+        headers: { "Content-Type": "text/plain; charset=utf-8" },
+      });
+    }
+
+    if (action === "stats") {
+      return json({
+        ...getProblemStats(problem),
+        leaderboards: problem.parts.map((_, part) =>
+          getProblemLeaderboard(problem, part)
+            .slice(0, LEADERBOARD_SIZE)
+            .map((entry) => ({
+              rank: entry.rank,
+              username: userJson(appState.users.get(entry.userId)).username,
+              solvedAt: new Date(entry.solvedAt).toISOString(),
+              elapsedMs: entry.elapsedMs,
+              wrongAttempts: entry.wrongAttempts,
+              hintsUsed: entry.hintsUsed,
+              penaltyMs: entry.penaltyMs,
+            })),
+        ),
+      });
+    }
+
+    // Submissions for the problem
+    if (!user) return auth as Response;
+
+    if (req.method === "GET") {
+      const submissions = appState.submissions
+        .forProblemAndUser(problem.id, user.id)
+        .sort((a, b) => b.submittedAt - a.submittedAt);
+      return json({ submissions: submissions.map(submissionJson) });
+    }
+
+    const body = await readJsonBody(req);
+    if (!body) {
+      return apiError("bad_request", "Expected a JSON object");
+    }
+    if (body.part !== undefined && !Number.isInteger(body.part)) {
+      return apiError("bad_request", "part must be a whole number");
+    }
+
+    const result = await submitAnswer(user, problem, {
+      answer:
+        typeof body.answer === "number" ? String(body.answer) : body.answer,
+      part: body.part !== undefined ? (body.part as number) - 1 : undefined,
+      language: body.language,
+      source: body.source,
+    });
+    if ("error" in result) {
+      return apiError(
+        errorCodeFor(result.status),
+        result.error,
+        result.retryAfterMs,
+      );
+    }
+    return json(submissionJson(result.submission), 201);
+  }
+
+  await loadState();
+  const saveTimer = setInterval(saveState, SAVE_INTERVAL_MS);
+  // Scheduled problems are announced within a minute of their release
+  const announceTimer = setInterval(announceProblems, ANNOUNCE_INTERVAL_MS);
+
+  const server = Bun.serve({
+    port: config.port,
+    async fetch(req, server) {
+      const url = new URL(req.url);
+      const session = getSession(req);
+      const user = getSessionUser(session);
+      const csrf = csrfField(session);
+
+      // The API does its own authentication and CSRF checks
+      if (url.pathname === "/api" || url.pathname.startsWith("/api/")) {
+        return handleApi(req, url, session);
+      }
+
+      // Form posts made with a session cookie must carry its CSRF token, so
+      // other sites can't submit forms on a logged in user's behalf
+      if (req.method === "POST" && session) {
+        const formData = await req
+          .clone()
+          .formData()
+          .catch(() => null);
+        if (!formData || !isValidCsrfToken(session, formData.get("csrf"))) {
+          return new Response("Invalid CSRF token", { status: 403 });
+        }
+      }
+
+      // Home page
+      if (url.pathname === "/" && req.method === "GET") {
+        const query = parseProblemQuery(url.searchParams);
+        const voteTotals = getVoteTotals();
+        const visible = Array.from(appState.problems.values()).filter((p) =>
+          canView(user, p),
+        );
+        const tags = Array.from(
+          new Set(visible.flatMap((p) => p.tags ?? [])),
+        ).sort();
+
+        // An unknown author matches nothing rather than everything
+        const authorId = query.author
+          ? (findUserByUsername(query.author)?.id ?? "")
+          : undefined;
+        const isSolved = (p: Problem) =>
+          !!user && getSolvedPartCount(user.id, p) === p.parts.length;
+        const difficulty = (p: Problem) =>
+          getDifficulty(p, voteTotals.get(p.id));
+        const solves = (p: Problem) =>
+          appState.submissions.solverCount(p.id, p.parts.length - 1);
+
+        const matching = visible.filter(
+          (p) =>
+            (!query.tag || !!p.tags?.includes(query.tag)) &&
+            (!query.difficulty || difficulty(p) === query.difficulty) &&
+            (authorId === undefined || p.authorId === authorId) &&
+            (!user ||
+              !query.status ||
+              isSolved(p) === (query.status === "solved")) &&
+            (!query.text ||
+              // Later parts stay hidden until the earlier ones are solved
+              matchesText(query.text, [
+                p.title,
+                p.parts[0]?.description ?? "",
+              ])),
+        );
+
+        // Unrated problems go last when sorting by difficulty
+        const byDifficulty = (p: Problem, unrated: number) =>
+          difficulty(p) ?? unrated;
+        const newestFirst = (a: Problem, b: Problem) =>
+          getProblemStartTime(b) - getProblemStartTime(a);
+        const compare: Record<Sort, typeof newestFirst> = {
+          newest: newestFirst,
+          oldest: (a, b) => -newestFirst(a, b),
+          popular: (a, b) => solves(b) - solves(a) || newestFirst(a, b),
+          easiest: (a, b) =>
+            byDifficulty(a, Infinity) - byDifficulty(b, Infinity) ||
+            newestFirst(a, b),
+          hardest: (a, b) =>
+            byDifficulty(b, -Infinity) - byDifficulty(a, -Infinity) ||
+            newestFirst(a, b),
+        };
+        const {
+          items: problems,
+          page: pageNumber,
+          pageCount,
+        } = paginate(
+          matching.sort(compare[query.sort]),
+          query.page,
+          PROBLEMS_PER_PAGE,
+        );
+
+        const isFiltered =
+          !!query.text ||
+          !!query.tag ||
+          !!query.difficulty ||
+          !!query.author ||
+          (!!user && !!query.status);
+
+        const content = [
+          markup`
+          <h1>$ coding problems</h1>
+          <form action="/" method="get" class="filters">
+            <input type="text" name="q" value="${query.text}" placeholder="search titles and descriptions">
+            <select name="tag">
+              <option value="">any tag</option>
+              ${tags.map((tag) => markup`<option value="${tag}" ${tag === query.tag && "selected"}>${tag}</option>`)}
+            </select>
+            <select name="difficulty">
+              <option value="">any difficulty</option>
+              ${DIFFICULTIES.map((label, i) => markup`<option value="${i + 1}" ${query.difficulty === i + 1 && "selected"}>${label}</option>`)}
+            </select>
+            <input type="text" name="author" value="${query.author}" placeholder="author">
+            ${
+              user &&
+              markup`
+                <select name="status">
+                  <option value="">solved or not</option>
+                  <option value="unsolved" ${query.status === "unsolved" && "selected"}>unsolved</option>
+                  <option value="solved" ${query.status === "solved" && "selected"}>solved</option>
+                </select>
+              `
+            }
+            <select name="sort">
+              ${Object.entries(SORTS).map(([value, label]) => markup`<option value="${value}" ${value === query.sort && "selected"}>${label}</option>`)}
+            </select>
+            <button type="submit">search</button>
+            ${isFiltered && markup`<a href="/">clear</a>`}
+          </form>
+          <p class="stats"><a href="/feed.xml${formatProblemQuery({ text: "", tag: query.tag, author: query.author, sort: "newest", page: 1 })}">atom feed</a> of new problems${query.tag && ` tagged ${query.tag}`}${query.author && ` by @${query.author}`}</p>
+        `,
+        ];
+
+        if (!user) {
+          content.push(
+            markup`<p>> <a href="/login">login</a> to create and submit problems</p>`,
+          );
+        }
+
+        if (problems.length === 0) {
+          content.push(
+            markup`<p>> ${visible.length === 0 ? "no problems yet" : "no problems match"}</p>`,
+          );
+        } else {
+          if (isFiltered) {
+            content.push(
+              markup`<p class="stats">${matching.length} ${matching.length === 1 ? "problem matches" : "problems match"}</p>`,
+            );
+          }
+          for (const problem of problems) {
+            const author = appState.users.get(problem.authorId);
+            const solvedParts = user ? getSolvedPartCount(user.id, problem) : 0;
+            const stats = getProblemStats(problem);
+
+            let badge: SafeHtml | null = null;
+            if (!isReleased(problem)) {
+              badge = markup`<span class="badge">releases in ${formatDuration(getProblemStartTime(problem) - Date.now())}</span>`;
+            } else if (solvedParts === problem.parts.length) {
+              badge = markup`<span class="badge solved">✓</span>`;
+            } else if (solvedParts > 0) {
+              badge = markup`<span class="badge">${solvedParts}/${problem.parts.length}</span>`;
+            }
+
+            content.push(markup`
+            <div class="problem">
+              <h3>
+                <a href="/problem/${problem.id}">${problem.title}</a>
+                ${badge}
+              </h3>
+              <div class="problem-meta">
+                by ${userLink(author)} • ${new Date(getProblemStartTime(problem)).toLocaleDateString()}
+                ${problem.inputs.some((i) => i.inputFile) && " • has input file"}
+                ${problem.inputs.length > 1 && ` • ${problem.inputs.length} inputs`}
+                ${problem.parts.length > 1 && ` • ${problem.parts.length} parts`}
+                ${problem.judge && " • judge"}
+                ${formatGroups(problem)}
+                ${formatDifficulty(problem, voteTotals.get(problem.id))}
+                ${formatTags(problem)}
+              </div>
+              <div class="stats">
+                ${formatStats(problem, stats)}
+              </div>
+            </div>
+          `);
+          }
+        }
+
+        if (pageCount > 1) {
+          content.push(markup`
+          <p class="stats">
+            ${pageNumber > 1 && markup`<a href="/${formatProblemQuery(query, { page: pageNumber - 1 })}">← previous</a> •`}
+            page ${pageNumber} of ${pageCount}
+            ${pageNumber < pageCount && markup`• <a href="/${formatProblemQuery(query, { page: pageNumber + 1 })}">next →</a>`}
+          </p>
+        `);
+        }
+
+        return new Response(page(content, user, csrf), {
+          headers: { "Content-Type": "text/html" },
+        });
+      }
+
+      // Atom feed of released public problems, optionally by one author or
+      // with one tag
+      if (url.pathname === "/feed.xml" && req.method === "GET") {
+        const query = parseProblemQuery(url.searchParams);
+        const author = query.author
+          ? findUserByUsername(query.author)
+          : undefined;
+        if (query.author && !author) {
+          return new Response("User not found", { status: 404 });
+        }
+
+        const problems = Array.from(appState.problems.values())
+          .filter(
+            (p) =>
+              canView(null, p) &&
+              (!query.tag || !!p.tags?.includes(query.tag)) &&
+              (!author || p.authorId === author.id),
+          )
+          .sort((a, b) => getProblemStartTime(b) - getProblemStartTime(a))
+          .slice(0, FEED_SIZE);
+
+        const filters = formatProblemQuery({
+          text: "",
+          tag: query.tag,
+          author: author?.username,
+          sort: "newest",
+          page: 1,
+        });
+        const feed = renderAtomFeed({
+          id: `${BASE_URL}/feed.xml${filters}`,
+          title: [
+            "coding problems",
+            query.tag && `tagged ${query.tag}`,
+            author && `by @${author.username}`,
+          ]
+            .filter(Boolean)
+            .join(" "),
+          link: `${BASE_URL}/${filters}`,
+          self: `${BASE_URL}/feed.xml${filters}`,
+          entries: problems.map((problem) => ({
+            id: `${BASE_URL}/problem/${problem.id}`,
+            title: problem.title,
+            link: `${BASE_URL}/problem/${problem.id}`,
+            author: appState.users.get(problem.authorId)?.username ?? "unknown",
+            published: getProblemStartTime(problem),
+            updated: getProblemStartTime(problem),
+            categories: problem.tags ?? [],
+            // Later parts stay hidden until the earlier ones are solved
+            content: renderMarkdown(problem.parts[0]?.description ?? "").value,
+          })),
+        });
+
+        return new Response(feed, {
+          headers: { "Content-Type": "application/atom+xml; charset=utf-8" },
+        });
+      }
+
+      // Global leaderboard
+      if (url.pathname === "/leaderboard" && req.method === "GET") {
+        const sortBySolves = url.searchParams.get("sort") === "solves";
+        const groupId = url.searchParams.get("group");
+        const group = groupId ? appState.groups.get(groupId) : undefined;
+        if (
+          groupId &&
+          (!group || !(isMember(user, group.id) || isAdmin(user)))
+        ) {
+          return new Response("Group not found", { status: 404 });
+        }
+        const scores = getUserScores(group);
+        const key = (s: { points: number; solves: number }) =>
+          sortBySolves ? [s.solves, s.points] : [s.points, s.solves];
+
+        const ranked = Array.from(scores.entries())
+          .map(([userId, score]) => ({ userId, ...score }))
+          .sort((a, b) => {
+            const [a1, a2] = key(a);
+            const [b1, b2] = key(b);
+            return b1! - a1! || b2! - a2!;
+          });
+
+        const link = (params: { group?: string; sort?: string }) => {
+          const query = new URLSearchParams(
+            Object.entries(params).filter(([, v]) => v) as [string, string][],
+          ).toString();
+          return `/leaderboard${query && `?${query}`}`;
+        };
+        const sort = sortBySolves ? "solves" : undefined;
+        const leagues = user ? getUserGroups(user) : [];
+
+        const content = [
+          markup`
+          <h1>$ leaderboard${group && `: ${group.name}`}</h1>
+          ${
+            leagues.length > 0 &&
+            markup`
+              <p class="stats">
+                league:
+                ${group ? markup`<a href="${link({ sort })}">everyone</a>` : markup`<strong>everyone</strong>`}
+                ${leagues.map((g) =>
+                  g.id === group?.id
+                    ? markup` • <strong>${g.name}</strong>`
+                    : markup` • <a href="${link({ group: g.id, sort })}">${g.name}</a>`,
+                )}
+              </p>
+            `
+          }
+          <p class="stats">
+            sort by:
+            ${sortBySolves ? markup`<a href="${link({ group: group?.id })}">points</a>` : markup`<strong>points</strong>`} •
+            ${sortBySolves ? markup`<strong>solves</strong>` : markup`<a href="${link({ group: group?.id, sort: "solves" })}">solves</a>`}
+            — ${group ? "counts the problems published to the group. each" : "counts public problems. each"} solved part earns one point per ${group ? "member" : "user on the site"}, minus one for every earlier solver
+          </p>
+        `,
+        ];
+
+        if (ranked.length === 0) {
+          content.push(markup`<p>> no users yet</p>`);
+        } else {
+          let rank = 0;
+          const rows = ranked.map((entry, i) => {
+            const prev = ranked[i - 1];
+            if (!prev || key(prev).join() !== key(entry).join()) rank = i + 1;
+            const name = userLink(appState.users.get(entry.userId));
+            return markup`
+            <tr>
+              <td>${rank}</td>
+              <td>${user && entry.userId === user.id ? markup`<strong>${name}</strong>` : name}</td>
+              <td>${entry.points}</td>
+              <td>${entry.solves}</td>
+              <td>${entry.partsSolved}</td>
+            </tr>
+          `;
+          });
+          content.push(markup`
+          <table>
+            <tr><th>#</th><th>user</th><th>points</th><th>solves</th><th>parts solved</th></tr>
+            ${rows}
+          </table>
+        `);
+        }
+
+        return new Response(page(content, user, csrf), {
+          headers: { "Content-Type": "text/html" },
+        });
+      }
+
+      // User profile
+      if (url.pathname.match(/^\/user\/[^\/]+$/) && req.method === "GET") {
+        const username = decodeComponent(url.pathname.split("/")[2]!);
+        const profileUser =
+          username === null ? undefined : findUserByUsername(username);
+
+        if (!profileUser) {
+          return new Response("User not found", { status: 404 });
+        }
+
+        const authored = Array.from(appState.problems.values())
+          .filter((p) => p.authorId === profileUser.id && canView(user, p))
+          .sort((a, b) => getProblemStartTime(b) - getProblemStartTime(a));
+
+        // First correct answer per problem part
+        const attempted = new Set<string>();
+        const partSolvedAt = new Map<string, number>();
+        for (const sub of appState.submissions.forUser(profileUser.id)) {
+          // Problems of groups the viewer isn't in stay hidden
+          const problem = appState.problems.get(sub.problemId);
+          if (!problem || !canView(user, problem)) continue;
+          attempted.add(sub.problemId);
+          if (sub.isCorrect) {
+            const key = `${sub.problemId}:${sub.part}`;
+            const prev = partSolvedAt.get(key);
+            if (prev === undefined || sub.submittedAt < prev) {
+              partSolvedAt.set(key, sub.submittedAt);
+            }
+          }
+        }
+
+        const solved: { problem: Problem; solvedAt: number }[] = [];
+        for (const problemId of attempted) {
+          const problem = appState.problems.get(problemId);
+          const solvedAt =
+            problem &&
+            partSolvedAt.get(`${problem.id}:${problem.parts.length - 1}`);
+          if (problem && solvedAt !== undefined) {
+            solved.push({ problem, solvedAt });
+          }
+        }
+        solved.sort((a, b) => b.solvedAt - a.solvedAt);
+
+        const score = getUserScores().get(profileUser.id)!;
+        const solveRate = attempted.size
+          ? Math.round((solved.length / attempted.size) * 100)
+          : 0;
+
+        const content = [
+          markup`
+          <div class="profile">
+            ${profileUser.avatarUrl && markup`<img class="avatar" src="${profileUser.avatarUrl}" alt="">`}
+            <h1>@${profileUser.username}</h1>
+          </div>
+          <div class="stats">
+            ${score.points} ${score.points === 1 ? "point" : "points"} • ${solved.length} solved of ${attempted.size} attempted (${solveRate}% solve rate)
+          </div>
+        `,
+        ];
+
+        content.push(markup`<h2>solved</h2>`);
+        if (solved.length === 0) {
+          content.push(markup`<p>> nothing solved yet</p>`);
+        } else {
+          for (const { problem, solvedAt } of solved) {
+            content.push(markup`
+            <div class="submission correct">
+              ✓ <a href="/problem/${problem.id}">${problem.title}</a> • ${new Date(solvedAt).toLocaleString()}
+            </div>
+          `);
+          }
+        }
+
+        const canExport =
+          user !== null && (user.id === profileUser.id || isAdmin(user));
+        content.push(markup`
+          <h2>authored</h2>
+          ${
+            canExport &&
+            authored.length > 0 &&
+            markup`<p>> <a href="/user/${encodeURIComponent(profileUser.username)}/export">export all as a bundle</a></p>`
+          }
+        `);
+        if (authored.length === 0) {
+          content.push(markup`<p>> no problems yet</p>`);
+        } else {
+          for (const problem of authored) {
+            const stats = getProblemStats(problem);
+            content.push(markup`
+            <div class="problem">
+              <h3><a href="/problem/${problem.id}">${problem.title}</a></h3>
+              <div class="problem-meta">${new Date(getProblemStartTime(problem)).toLocaleDateString()}</div>
+              <div class="stats">${formatStats(problem, stats)}</div>
+            </div>
+          `);
+          }
+        }
+
+        return new Response(page(content, user, csrf), {
+          headers: { "Content-Type": "text/html" },
+        });
+      }
+
+      // Export all of an author's problems
+      if (
+        url.pathname.match(/^\/user\/[^\/]+\/export$/) &&
+        req.method === "GET"
+      ) {
+        const username = decodeComponent(url.pathname.split("/")[2]!);
+        const author =
+          username === null ? undefined : findUserByUsername(username);
+        if (!author) {
+          return new Response("User not found", { status: 404 });
+        }
+        if (!user || (user.id !== author.id && !isAdmin(user))) {
+          return new Response("Unauthorized", { status: 403 });
+        }
+
+        const problems = Array.from(appState.problems.values())
+          .filter((p) => p.authorId === author.id)
+          .sort((a, b) => a.createdAt - b.createdAt);
+        return downloadResponse(
+          createProblemBundle(problems.map(bundleProblem)),
+          `problems-${author.username}.json`,
+        );
+      }
+
+      if (url.pathname.startsWith("/auth/")) {
+        // Behind a reverse proxy every request comes from the proxy itself
+        const clientIp = TRUST_PROXY
+          ? req.headers.get("x-forwarded-for")?.split(",")[0]?.trim()
+          : server.requestIP(req)?.address;
+        const retryAfter = authRateLimit(clientIp || "unknown");
+        if (retryAfter > 0) {
+          return tooManyRequests(
+            retryAfter,
+            "Too many login attempts, try again in a minute",
+          );
+        }
+      }
+
+      // Login page, with a button per provider
+      if (url.pathname === "/login" && req.method === "GET") {
+        const returnTo = safeReturnPath(url.searchParams.get("return"));
+        const content = markup`
+        <h1>$ login</h1>
+        ${OAUTH_PROVIDERS.map(
+          (provider) => markup`
+            <p>> <a href="/auth/${provider.name}?return=${encodeURIComponent(returnTo)}">login with ${provider.label}</a></p>
+          `,
+        )}
+        <p class="stats">a new account is created the first time you log in. to use more than one provider, link them under settings</p>
+      `;
+        return new Response(page(content, user, csrf), {
+          headers: { "Content-Type": "text/html" },
+        });
+      }
+
+      // The dev provider's authorize page
+      if (
+        url.pathname === "/auth/dev/authorize" &&
+        req.method === "GET" &&
+        getProvider("dev")
+      ) {
+        const content = markup`
+        <h1>$ dev login</h1>
+        <p>> DEV_LOGIN is on, so you can log in as anyone. a new username creates a new user.</p>
+        <form action="/auth/dev/callback" method="get">
+          <input type="hidden" name="state" value="${url.searchParams.get("state")}">
+          <label>username:</label>
+          <input type="text" name="code" maxlength="39" required autofocus>
+          <button type="submit">login</button>
+        </form>
+      `;
+        return new Response(page(content, user, csrf), {
+          headers: { "Content-Type": "text/html" },
+        });
+      }
+
+      // OAuth login: /auth/<provider> sends the browser to the provider, which
+      // sends it back to /auth/<provider>/callback
+      const authMatch = url.pathname.match(/^\/auth\/([^\/]+)(\/callback)?$/);
+      const provider = authMatch && getProvider(authMatch[1]!);
+
+      if (provider && !authMatch[2] && req.method === "GET") {
+        const returnTo = safeReturnPath(url.searchParams.get("return"));
+        // Linking adds the account to the logged in user instead of logging in
+        const isLinking = !!user && url.searchParams.get("link") === "1";
+        // A random state, also kept in a cookie, ties the callback to the
+        // browser that started the login
+        const state = generateId();
+        return new Response(null, {
+          status: 302,
+          headers: {
+            Location: provider.authorizeUrl(
+              `${BASE_URL}/auth/${provider.name}/callback`,
+              state,
+            ),
+            "Set-Cookie": setCookie(
+              "oauth_state",
+              `${state}:${encodeURIComponent(returnTo)}${isLinking ? ":link" : ""}`,
+              10 * 60,
+              `/auth/${provider.name}`,
+            ),
+          },
+        });
+      }
+
+      if (provider && authMatch[2] && req.method === "GET") {
+        const code = url.searchParams.get("code");
+        const state = url.searchParams.get("state");
+        const [expectedState, savedReturn, mode] = (
+          getCookie(req, "oauth_state") || ""
+        ).split(":");
+
+        if (!code) {
+          return new Response("Missing code", { status: 400 });
+        }
+
+        if (!state || !expectedState || state !== expectedState) {
+          return new Response("Invalid OAuth state", { status: 400 });
+        }
+        const returnTo = safeReturnPath(decodeComponent(savedReturn || ""));
+
+        let profile: OAuthProfile;
+        try {
+          profile = await provider.getProfile(
+            code,
+            `${BASE_URL}/auth/${provider.name}/callback`,
+          );
+        } catch (e) {
+          console.error(`${provider.label} login failed:`, e);
+          return new Response(`Login with ${provider.label} failed`, {
+            status: 502,
+          });
+        }
+
+        const headers = new Headers({ Location: returnTo });
+        headers.append(
+          "Set-Cookie",
+          setCookie("oauth_state", "", 0, `/auth/${provider.name}`),
+        );
+        const identity: Identity = {
+          provider: provider.name,
+          id: profile.id,
+          username: profile.username,
+        };
+        let account = findUserByIdentity(identity.provider, identity.id);
+
+        if (mode === "link") {
+          if (!user) {
+            return new Response("Log in before linking an account", {
+              status: 401,
+            });
+          }
+          if (account && account.id !== user.id) {
+            return new Response(
+              `That ${provider.label} account already belongs to @${account.username}`,
+              { status: 409 },
+            );
+          }
+          if (!account) {
+            user.identities.push(identity);
+            appState.users.set(user.id, user);
+            await saveState();
+          }
+          return new Response(null, { status: 302, headers });
+        }
+
+        // Create the user on their first login
+        if (!account) {
+          account = {
+            id: generateId(),
+            username: getUnusedUsername(profile.username),
+            avatarUrl: profile.avatarUrl,
+            identities: [identity],
+          };
+          appState.users.set(account.id, account);
+          await saveState();
+        }
+
+        // Create session
+        const sessionId = generateId();
+        appState.sessions.set(sessionId, {
+          userId: account.id,
+          expiresAt: Date.now() + 30 * 24 * 60 * 60 * 1000, // 30 days
+          csrfToken: generateId(),
+        });
+
+        headers.append(
+          "Set-Cookie",
+          setCookie("session", sessionId, 30 * 24 * 60 * 60),
+        );
+        return new Response(null, { status: 302, headers });
+      }
+
+      // Logout
+      if (url.pathname === "/logout" && req.method === "POST") {
+        const sessionId = getCookie(req, "session");
+        if (sessionId) {
+          appState.sessions.delete(sessionId);
+        }
+        return new Response(null, {
+          status: 302,
+          headers: {
+            Location: "/",
+            "Set-Cookie": setCookie("session", "", 0),
+          },
+        });
+      }
+
+      // Settings page
+      if (url.pathname === "/settings" && req.method === "GET") {
+        if (!user) {
+          return Response.redirect(
+            "/login?return=" + encodeURIComponent(url.pathname),
+          );
+        }
+
+        return new Response(page(settingsPage(user, csrf!), user, csrf), {
+          headers: { "Content-Type": "text/html" },
+        });
+      }
+
+      // Create a personal access token
+      if (url.pathname === "/settings/tokens" && req.method === "POST") {
+        if (!user) {
+          return new Response("Unauthorized", { status: 401 });
+        }
+
+        const formData = await req.formData();
+        const name = String(formData.get("name") || "").trim();
+        if (!name || name.length > 100) {
+          return new Response("Token name must be 1-100 characters", {
+            status: 400,
+          });
+        }
+        const tokenCount = Array.from(appState.tokens.values()).filter(
+          (t) => t.userId === user.id,
+        ).length;
+        if (tokenCount >= MAX_TOKENS_PER_USER) {
+          return new Response(
+            `You can have at most ${MAX_TOKENS_PER_USER} tokens, revoke one first`,
+            { status: 400 },
+          );
+        }
+
+        const token = generateToken();
+        const apiToken: ApiToken = {
+          id: hashToken(token),
+          userId: user.id,
+          name,
+          createdAt: Date.now(),
+        };
+        appState.tokens.set(apiToken.id, apiToken);
+        await saveState();
+
+        // Shown on this response only, so no redirect
+        return new Response(
+          page(settingsPage(user, csrf!, token), user, csrf),
+          {
+            headers: {
+              "Content-Type": "text/html",
+              "Cache-Control": "no-store",
+            },
+          },
+        );
+      }
+
+      // Unlink a login provider account, keeping at least one
+      if (url.pathname === "/settings/unlink" && req.method === "POST") {
+        if (!user) {
+          return new Response("Unauthorized", { status: 401 });
+        }
+
+        const formData = await req.formData();
+        const provider = String(formData.get("provider") || "");
+        const id = String(formData.get("id") || "");
+        const identities = user.identities.filter(
+          (i) => !(i.provider === provider && i.id === id),
+        );
+        if (identities.length === user.identities.length) {
+          return new Response("Account not found", { status: 404 });
+        }
+        if (identities.length === 0) {
+          return new Response("You can't unlink your only account", {
+            status: 400,
+          });
+        }
+
+        user.identities = identities;
+        appState.users.set(user.id, user);
+        await saveState();
+
+        return new Response(null, {
+          status: 302,
+          headers: { Location: "/settings" },
+        });
+      }
+
+      // Revoke a personal access token
+      if (
+        url.pathname.match(/^\/settings\/tokens\/[^\/]+\/revoke$/) &&
+        req.method === "POST"
+      ) {
+        if (!user) {
+          return new Response("Unauthorized", { status: 401 });
+        }
+
+        const tokenId = url.pathname.split("/")[3]!;
+        const apiToken = appState.tokens.get(tokenId);
+        if (!apiToken || apiToken.userId !== user.id) {
+          return new Response("Token not found", { status: 404 });
+        }
+
+        appState.tokens.delete(tokenId);
+        await saveState();
+
+        return new Response(null, {
+          status: 302,
+          headers: { Location: "/settings" },
+        });
+      }
+
+      // Groups page
+      if (url.pathname === "/groups" && req.method === "GET") {
+        if (!user) {
+          return Response.redirect(
+            "/login?return=" + encodeURIComponent(url.pathname),
+          );
+        }
+
+        return new Response(page(groupsPage(user, csrf!), user, csrf), {
+          headers: { "Content-Type": "text/html" },
+        });
+      }
+
+      // Create a group
+      if (url.pathname === "/groups" && req.method === "POST") {
+        if (!user) {
+          return new Response("Unauthorized", { status: 401 });
+        }
+
+        const formData = await req.formData();
+        const name = String(formData.get("name") || "").trim();
+        if (!name || name.length > 100) {
+          return new Response("Group name must be 1-100 characters", {
+            status: 400,
+          });
+        }
+
+        const group: Group = {
+          id: generateId(),
+          name,
+          ownerId: user.id,
+          memberIds: [user.id],
+          inviteCode: generateId(),
+          createdAt: Date.now(),
+        };
+        appState.groups.set(group.id, group);
+        await saveState();
+
+        return new Response(null, {
+          status: 302,
+          headers: { Location: `/group/${group.id}` },
+        });
+      }
+
+      // Group page, for members only
+      if (url.pathname.match(/^\/group\/[^\/]+$/) && req.method === "GET") {
+        const group = appState.groups.get(url.pathname.split("/")[2]!);
+        if (!user || !group || !(isMember(user, group.id) || isAdmin(user))) {
+          return new Response("Group not found", { status: 404 });
+        }
+
+        return new Response(page(groupPage(group, user, csrf!), user, csrf), {
+          headers: { "Content-Type": "text/html" },
+        });
+      }
+
+      // Group actions
+      if (
+        url.pathname.match(
+          /^\/group\/[^\/]+\/(leave|invite|delete|remove\/[^\/]+)$/,
+        ) &&
+        req.method === "POST"
+      ) {
+        if (!user) {
+          return new Response("Unauthorized", { status: 401 });
+        }
+
+        const [, , groupId, action, memberId] = url.pathname.split("/");
+        const group = appState.groups.get(groupId!);
+        if (!group || !(isMember(user, group.id) || isAdmin(user))) {
+          return new Response("Group not found", { status: 404 });
+        }
+        const isOwner = group.ownerId === user.id || isAdmin(user);
+
+        if (action === "leave") {
+          if (group.ownerId === user.id) {
+            return new Response(
+              "The owner can't leave, delete the group instead",
+              { status: 400 },
+            );
+          }
+          group.memberIds = group.memberIds.filter((id) => id !== user.id);
+          appState.groups.set(group.id, group);
+          await saveState();
+          return new Response(null, {
+            status: 302,
+            headers: { Location: "/groups" },
+          });
+        }
+
+        if (!isOwner) {
+          return new Response("Only the owner can do that", { status: 403 });
+        }
+
+        if (action === "delete") {
+          // Problems keep the deleted group's id, so they stay hidden until
+          // their authors publish them somewhere else
+          appState.groups.delete(group.id);
+          await saveState();
+          return new Response(null, {
+            status: 302,
+            headers: { Location: "/groups" },
+          });
+        }
+
+        if (action === "invite") {
+          group.inviteCode = generateId();
+        } else if (action === "remove") {
+          if (memberId === group.ownerId) {
+            return new Response("The owner can't be removed", { status: 400 });
+          }
+          group.memberIds = group.memberIds.filter((id) => id !== memberId);
+        }
+        appState.groups.set(group.id, group);
+        await saveState();
+
+        return new Response(null, {
+          status: 302,
+          headers: { Location: `/group/${group.id}` },
+        });
+      }
+
+      // Join a group with an invite link
+      if (url.pathname.match(/^\/join\/[^\/]+$/)) {
+        const code = url.pathname.split("/")[2]!;
+        const group = Array.from(appState.groups.values()).find(
+          (g) => g.inviteCode === code,
+        );
+        if (!group) {
+          return new Response("This invite link is invalid or was replaced", {
+            status: 404,
+          });
+        }
+
+        if (req.method === "GET") {
+          if (!user) {
+            return Response.redirect(
+              "/login?return=" + encodeURIComponent(url.pathname),
+            );
+          }
+          if (group.memberIds.includes(user.id)) {
+            return Response.redirect(`/group/${group.id}`);
+          }
+
+          const content = markup`
+          <h1>$ join ${group.name}</h1>
+          <p>> ${userLink(appState.users.get(group.ownerId))} invited you to join <strong>${group.name}</strong>. members see the problems published to the group and appear on its leaderboard.</p>
+          <form action="/join/${code}" method="post">
+            ${csrf}
+            <button type="submit">join group</button>
+          </form>
+        `;
+          return new Response(page(content, user, csrf), {
+            headers: { "Content-Type": "text/html" },
+          });
+        }
+
+        if (req.method === "POST") {
+          if (!user) {
+            return new Response("Unauthorized", { status: 401 });
+          }
+          if (!group.memberIds.includes(user.id)) {
+            group.memberIds.push(user.id);
+            appState.groups.set(group.id, group);
+            await saveState();
+          }
+          return new Response(null, {
+            status: 302,
+            headers: { Location: `/group/${group.id}` },
+          });
+        }
+      }
+
+      // Contests
+      if (url.pathname === "/contests" && req.method === "GET") {
+        const contests = Array.from(appState.contests.values()).sort(
+          (a, b) => b.startAt - a.startAt,
+        );
+
+        const content = markup`
+        <h1>$ contests</h1>
+        <p>> timed problem sets with an ICPC-style scoreboard: most problems solved wins, then the least penalty time${user && markup` • <a href="/new-contest">new contest</a>`}</p>
+        ${
+          contests.length === 0
+            ? markup`<p class="stats">no contests yet</p>`
+            : contests.map(
+                (contest) => markup`
+                  <div class="problem">
+                    <h3><a href="/contest/${contest.id}">${contest.title}</a></h3>
+                    <div class="problem-meta">by ${userLink(appState.users.get(contest.authorId))} • ${new Date(contest.startAt).toUTCString()} • ${contest.problemIds.length} problems</div>
+                    <div class="stats">${formatContestStatus(contest)}</div>
+                  </div>
+                `,
+              )
+        }
+      `;
+        return new Response(page(content, user, csrf), {
+          headers: { "Content-Type": "text/html" },
+        });
+      }
+
+      if (url.pathname === "/new-contest" && req.method === "GET") {
+        if (!user) {
+          return Response.redirect(
+            "/login?return=" + encodeURIComponent(url.pathname),
+          );
+        }
+
+        const content = markup`
+        <h1>$ new contest</h1>
+        ${contestForm(user, csrf!)}
+      `;
+        return new Response(page(content, user, csrf), {
+          headers: { "Content-Type": "text/html" },
+        });
+      }
+
+      if (url.pathname === "/new-contest" && req.method === "POST") {
+        if (!user) {
+          return new Response("Unauthorized", { status: 401 });
+        }
+
+        let fields: ReturnType<typeof parseContestForm>;
+        try {
+          fields = parseContestForm(await req.formData(), user);
+        } catch (e) {
+          return new Response((e as Error).message, { status: 400 });
+        }
+
+        const contest: Contest = {
+          id: generateId(),
+          ...fields,
+          authorId: user.id,
+          createdAt: Date.now(),
+        };
+        appState.contests.set(contest.id, contest);
+        await saveState();
+
+        return new Response(null, {
+          status: 302,
+          headers: { Location: `/contest/${contest.id}` },
+        });
+      }
+
+      // Contest page with the live scoreboard
+      if (url.pathname.match(/^\/contest\/[^\/]+$/) && req.method === "GET") {
+        const contest = appState.contests.get(url.pathname.split("/")[2]!);
+        if (!contest) {
+          return new Response("Contest not found", { status: 404 });
+        }
+
+        const isRunning =
+          Date.now() >= contest.startAt && Date.now() < contest.endAt;
+        return new Response(
+          page(
+            contestPage(contest, user, csrf),
+            user,
+            csrf,
+            isRunning ? 30 : undefined,
+          ),
+          { headers: { "Content-Type": "text/html" } },
+        );
+      }
+
+      // Delete a contest; its problems are kept
+      if (
+        url.pathname.match(/^\/contest\/[^\/]+\/delete$/) &&
+        req.method === "POST"
+      ) {
+        const contest = appState.contests.get(url.pathname.split("/")[2]!);
+        if (!contest) {
+          return new Response("Contest not found", { status: 404 });
+        }
+        if (!user || (contest.authorId !== user.id && !isAdmin(user))) {
+          return new Response("Unauthorized", { status: 403 });
+        }
+
+        appState.contests.delete(contest.id);
+        await saveState();
+
+        return new Response(null, {
+          status: 302,
+          headers: { Location: "/contests" },
+        });
+      }
+
+      // Admin page
+      if (url.pathname === "/admin" && req.method === "GET") {
+        if (!user || !isAdmin(user)) {
+          return new Response("Unauthorized", { status: 403 });
+        }
+
+        const recentSubs = Array.from(appState.submissions.values())
+          .sort((a, b) => b.submittedAt - a.submittedAt)
+          .slice(0, 20);
+        const recentPosts = Array.from(appState.posts.values())
+          .sort((a, b) => b.createdAt - a.createdAt)
+          .slice(0, 20);
+        const deliveries = Array.from(appState.deliveries.values()).sort(
+          (a, b) => b.createdAt - a.createdAt,
+        );
+
+        const content = markup`
+        <h1>$ admin</h1>
+
+        <h2>users</h2>
+        <p>${appState.users.size} total</p>
+        <div style="max-height: 300px; overflow-y: auto; background: #161b22; padding: 10px; margin: 10px 0;">
+          ${Array.from(
+            appState.users,
+            ([id, u]) => markup`
+            <div style="margin: 5px 0;">
+              <code>${u.username}</code> (id: ${id.slice(0, 8)}...)
+              <form action="/admin/delete-user/${id}" method="post" style="display: inline; margin-left: 10px;">
+                ${csrf}
+                <button type="submit" class="small-button" onclick="return confirm('Delete user and all their data?')">delete</button>
+              </form>
+            </div>
+          `,
+          )}
+        </div>
+
+        <h2>problems</h2>
+        <p>${appState.problems.size} total</p>
+        <div style="max-height: 300px; overflow-y: auto; background: #161b22; padding: 10px; margin: 10px 0;">
+          ${Array.from(appState.problems, ([id, p]) => {
+            const author = appState.users.get(p.authorId);
+            const stats = getProblemStats(p);
+            return markup`
+              <div style="margin: 5px 0;">
+                <strong>${p.title}</strong> by @${author?.username || "unknown"} • ${stats.attempts} attempts, ${stats.solves} solves
+                <form action="/admin/delete-problem/${id}" method="post" style="display: inline; margin-left: 10px;">
+                  ${csrf}
+                  <button type="submit" class="small-button" onclick="return confirm('Delete problem and all submissions?')">delete</button>
+                </form>
+              </div>
+            `;
+          })}
+        </div>
+
+        <h2>submissions</h2>
+        <p>${appState.submissions.size} total</p>
+        <div style="max-height: 300px; overflow-y: auto; background: #161b22; padding: 10px; margin: 10px 0;">
+          ${recentSubs.map((sub) => {
+            const u = appState.users.get(sub.userId);
+            const p = appState.problems.get(sub.problemId);
+            return markup`
+              <div style="margin: 5px 0;">
+                @${u?.username || "unknown"} → "${p?.title || "unknown"}" • ${sub.code ? `${LANGUAGES[sub.code.language]} program` : markup`<code>${sub.answer}</code>`} ${sub.isCorrect ? "✓" : "✗"}
+                <form action="/admin/delete-submission/${sub.id}" method="post" style="display: inline; margin-left: 10px;">
+                  ${csrf}
+                  <button type="submit" class="small-button">delete</button>
+                </form>
+              </div>
+            `;
+          })}
+        </div>
+
+        <h2>posts</h2>
+        <p>${appState.posts.size} total</p>
+        <div style="max-height: 300px; overflow-y: auto; background: #161b22; padding: 10px; margin: 10px 0;">
+          ${recentPosts.map((post) => {
+            const u = appState.users.get(post.authorId);
+            const p = appState.problems.get(post.problemId);
+            return markup`
+              <div style="margin: 5px 0;">
+                @${u?.username || "unknown"} → <a href="/problem/${post.problemId}#post-${post.id}">${p?.title || "unknown"}</a> • ${new Date(post.createdAt).toLocaleString()}
+                <form action="/admin/delete-post/${post.id}" method="post" style="display: inline; margin-left: 10px;">
+                  ${csrf}
+                  <button type="submit" class="small-button" onclick="return confirm('Delete this post?')">delete</button>
+                </form>
+                <pre>${post.body.length > 300 ? `${post.body.slice(0, 300)}…` : post.body}</pre>
+              </div>
+            `;
+          })}
+        </div>
+
+        <h2>sessions</h2>
+        <p>${appState.sessions.size} total</p>
+
+        <h2>import / export</h2>
+        <form action="/admin/import-problems" method="post" enctype="multipart/form-data">
+          ${csrf}
+          <label>problem bundle:</label>
+          <input type="file" name="bundle" accept=".json" required>
+          <label><input type="checkbox" name="keepAuthors" value="1" checked> give problems to users with their author's username, if there is one (otherwise they're yours)</label>
+          <button type="submit">import problems</button>
+        </form>
+        <p>> <a href="/admin/backup">download a backup</a> of everything but sessions</p>
+        <form action="/admin/restore" method="post" enctype="multipart/form-data">
+          ${csrf}
+          <label>restore a backup or a data.json, replacing everything but sessions:</label>
+          <input type="file" name="backup" accept=".json" required>
+          <button type="submit" onclick="return confirm('Replace all users, problems and submissions with the backup?')">restore</button>
+        </form>
+
+        <h2>webhooks</h2>
+        ${Array.from(
+          appState.webhooks.values(),
+          (webhook) => markup`
+            <div style="margin: 5px 0;">
+              <code>${webhook.url}</code> • ${WEBHOOK_FORMATS[webhook.format]} • ${webhook.events.map((e) => WEBHOOK_EVENTS[e]).join(", ")}
+              <form action="/admin/webhooks/${webhook.id}/delete" method="post" style="display: inline; margin-left: 10px;">
+                ${csrf}
+                <button type="submit" class="small-button">delete</button>
+              </form>
+            </div>
+          `,
+        )}
+        <form action="/admin/webhooks" method="post">
+          ${csrf}
+          <label>URL to POST JSON to:</label>
+          <input type="url" name="url" required placeholder="https://discord.com/api/webhooks/...">
+          <label>payload:</label>
+          <select name="format">
+            ${Object.entries(WEBHOOK_FORMATS).map(([value, label]) => markup`<option value="${value}">${label}</option>`)}
+          </select>
+          <label>send on:</label>
+          ${Object.entries(WEBHOOK_EVENTS).map(([value, label]) => markup`<label><input type="checkbox" name="events" value="${value}" checked> ${label}</label>`)}
+          <button type="submit">add webhook</button>
+        </form>
+
+        <h2>deliveries</h2>
+        <p>${deliveries.length === 0 ? "> nothing sent yet" : `the last ${MAX_DELIVERIES} are kept`}</p>
+        <div style="max-height: 300px; overflow-y: auto; background: #161b22; padding: 10px; margin: 10px 0;">
+          ${deliveries.map((delivery) => {
+            const p = appState.problems.get(delivery.problemId);
+            const result =
+              delivery.status === undefined
+                ? delivery.error
+                : `HTTP ${delivery.status}`;
+            return markup`
+              <div style="margin: 5px 0;">
+                ${delivery.ok ? "✓" : "✗"} ${new Date(delivery.lastAttemptAt).toLocaleString()} • ${WEBHOOK_EVENTS[delivery.event]} • ${p?.title || "deleted problem"} → <code>${delivery.url}</code> • ${result}${delivery.attempts > 1 && ` after ${delivery.attempts} attempts`}${delivery.nextAttemptAt && ` • retrying at ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`}
+              </div>
+            `;
+          })}
+        </div>
+      `;
+
+        return new Response(page(content, user, csrf), {
+          headers: { "Content-Type": "text/html" },
+        });
+      }
+
+      // New problem page
+      if (url.pathname === "/new-problem" && req.method === "GET") {
+        if (!user) {
+          return Response.redirect(
+            "/login?return=" + encodeURIComponent(url.pathname),
+          );
+        }
+
+        const content = markup`
+        <h1>$ new problem</h1>
+        ${problemForm({
+          action: "/new-problem",
+          partCount: parseCount(url.searchParams.get("parts"), 1, MAX_PARTS),
+          inputCount: parseCount(
+            url.searchParams.get("inputs"),
+            1,
+            MAX_INPUT_SLOTS,
+          ),
+          submitLabel: "create problem",
+          groups: getPublishableGroups(user),
+          csrf,
+        })}
+
+        <h2>import</h2>
+        <form action="/import-problems" method="post" enctype="multipart/form-data">
+          ${csrf}
+          <label>problem bundle, as exported from a problem page or profile here or on another instance:</label>
+          <input type="file" name="bundle" accept=".json" required>
+          <button type="submit">import problems</button>
+        </form>
+      `;
+
+        return new Response(page(content, user, csrf), {
+          headers: { "Content-Type": "text/html" },
+        });
+      }
+
+      // Create problem
+      if (url.pathname === "/new-problem" && req.method === "POST") {
+        if (!user) {
+          return Response.redirect(
+            "/login?return=" + encodeURIComponent("/new-problem"),
+          );
+        }
+
+        const formData = await req.formData();
+
+        if (formData.get("preview")) {
+          const values = readProblemDraft(formData);
+          const content = markup`
+          <h1>$ new problem</h1>
+          ${problemPreview(values, true)}
+          ${problemForm({
+            action: "/new-problem",
+            values,
+            partCount: values.parts.length,
+            inputCount: values.inputs.length,
+            submitLabel: "create problem",
+            groups: getPublishableGroups(user),
+            csrf,
+          })}
+        `;
+          return new Response(page(content, user, csrf), {
+            headers: { "Content-Type": "text/html" },
+          });
+        }
+
+        let content: ProblemContent;
+        try {
+          content = await parseProblemForm(formData, user);
+        } catch (e) {
+          return new Response((e as Error).message, { status: 400 });
+        }
+
+        const problem: Problem = {
+          id: generateId(),
+          ...content,
+          authorId: user.id,
+          createdAt: Date.now(),
+          announced: false,
+        };
+
+        appState.problems.set(problem.id, problem);
+        announceProblems();
+        await saveState();
+
+        return new Response(null, {
+          status: 302,
+          headers: { Location: `/problem/${problem.id}` },
+        });
+      }
+
+      // Import a problem bundle as the user's own problems
+      if (url.pathname === "/import-problems" && req.method === "POST") {
+        if (!user) {
+          return new Response("Unauthorized", { status: 401 });
+        }
+
+        const file = (await req.formData()).get("bundle") as File | null;
+        let result: ReturnType<typeof importProblems>;
+        try {
+          const bundled = parseProblemBundle((await file?.text()) ?? "");
+          const own = Array.from(appState.problems.values()).filter(
+            (p) => p.authorId === user.id,
+          );
+          result = importProblems(bundled, own, () => user);
+        } catch (e) {
+          return new Response(`Invalid bundle: ${(e as Error).message}`, {
+            status: 400,
+          });
+        }
+        await saveState();
+
+        return new Response(page(importResults(result), user, csrf), {
+          headers: { "Content-Type": "text/html" },
+        });
+      }
+
+      // Download input file (must come before general problem route)
+      if (
+        url.pathname.match(/^\/problem\/[^\/]+\/download$/) &&
+        req.method === "GET"
+      ) {
+        const problemId = url.pathname.split("/")[2]!;
+        const problem = appState.problems.get(problemId);
+
+        // Judge problems have no inputs to download
+        if (!problem || !canView(user, problem) || problem.judge) {
+          return new Response("Input file not found", { status: 404 });
+        }
+
+        // With several inputs we need to know whose input to hand out
+        if (!user && problem.inputs.length > 1) {
+          return Response.redirect(
+            "/login?return=" + encodeURIComponent(`/problem/${problem.id}`),
+          );
+        }
+
+        const { input } = user
+          ? getAssignedInput(user.id, problem)
+          : { input: problem.inputs[0]! };
+
+        if (!input.inputFile) {
+          return new Response("Input file not found", { status: 404 });
+        }
+
+        const filename =
+          input.inputFileName ||
+          `${problem.title.replace(/[^a-z0-9]/gi, "_")}_input.txt`;
+
+        return new Response(input.inputFile, {
+          headers: {
+            "Content-Type": "text/plain",
+            "Content-Disposition": `attachment; filename="${filename}"`,
+          },
+        });
+      }
+
+      // Export a problem as a bundle
+      if (
+        url.pathname.match(/^\/problem\/[^\/]+\/export$/) &&
+        req.method === "GET"
+      ) {
+        const problem = appState.problems.get(url.pathname.split("/")[2]!);
+        if (!problem) {
+          return new Response("Problem not found", { status: 404 });
+        }
+        if (!user || (problem.authorId !== user.id && !isAdmin(user))) {
+          return new Response("Unauthorized", { status: 403 });
+        }
+
+        return downloadResponse(
+          createProblemBundle([bundleProblem(problem)]),
+          `${problem.title.replace(/[^a-z0-9]/gi, "_")}.json`,
+        );
+      }
+
+      // Edit problem page
+      if (
+        url.pathname.match(/^\/problem\/[^\/]+\/edit$/) &&
+        req.method === "GET"
+      ) {
+        if (!user) {
+          return Response.redirect(
+            "/login?return=" + encodeURIComponent(url.pathname),
+          );
+        }
+
+        const problemId = url.pathname.split("/")[2]!;
+        const problem = appState.problems.get(problemId);
+
+        if (!problem) {
+          return new Response("Problem not found", { status: 404 });
+        }
+
+        // Only allow editing your own problems
+        if (problem.authorId !== user.id) {
+          return new Response("Unauthorized", { status: 403 });
+        }
+
+        const content = markup`
+        <h1>$ edit problem</h1>
+        <p>> <a href="/problem/${problem.id}">back to problem</a> • <a href="/problem/${problem.id}/history">revision history</a></p>
+        ${problemForm({
+          action: url.pathname,
+          problem,
+          partCount: parseCount(url.searchParams.get("parts"), 1, MAX_PARTS),
+          inputCount: parseCount(
+            url.searchParams.get("inputs"),
+            1,
+            MAX_INPUT_SLOTS,
+          ),
+          submitLabel: "save changes",
+          groups: getPublishableGroups(user, problem),
+          csrf,
+        })}
+      `;
+
+        return new Response(page(content, user, csrf), {
+          headers: { "Content-Type": "text/html" },
+        });
+      }
+
+      // Save problem edit
+      if (
+        url.pathname.match(/^\/problem\/[^\/]+\/edit$/) &&
+        req.method === "POST"
+      ) {
+        if (!user) {
+          return Response.redirect(
+            "/login?return=" + encodeURIComponent(url.pathname),
+          );
+        }
+
+        const problemId = url.pathname.split("/")[2]!;
+        const problem = appState.problems.get(problemId);
+
+        if (!problem) {
+          return new Response("Problem not found", { status: 404 });
+        }
+
+        if (problem.authorId !== user.id) {
+          return new Response("Unauthorized", { status: 403 });
+        }
+
+        const formData = await req.formData();
+
+        if (formData.get("preview")) {
+          const values = readProblemDraft(formData, problem);
+          const content = markup`
+          <h1>$ edit problem</h1>
+          <p>> <a href="/problem/${problem.id}">back to problem</a> • <a href="/problem/${problem.id}/history">revision history</a></p>
+          ${problemPreview(values, false)}
+          ${problemForm({
+            action: url.pathname,
+            problem,
+            values,
+            partCount: values.parts.length,
+            inputCount: values.inputs.length,
+            submitLabel: "save changes",
+            groups: getPublishableGroups(user, problem),
+            csrf,
+          })}
+        `;
+          return new Response(page(content, user, csrf), {
+            headers: { "Content-Type": "text/html" },
+          });
+        }
+
+        let content: ProblemContent;
+        try {
+          content = await parseProblemForm(formData, user, problem);
+        } catch (e) {
+          return new Response((e as Error).message, { status: 400 });
+        }
+
+        // Keep the old value of every field that changed
+        const previous: Partial<ProblemContent> = {};
+        for (const key of [
+          "title",
+          "parts",
+          "inputs",
+          "checker",
+          "numericHints",
+          "judge",
+          "releaseAt",
+          "groupIds",
+          "tags",
+          "difficulty",
+          "hints",
+          "hintPenaltyMinutes",
+        ] as const) {
+          if (JSON.stringify(problem[key]) !== JSON.stringify(content[key])) {
+            Object.assign(previous, { [key]: problem[key] });
+          }
+        }
+
+        if (Object.keys(previous).length > 0) {
+          const gradingChanged =
+            previous.checker !== undefined ||
+            (previous.inputs !== undefined &&
+              JSON.stringify(previous.inputs.map((i) => i.correctAnswers)) !==
+                JSON.stringify(content.inputs.map((i) => i.correctAnswers)));
+
+          Object.assign(problem, content);
+          appState.problems.set(problem.id, problem);
+
+          const revision: ProblemRevision = {
+            id: generateId(),
+            problemId: problem.id,
+            editorId: user.id,
+            editedAt: Date.now(),
+            previous,
+            regraded:
+              formData.get("regrade") === "1" && gradingChanged
+                ? regradeSubmissions(problem)
+                : undefined,
+          };
+          appState.revisions.set(revision.id, revision);
+          // Moving the release earlier or leaving all groups can make it public
+          announceProblems();
+          await saveState();
+        }
+
+        return new Response(null, {
+          status: 302,
+          headers: { Location: `/problem/${problem.id}` },
+        });
+      }
+
+      // Problem revision history
+      if (
+        url.pathname.match(/^\/problem\/[^\/]+\/history$/) &&
+        req.method === "GET"
+      ) {
+        const problemId = url.pathname.split("/")[2]!;
+        const problem = appState.problems.get(problemId);
+
+        if (!problem) {
+          return new Response("Problem not found", { status: 404 });
+        }
+
+        // Old revisions contain old answers, so only the author and admins
+        if (!user || (problem.authorId !== user.id && !isAdmin(user))) {
+          return new Response("Unauthorized", { status: 403 });
+        }
+
+        const revisions = Array.from(appState.revisions.values())
+          .filter((r) => r.problemId === problem.id)
+          .sort((a, b) => b.editedAt - a.editedAt);
+
+        const content = [
+          markup`
+          <h1>$ history: ${problem.title}</h1>
+          <p>> <a href="/problem/${problem.id}">back to problem</a></p>
+        `,
+        ];
+
+        if (revisions.length === 0) {
+          content.push(markup`<p>> no edits yet</p>`);
+        }
+
+        for (const revision of revisions) {
+          const { previous } = revision;
+          const fieldNames: Record<string, string> = {
+            releaseAt: "release time",
+            numericHints: "numeric hints",
+            hintPenaltyMinutes: "hint penalty",
+            groupIds: "groups",
+          };
+          const changed = Object.keys(previous).map(
+            (key) => fieldNames[key] ?? key,
+          );
+
+          const details: SafeHtml[] = [];
+          if (previous.title !== undefined) {
+            details.push(markup`<p>title was: ${previous.title}</p>`);
+          }
+          previous.parts?.forEach((part, i) => {
+            details.push(
+              markup`<p>part ${i + 1} description was:</p><pre>${part.description}</pre>`,
+            );
+          });
+          previous.inputs?.forEach((input, i) => {
+            details.push(
+              markup`<p>input #${i + 1} answers were: ${input.correctAnswers.map((a) => markup`<code>${a}</code> `)}${input.inputFileName && ` (file: ${input.inputFileName})`}</p>`,
+            );
+          });
+          if (previous.checker) {
+            details.push(
+              markup`<p>answer checker was: ${formatChecker(previous.checker)}</p>`,
+            );
+          }
+          if (previous.numericHints !== undefined) {
+            details.push(
+              markup`<p>numeric hints were: ${previous.numericHints ? "on" : "off"}</p>`,
+            );
+          }
+          if ("judge" in previous) {
+            const judge = previous.judge;
+            details.push(
+              markup`<p>judge mode was: ${judge ? `on, ${judge.tests.map((t) => t.length).join(" + ")} tests, ${judge.timeLimitMs} ms, ${judge.memoryLimitMb} MB` : "off"}</p>`,
+            );
+          }
+          if ("releaseAt" in previous) {
+            details.push(
+              markup`<p>release time was: ${previous.releaseAt ? new Date(previous.releaseAt).toUTCString() : "none"}</p>`,
+            );
+          }
+          if ("groupIds" in previous) {
+            const names = (previous.groupIds ?? []).map(
+              (id) => appState.groups.get(id)?.name ?? "deleted group",
+            );
+            details.push(
+              markup`<p>published to: ${names.length > 0 ? names.join(", ") : "everyone"}</p>`,
+            );
+          }
+          if ("tags" in previous) {
+            details.push(
+              markup`<p>tags were: ${previous.tags?.join(", ") || "none"}</p>`,
+            );
+          }
+          if ("hints" in previous) {
+            details.push(
+              markup`<p>hints were:</p>${(previous.hints ?? []).map((hint, i) => markup`<p class="stats">hint ${i + 1}, revealed ${formatHintCondition(hint)}:</p><pre>${hint.text}</pre>`)}${!previous.hints && markup`<p class="stats">none</p>`}`,
+            );
+          }
+          if ("hintPenaltyMinutes" in previous) {
+            details.push(
+              markup`<p>hint penalty was: ${previous.hintPenaltyMinutes ?? 0} minutes</p>`,
+            );
+          }
+          if ("difficulty" in previous) {
+            details.push(
+              markup`<p>difficulty was: ${previous.difficulty ? DIFFICULTIES[previous.difficulty - 1] : "not rated"}</p>`,
+            );
+          }
+
+          content.push(markup`
+          <div class="submission">
+            ${new Date(revision.editedAt).toLocaleString()} by ${userLink(appState.users.get(revision.editorId))}
+            • changed ${changed.join(", ")}
+            ${revision.regraded !== undefined && ` • re-graded, ${revision.regraded} ${revision.regraded === 1 ? "verdict" : "verdicts"} changed`}
+            <details>
+              <summary>previous version</summary>
+              ${details}
+            </details>
+          </div>
+        `);
+        }
+
+        return new Response(page(content, user, csrf), {
+          headers: { "Content-Type": "text/html" },
+        });
+      }
+
+      // View problem
+      if (url.pathname.startsWith("/problem/") && req.method === "GET") {
+        const problemId = url.pathname.split("/")[2]!;
+        const problem = appState.problems.get(problemId);
+
+        // Problems of other groups don't exist as far as outsiders know
+        if (
+          !problem ||
+          (!canView(user, problem) && !isInAudience(user, problem))
+        ) {
+          return new Response("Problem not found", { status: 404 });
+        }
+
+        if (!canView(user, problem)) {
+          const content = markup`
+          <h1>$ upcoming problem</h1>
+          <p>> unlocks in ${formatDuration(getProblemStartTime(problem) - Date.now())} (${new Date(getProblemStartTime(problem)).toUTCString()})</p>
+          <p class="stats">reload this page once the countdown is over</p>
+        `;
+          return new Response(page(content, user, csrf), {
+            headers: { "Content-Type": "text/html" },
+          });
+        }
+
+        const author = appState.users.get(problem.authorId);
+        const stats = getProblemStats(problem);
+        const submissions = user
+          ? appState.submissions
+              .forProblemAndUser(problem.id, user.id)
+              .sort((a, b) => b.submittedAt - a.submittedAt)
+          : [];
+        const solvedParts = user ? getSolvedPartCount(user.id, problem) : 0;
+        const isMultiPart = problem.parts.length > 1;
+        const cooldownLeft = user
+          ? getCooldownEnd(user.id, problem, solvedParts) - Date.now()
+          : 0;
+
+        // Authors see every part; everyone else sees up to their current one
+        const visibleParts =
+          user && problem.authorId === user.id
+            ? problem.parts.length
+            : Math.min(solvedParts + 1, problem.parts.length);
+
+        const isAuthor = user !== null && problem.authorId === user.id;
+        const contest = getProblemContest(problem.id);
+        const content = [
+          markup`
+          <h1>${problem.title}</h1>
+          <div class="problem-meta">
+            by ${userLink(author)} • ${new Date(getProblemStartTime(problem)).toLocaleDateString()}${formatGroups(problem)}${contest && markup` • contest: <a href="/contest/${contest.id}">${contest.title}</a>`}${formatDifficulty(problem, getVoteTotals().get(problem.id))}${formatTags(problem)}
+            ${
+              isAuthor &&
+              markup`
+                <a href="/problem/${problem.id}/edit" style="margin-left: 15px;">edit</a>
+                • <a href="/problem/${problem.id}/history">history</a>
+                • <a href="/problem/${problem.id}/export">export</a>
+                <form action="/problem/${problem.id}/delete" method="post" style="display: inline; margin-left: 15px;">
+                  ${csrf}
+                  <button type="submit" class="small-button" onclick="return confirm('Delete this problem? This will also delete all submissions.')">delete problem</button>
+                </form>
+              `
+            }
+          </div>
+          <div class="stats">
+            ${formatStats(problem, stats)}
+          </div>
+        `,
+        ];
+
+        if (!isReleased(problem)) {
+          content.push(markup`
+          <div class="alert">
+            preview — releases in ${formatDuration(getProblemStartTime(problem) - Date.now())} (${new Date(getProblemStartTime(problem)).toUTCString()}). only you and admins can see it until then.
+          </div>
+        `);
+        }
+
+        if (contest && Date.now() >= contest.endAt) {
+          content.push(markup`
+          <p class="stats">${contest.title} is over, so answers no longer change its scoreboard</p>
+        `);
+        }
+
+        for (let part = 0; part < visibleParts; part++) {
+          content.push(markup`
+          <h2>${isMultiPart ? `part ${part + 1}` : "description"}</h2>
+          <div class="markdown">${renderMarkdown(problem.parts[part]!.description)}</div>
+          ${isMultiPart && part < solvedParts && markup`<p class="stats">✓ part ${part + 1} solved</p>`}
+        `);
+        }
+
+        if (problem.inputs.some((i) => i.inputFile)) {
+          if (user) {
+            const { input } = getAssignedInput(user.id, problem);
+            if (input.inputFile) {
+              content.push(markup`
+              <h2>input file</h2>
+              <p>> <a href="/problem/${problem.id}/download">${input.inputFileName || "download"}</a></p>
+              ${problem.inputs.length > 1 && markup`<p class="stats">this input is yours — other solvers get a different one</p>`}
+            `);
+            }
+          } else if (problem.inputs.length === 1) {
+            content.push(markup`
+            <h2>input file</h2>
+            <p>> <a href="/problem/${problem.id}/download">${problem.inputs[0]!.inputFileName || "download"}</a></p>
+          `);
+          }
+        }
+
+        const hints = hintsSection(problem, user, csrf);
+        if (hints) content.push(hints);
+
+        if (user) {
+          if (!isReleased(problem)) {
+            content.push(markup`<p>> submissions open at release</p>`);
+          } else if (solvedParts === problem.parts.length) {
+            const vote = appState.votes.get(`${problem.id}:${user.id}`);
+            content.push(markup`
+            <div class="success">
+              ✓ you've solved this problem
+            </div>
+            ${
+              !isAuthor &&
+              markup`
+                <form action="/problem/${problem.id}/vote" method="post" class="filters">
+                  ${csrf}
+                  <span class="stats">how hard was it?</span>
+                  <select name="difficulty">
+                    ${DIFFICULTIES.map((label, i) => markup`<option value="${i + 1}" ${vote?.difficulty === i + 1 && "selected"}>${label}</option>`)}
+                  </select>
+                  <button type="submit">${vote ? "change vote" : "vote"}</button>
+                </form>
+              `
+            }
+          `);
+          } else if (cooldownLeft > 0) {
+            content.push(markup`
+            <div class="alert">
+              that's not the right answer. please wait ${formatDuration(cooldownLeft)} before trying again${isMultiPart && ` on part ${solvedParts + 1}`} — reload the page once it's over
+            </div>
+          `);
+          } else if (problem.judge) {
+            content.push(markup`
+            <h2>submit a program${isMultiPart && ` for part ${solvedParts + 1}`}</h2>
+            <p class="stats">read the input from stdin and print the answer • ${problem.judge.tests[solvedParts]?.length} hidden tests • ${problem.judge.timeLimitMs} ms and ${problem.judge.memoryLimitMb} MB per test • no network access</p>
+            <form action="/problem/${problem.id}/submit" method="post">
+              ${csrf}
+              <input type="hidden" name="part" value="${solvedParts}">
+              <select name="language">
+                ${Object.entries(LANGUAGES).map(([value, name]) => markup`<option value="${value}">${name}</option>`)}
+              </select>
+              <textarea name="source" required autofocus placeholder="const input = await Bun.stdin.text();"></textarea>
+              <button type="submit">submit</button>
+            </form>
+          `);
+          } else {
+            const checker = getChecker(problem.checker.type);
+            content.push(markup`
+            <h2>submit answer${isMultiPart && ` for part ${solvedParts + 1}`}</h2>
+            ${problem.checker.type !== DEFAULT_CHECKER.type && checker && markup`<p class="stats">answers are checked as: ${formatChecker(problem.checker)} — ${checker.hint}</p>`}
+            <form action="/problem/${problem.id}/submit" method="post">
+              ${csrf}
+              <input type="hidden" name="part" value="${solvedParts}">
+              ${
+                checker?.multiline
+                  ? markup`<textarea name="answer" required autofocus placeholder="your answer..."></textarea>`
+                  : markup`<input type="text" name="answer" required autofocus placeholder="your answer...">`
+              }
+              <button type="submit">submit</button>
+            </form>
+          `);
+          }
+
+          if (submissions.length > 0) {
+            content.push(markup`<h2>your submissions</h2>`);
+            for (const sub of submissions) {
+              if (sub.code) {
+                content.push(judgedSubmission(sub, isMultiPart));
+                continue;
+              }
+              content.push(markup`
+              <div class="submission ${sub.isCorrect ? "correct" : "incorrect"}">
+                ${sub.isCorrect ? "✓ correct" : "✗ incorrect"}${sub.hint && ` — your answer is ${sub.hint}`}${isMultiPart && ` • part ${sub.part + 1}`} • <code>${sub.answer}</code> • ${new Date(sub.submittedAt).toLocaleString()}
+              </div>
+            `);
+            }
+          }
+        } else {
+          content.push(
+            markup`<p>> <a href="/login?return=${encodeURIComponent(url.pathname)}">login</a> to submit answers</p>`,
+          );
+        }
+
+        // Leaderboard, defaulting to the last part (i.e. the full solve)
+        const leaderboardPart =
+          Math.min(
+            Math.max(parseInt(url.searchParams.get("part") || "") || 0, 0),
+            problem.parts.length,
+          ) || problem.parts.length;
+        const leaderboard = getProblemLeaderboard(problem, leaderboardPart - 1);
+
+        content.push(markup`<h2>leaderboard</h2>`);
+        if (isMultiPart) {
+          content.push(
+            markup`<p class="stats">${problem.parts.map((_, i) => [
+              i > 0 && " • ",
+              i + 1 === leaderboardPart
+                ? markup`<strong>part ${i + 1}</strong>`
+                : markup`<a href="/problem/${problem.id}?part=${i + 1}">part ${i + 1}</a>`,
+            ])}</p>`,
+          );
+        }
+
+        if (leaderboard.length === 0) {
+          content.push(markup`<p>> no solves yet</p>`);
+        } else {
+          const hasHints = !!problem.hints?.length;
+          const rows = leaderboard.slice(0, LEADERBOARD_SIZE).map((entry) => {
+            const name = userLink(appState.users.get(entry.userId));
+            return markup`
+            <tr>
+              <td>${entry.rank}</td>
+              <td>${user && entry.userId === user.id ? markup`<strong>${name}</strong>` : name}</td>
+              <td>${formatDuration(entry.elapsedMs + entry.penaltyMs)}</td>
+              <td>${entry.wrongAttempts}</td>
+              ${hasHints && markup`<td>${entry.hintsUsed}</td>`}
+            </tr>
+          `;
+          });
+          content.push(markup`
+          <table>
+            <tr><th>#</th><th>user</th><th>time</th><th>wrong attempts</th>${hasHints && markup`<th>hints</th>`}</tr>
+            ${rows}
+          </table>
+          ${problem.hintPenaltyMinutes && markup`<p class="stats">times include ${problem.hintPenaltyMinutes} minutes for each hint revealed before the solve</p>`}
+        `);
+        }
+
+        content.push(discussionSection(problem, user, csrf));
+
+        return new Response(page(content, user, csrf), {
+          headers: { "Content-Type": "text/html" },
+        });
+      }
+
+      // Submit answer
+      if (
+        url.pathname.match(/^\/problem\/[^\/]+\/submit$/) &&
+        req.method === "POST"
+      ) {
+        const problemId = url.pathname.split("/")[2]!;
+
+        if (!user) {
+          return Response.redirect(
+            "/login?return=" + encodeURIComponent(`/problem/${problemId}`),
+          );
+        }
+        const problem = appState.problems.get(problemId);
+
+        if (!problem || !canView(user, problem)) {
+          return new Response("Problem not found", { status: 404 });
+        }
+
+        const formData = await req.formData();
+        const result = await submitAnswer(user, problem, {
+          answer: formData.get("answer"),
+          part: formData.has("part") ? Number(formData.get("part")) : undefined,
+          language: formData.get("language"),
+          source: formData.get("source"),
+        });
+
+        // Answers for parts already solved (e.g. a resubmitted form) are ignored
+        if ("error" in result && result.status !== 409) {
+          return result.retryAfterMs !== undefined
+            ? tooManyRequests(result.retryAfterMs, result.error)
+            : new Response(result.error, { status: result.status });
+        }
+
+        return new Response(null, {
+          status: 302,
+          headers: { Location: `/problem/${problem.id}` },
+        });
+      }
+
+      // Difficulty vote, from solvers other than the author
+      if (
+        url.pathname.match(/^\/problem\/[^\/]+\/vote$/) &&
+        req.method === "POST"
+      ) {
+        const problemId = url.pathname.split("/")[2]!;
+
+        if (!user) {
+          return Response.redirect(
+            "/login?return=" + encodeURIComponent(`/problem/${problemId}`),
+          );
+        }
+        const problem = appState.problems.get(problemId);
+
+        if (!problem || !canView(user, problem)) {
+          return new Response("Problem not found", { status: 404 });
+        }
+        if (
+          problem.authorId === user.id ||
+          getSolvedPartCount(user.id, problem) < problem.parts.length
+        ) {
+          return new Response("Only solvers can vote on the difficulty", {
+            status: 403,
+          });
+        }
 
-      const tokenData = (await tokenResponse.json()) as GitHubTokenResponse;
-      const accessToken = tokenData.access_token;
+        const formData = await req.formData();
+        const difficulty = parseDifficulty(formData.get("difficulty"));
+        if (difficulty === undefined) {
+          return new Response("Invalid difficulty", { status: 400 });
+        }
+
+        appState.votes.set(`${problem.id}:${user.id}`, {
+          problemId: problem.id,
+          userId: user.id,
+          difficulty,
+          votedAt: Date.now(),
+        });
+        await saveState();
 
-      if (!accessToken) {
-        return new Response("Failed to get access token", { status: 500 });
+        return new Response(null, {
+          status: 302,
+          headers: { Location: `/problem/${problem.id}` },
+        });
       }
 
-      // Get user info
-      const userResponse = await fetch("https://api.github.com/user", {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          Accept: "application/json",
-        },
-      });
+      // Reveal the next hint
+      if (
+        url.pathname.match(/^\/problem\/[^\/]+\/hints$/) &&
+        req.method === "POST"
+      ) {
+        const problemId = url.pathname.split("/")[2]!;
+
+        if (!user) {
+          return Response.redirect(
+            "/login?return=" + encodeURIComponent(`/problem/${problemId}`),
+          );
+        }
+        const problem = appState.problems.get(problemId);
 
-      const githubUser = (await userResponse.json()) as GitHubUser;
+        if (!problem || !canView(user, problem)) {
+          return new Response("Problem not found", { status: 404 });
+        }
+        if (!isReleased(problem)) {
+          return new Response("Problem is not released yet", { status: 403 });
+        }
 
-      // Create or update user
-      let user = Array.from(appState.users.values()).find(
-        (u) => u.githubId === githubUser.id,
-      );
+        const formData = await req.formData();
+        const hints = problem.hints ?? [];
+        const index = getRevealedHints(user.id, problem).length;
+        // A resubmitted form doesn't reveal a second hint
+        if (
+          problem.authorId !== user.id &&
+          index < hints.length &&
+          Number(formData.get("hint")) === index
+        ) {
+          if (
+            getHintLock(
+              hints[index]!,
+              getWrongAnswerCount(user.id, problem),
+            ) !== null
+          ) {
+            return new Response("This hint is still locked", { status: 403 });
+          }
+          appState.reveals.set(`${problem.id}:${user.id}:${index}`, {
+            problemId: problem.id,
+            userId: user.id,
+            hint: index,
+            revealedAt: Date.now(),
+          });
+          await saveState();
+        }
 
-      if (!user) {
-        user = {
-          id: generateId(),
-          githubId: githubUser.id,
-          username: githubUser.login,
-          avatarUrl: githubUser.avatar_url,
-        };
-        appState.users.set(user.id, user);
-        await saveState();
+        return new Response(null, {
+          status: 302,
+          headers: { Location: `/problem/${problem.id}#hints` },
+        });
       }
 
-      // Create session
-      const sessionId = generateId();
-      appState.sessions.set(sessionId, {
-        userId: user.id,
-        expiresAt: Date.now() + 30 * 24 * 60 * 60 * 1000, // 30 days
-      });
+      // New discussion post
+      if (
+        url.pathname.match(/^\/problem\/[^\/]+\/posts$/) &&
+        req.method === "POST"
+      ) {
+        const problemId = url.pathname.split("/")[2]!;
+
+        if (!user) {
+          return Response.redirect(
+            "/login?return=" + encodeURIComponent(`/problem/${problemId}`),
+          );
+        }
+        const problem = appState.problems.get(problemId);
 
-      return new Response(null, {
-        status: 302,
-        headers: {
-          Location: returnTo,
-          "Set-Cookie": `session=${sessionId}; Path=/; HttpOnly; Max-Age=${30 * 24 * 60 * 60}`,
-        },
-      });
-    }
+        if (!problem || !canView(user, problem)) {
+          return new Response("Problem not found", { status: 404 });
+        }
+        if (!canDiscuss(user, problem)) {
+          return new Response("Solve the problem to join the discussion", {
+            status: 403,
+          });
+        }
 
-    // Logout
-    if (url.pathname === "/logout" && req.method === "POST") {
-      const sessionId = getCookie(req, "session");
-      if (sessionId) {
-        appState.sessions.delete(sessionId);
-      }
-      return new Response(null, {
-        status: 302,
-        headers: {
-          Location: "/",
-          "Set-Cookie": "session=; Path=/; HttpOnly; Max-Age=0",
-        },
-      });
-    }
+        const retryAfter = postRateLimit(user.id);
+        if (retryAfter > 0) {
+          return tooManyRequests(
+            retryAfter,
+            "Too many posts, try again in a minute",
+          );
+        }
 
-    // Admin page
-    if (url.pathname === "/admin" && req.method === "GET") {
-      if (!user || !isAdmin(user)) {
-        return new Response("Unauthorized", { status: 403 });
-      }
+        let body: string;
+        try {
+          body = readPostBody(await req.formData());
+        } catch (e) {
+          return new Response((e as Error).message, { status: 400 });
+        }
 
-      let content = "<h1>$ admin</h1>";
+        const post: Post = {
+          id: generateId(),
+          problemId: problem.id,
+          authorId: user.id,
+          body,
+          createdAt: Date.now(),
+        };
+        appState.posts.set(post.id, post);
+        await saveState();
 
-      // Users
-      content += "<h2>users</h2>";
-      content += `<p>${appState.users.size} total</p>`;
-      content +=
-        "<div style='max-height: 300px; overflow-y: auto; background: #161b22; padding: 10px; margin: 10px 0;'>";
-      for (const [id, u] of appState.users) {
-        content += `<div style='margin: 5px 0;'>
-          <code>${u.username}</code> (id: ${id.slice(0, 8)}...)
-          <form action="/admin/delete-user/${id}" method="post" style="display: inline; margin-left: 10px;">
-            <button type="submit" class="small-button" onclick="return confirm('Delete user and all their data?')">delete</button>
-          </form>
-        </div>`;
-      }
-      content += "</div>";
-
-      // Problems
-      content += "<h2>problems</h2>";
-      content += `<p>${appState.problems.size} total</p>`;
-      content +=
-        "<div style='max-height: 300px; overflow-y: auto; background: #161b22; padding: 10px; margin: 10px 0;'>";
-      for (const [id, p] of appState.problems) {
-        const author = appState.users.get(p.authorId);
-        const stats = getProblemStats(p.id);
-        content += `<div style='margin: 5px 0;'>
-          <strong>${p.title}</strong> by @${author?.username || "unknown"} • ${stats.attempts} attempts, ${stats.solves} solves
-          <form action="/admin/delete-problem/${id}" method="post" style="display: inline; margin-left: 10px;">
-            <button type="submit" class="small-button" onclick="return confirm('Delete problem and all submissions?')">delete</button>
-          </form>
-        </div>`;
-      }
-      content += "</div>";
-
-      // Submissions
-      content += "<h2>submissions</h2>";
-      content += `<p>${appState.submissions.size} total</p>`;
-      const recentSubs = Array.from(appState.submissions.values())
-        .sort((a, b) => b.submittedAt - a.submittedAt)
-        .slice(0, 20);
-      content +=
-        "<div style='max-height: 300px; overflow-y: auto; background: #161b22; padding: 10px; margin: 10px 0;'>";
-      for (const sub of recentSubs) {
-        const u = appState.users.get(sub.userId);
-        const p = appState.problems.get(sub.problemId);
-        content += `<div style='margin: 5px 0;'>
-          @${u?.username || "unknown"} → "${p?.title || "unknown"}" • <code>${sub.answer}</code> ${sub.isCorrect ? "✓" : "✗"}
-          <form action="/admin/delete-submission/${sub.id}" method="post" style="display: inline; margin-left: 10px;">
-            <button type="submit" class="small-button">delete</button>
-          </form>
-        </div>`;
+        return new Response(null, {
+          status: 302,
+          headers: { Location: `/problem/${problem.id}#post-${post.id}` },
+        });
       }
-      content += "</div>";
 
-      // Sessions
-      content += "<h2>sessions</h2>";
-      content += `<p>${appState.sessions.size} total</p>`;
+      // Edit your own post
+      if (url.pathname.match(/^\/post\/[^\/]+\/edit$/)) {
+        const postId = url.pathname.split("/")[2]!;
 
-      return new Response(html(content, user), {
-        headers: { "Content-Type": "text/html" },
-      });
-    }
+        if (!user) {
+          return Response.redirect(
+            "/login?return=" + encodeURIComponent(url.pathname),
+          );
+        }
+        const post = appState.posts.get(postId);
 
-    // New problem page
-    if (url.pathname === "/new-problem" && req.method === "GET") {
-      if (!user) {
-        return Response.redirect(
-          "/auth/github?return=" + encodeURIComponent(url.pathname),
-        );
-      }
+        if (!post) {
+          return new Response("Post not found", { status: 404 });
+        }
+        if (post.authorId !== user.id) {
+          return new Response("Unauthorized", { status: 403 });
+        }
 
-      const content = `
-        <h1>$ new problem</h1>
-        <form action="/new-problem" method="post" enctype="multipart/form-data">
-          <label>title:</label>
-          <input type="text" name="title" required autofocus>
+        if (req.method === "GET") {
+          const content = markup`
+          <h1>$ edit post</h1>
+          <p>> <a href="/problem/${post.problemId}#post-${post.id}">back to the discussion</a></p>
+          ${postForm(`/post/${post.id}/edit`, csrf, post.body)}
+        `;
+          return new Response(page(content, user, csrf), {
+            headers: { "Content-Type": "text/html" },
+          });
+        }
 
-          <label>description:</label>
-          <textarea name="description" required placeholder="explain the problem..."></textarea>
+        if (req.method === "POST") {
+          try {
+            post.body = readPostBody(await req.formData());
+          } catch (e) {
+            return new Response((e as Error).message, { status: 400 });
+          }
+          post.editedAt = Date.now();
+          appState.posts.set(post.id, post);
+          await saveState();
+
+          return new Response(null, {
+            status: 302,
+            headers: { Location: `/problem/${post.problemId}#post-${post.id}` },
+          });
+        }
+      }
 
-          <label>correct answer:</label>
-          <input type="text" name="correctAnswer" required placeholder="the exact answer string">
+      // Delete a post, by its author or an admin
+      if (
+        url.pathname.match(/^\/post\/[^\/]+\/delete$/) &&
+        req.method === "POST"
+      ) {
+        if (!user) {
+          return Response.redirect("/login?return=" + encodeURIComponent("/"));
+        }
 
-          <label>input file (optional):</label>
-          <input type="file" name="inputFile">
+        const post = appState.posts.get(url.pathname.split("/")[2]!);
 
-          <button type="submit">create problem</button>
-        </form>
-      `;
+        if (!post) {
+          return new Response("Post not found", { status: 404 });
+        }
+        if (post.authorId !== user.id && !isAdmin(user)) {
+          return new Response("Unauthorized", { status: 403 });
+        }
 
-      return new Response(html(content, user), {
-        headers: { "Content-Type": "text/html" },
-      });
-    }
+        appState.posts.delete(post.id);
+        await saveState();
 
-    // Create problem
-    if (url.pathname === "/new-problem" && req.method === "POST") {
-      if (!user) {
-        return Response.redirect(
-          "/auth/github?return=" + encodeURIComponent("/new-problem"),
-        );
+        return new Response(null, {
+          status: 302,
+          headers: { Location: `/problem/${post.problemId}` },
+        });
       }
 
-      const formData = await req.formData();
-      const title = formData.get("title") as string;
-      const description = formData.get("description") as string;
-      const correctAnswer = formData.get("correctAnswer") as string;
-      const inputFile = formData.get("inputFile") as File;
+      // Delete problem
+      if (
+        url.pathname.match(/^\/problem\/[^\/]+\/delete$/) &&
+        req.method === "POST"
+      ) {
+        if (!user) {
+          return Response.redirect("/login?return=" + encodeURIComponent("/"));
+        }
 
-      let inputFileContent: string | undefined;
-      let inputFileName: string | undefined;
-      if (inputFile && inputFile.size > 0) {
-        inputFileContent = await inputFile.text();
-        inputFileName = inputFile.name;
-      }
+        const problemId = url.pathname.split("/")[2]!;
+        const problem = appState.problems.get(problemId);
 
-      const problem: Problem = {
-        id: generateId(),
-        title,
-        description,
-        correctAnswer,
-        inputFile: inputFileContent,
-        inputFileName,
-        authorId: user.id,
-        createdAt: Date.now(),
-      };
+        if (!problem) {
+          return new Response("Problem not found", { status: 404 });
+        }
 
-      appState.problems.set(problem.id, problem);
-      await saveState();
+        // Only allow deleting your own problems
+        if (problem.authorId !== user.id) {
+          return new Response("Unauthorized", { status: 403 });
+        }
 
-      return new Response(null, {
-        status: 302,
-        headers: { Location: `/problem/${problem.id}` },
-      });
-    }
+        // Delete the problem and all its submissions
+        appState.problems.delete(problemId || "");
 
-    // Download input file (must come before general problem route)
-    if (
-      url.pathname.match(/^\/problem\/[^\/]+\/download$/) &&
-      req.method === "GET"
-    ) {
-      const problemId = url.pathname.split("/")[2]!;
-      const problem = appState.problems.get(problemId);
+        // Delete all submissions for this problem
+        for (const sub of appState.submissions.forProblem(problem.id)) {
+          appState.submissions.delete(sub.id);
+        }
 
-      if (!problem || !problem.inputFile) {
-        return new Response("Input file not found", { status: 404 });
-      }
+        // Delete input assignments for this problem
+        for (const [key, assignment] of appState.assignments) {
+          if (assignment.problemId === problemId) {
+            appState.assignments.delete(key);
+          }
+        }
+        for (const [key, vote] of appState.votes) {
+          if (vote.problemId === problemId) appState.votes.delete(key);
+        }
+        for (const [id, post] of appState.posts) {
+          if (post.problemId === problemId) appState.posts.delete(id);
+        }
+        for (const [key, reveal] of appState.reveals) {
+          if (reveal.problemId === problemId) appState.reveals.delete(key);
+        }
 
-      const filename =
-        problem.inputFileName ||
-        `${problem.title.replace(/[^a-z0-9]/gi, "_")}_input.txt`;
+        // Delete revisions of this problem
+        for (const [revisionId, revision] of appState.revisions) {
+          if (revision.problemId === problemId) {
+            appState.revisions.delete(revisionId);
+          }
+        }
 
-      return new Response(problem.inputFile, {
-        headers: {
-          "Content-Type": "text/plain",
-          "Content-Disposition": `attachment; filename="${filename}"`,
-        },
-      });
-    }
+        removeFromContest(problemId);
 
-    // View problem
-    if (url.pathname.startsWith("/problem/") && req.method === "GET") {
-      const problemId = url.pathname.split("/")[2]!;
-      const problem = appState.problems.get(problemId);
+        await saveState();
 
-      if (!problem) {
-        return new Response("Problem not found", { status: 404 });
+        return new Response(null, {
+          status: 302,
+          headers: { Location: "/" },
+        });
       }
 
-      const author = appState.users.get(problem.authorId);
-      const stats = getProblemStats(problem.id);
-      const submissions = user
-        ? Array.from(appState.submissions.values())
-            .filter((s) => s.problemId === problem.id && s.userId === user.id)
-            .sort((a, b) => b.submittedAt - a.submittedAt)
-        : [];
-      const solved = user ? hasSolved(user.id, problem.id) : false;
+      // Admin: Delete user
+      if (
+        url.pathname.match(/^\/admin\/delete-user\/[^\/]+$/) &&
+        req.method === "POST"
+      ) {
+        if (!user || !isAdmin(user)) {
+          return new Response("Unauthorized", { status: 403 });
+        }
 
-      let content = `
-        <h1>${problem.title}</h1>
-        <div class="problem-meta">
-          by @${author?.username || "unknown"} • ${new Date(problem.createdAt).toLocaleDateString()}
-          ${
-            user && problem.authorId === user.id
-              ? `
-            <form action="/problem/${problem.id}/delete" method="post" style="display: inline; margin-left: 15px;">
-              <button type="submit" class="small-button" onclick="return confirm('Delete this problem? This will also delete all submissions.')">delete problem</button>
-            </form>
-          `
-              : ""
-          }
-        </div>
-        <div class="stats">
-          ${stats.attempts} ${stats.attempts === 1 ? "attempt" : "attempts"} • ${stats.solves} ${stats.solves === 1 ? "solve" : "solves"}
-        </div>
+        const userId = url.pathname.split("/")[3]!;
 
-        <h2>description</h2>
-        <pre>${problem.description}</pre>
-      `;
+        // Delete user's problems
+        for (const [problemId, problem] of appState.problems) {
+          if (problem.authorId === userId) {
+            appState.problems.delete(problemId);
+            // Delete submissions for those problems
+            for (const sub of appState.submissions.forProblem(problemId)) {
+              appState.submissions.delete(sub.id);
+            }
+          }
+        }
 
-      if (problem.inputFile) {
-        content += `
-          <h2>input file</h2>
-          <p>> <a href="/problem/${problem.id}/download">${problem.inputFileName || "download"}</a></p>
-        `;
-      }
+        // Delete user's submissions
+        for (const sub of appState.submissions.forUser(userId)) {
+          appState.submissions.delete(sub.id);
+        }
 
-      if (user) {
-        if (solved) {
-          content += `
-            <div class="success">
-              ✓ you've solved this problem
-            </div>
-          `;
-        } else {
-          content += `
-            <h2>submit answer</h2>
-            <form action="/problem/${problem.id}/submit" method="post">
-              <input type="text" name="answer" required autofocus placeholder="your answer...">
-              <button type="submit">submit</button>
-            </form>
-          `;
+        // Delete user's input assignments and those for their problems
+        for (const [key, assignment] of appState.assignments) {
+          if (
+            assignment.userId === userId ||
+            !appState.problems.has(assignment.problemId)
+          ) {
+            appState.assignments.delete(key);
+          }
+        }
+        for (const [key, vote] of appState.votes) {
+          if (
+            vote.userId === userId ||
+            !appState.problems.has(vote.problemId)
+          ) {
+            appState.votes.delete(key);
+          }
+        }
+        for (const [id, post] of appState.posts) {
+          if (
+            post.authorId === userId ||
+            !appState.problems.has(post.problemId)
+          ) {
+            appState.posts.delete(id);
+          }
+        }
+        for (const [key, reveal] of appState.reveals) {
+          if (
+            reveal.userId === userId ||
+            !appState.problems.has(reveal.problemId)
+          ) {
+            appState.reveals.delete(key);
+          }
         }
 
-        if (submissions.length > 0) {
-          content += "<h2>your submissions</h2>";
-          for (const sub of submissions) {
-            content += `
-              <div class="submission ${sub.isCorrect ? "correct" : "incorrect"}">
-                ${sub.isCorrect ? "✓ correct" : "✗ incorrect"} • <code>${sub.answer}</code> • ${new Date(sub.submittedAt).toLocaleString()}
-              </div>
-            `;
+        // Delete revisions of the user's problems
+        for (const [revisionId, revision] of appState.revisions) {
+          if (!appState.problems.has(revision.problemId)) {
+            appState.revisions.delete(revisionId);
           }
         }
-      } else {
-        content += `<p>> <a href="/auth/github?return=${encodeURIComponent(url.pathname)}">login</a> to submit answers</p>`;
-      }
 
-      return new Response(html(content, user), {
-        headers: { "Content-Type": "text/html" },
-      });
-    }
+        // Delete user's contests, and take their problems out of contests
+        // run by admins
+        for (const [contestId, contest] of appState.contests) {
+          if (contest.authorId === userId) {
+            appState.contests.delete(contestId);
+          } else if (
+            contest.problemIds.some((id) => !appState.problems.has(id))
+          ) {
+            contest.problemIds = contest.problemIds.filter((id) =>
+              appState.problems.has(id),
+            );
+            appState.contests.set(contestId, contest);
+          }
+        }
 
-    // Submit answer
-    if (
-      url.pathname.match(/^\/problem\/[^\/]+\/submit$/) &&
-      req.method === "POST"
-    ) {
-      const problemId = url.pathname.split("/")[2]!;
+        // Delete user's sessions and API tokens
+        for (const [sessionId, session] of appState.sessions) {
+          if (session.userId === userId) {
+            appState.sessions.delete(sessionId);
+          }
+        }
+        for (const [tokenId, token] of appState.tokens) {
+          if (token.userId === userId) {
+            appState.tokens.delete(tokenId);
+          }
+        }
 
-      if (!user) {
-        return Response.redirect(
-          "/auth/github?return=" + encodeURIComponent(`/problem/${problemId}`),
-        );
-      }
-      const problem = appState.problems.get(problemId);
+        // Remove the user from groups, handing groups they own to the next
+        // member
+        for (const group of appState.groups.values()) {
+          if (!group.memberIds.includes(userId)) continue;
+          group.memberIds = group.memberIds.filter((id) => id !== userId);
+          if (group.ownerId === userId && group.memberIds.length === 0) {
+            appState.groups.delete(group.id);
+            continue;
+          }
+          if (group.ownerId === userId) {
+            group.ownerId = group.memberIds[0]!;
+          }
+          appState.groups.set(group.id, group);
+        }
 
-      if (!problem) {
-        return new Response("Problem not found", { status: 404 });
-      }
+        // Delete user
+        appState.users.delete(userId);
+        await saveState();
 
-      // Check if already solved
-      if (hasSolved(user.id, problem.id)) {
         return new Response(null, {
           status: 302,
-          headers: { Location: `/problem/${problem.id}` },
+          headers: { Location: "/admin" },
         });
       }
 
-      const formData = await req.formData();
-      const answer = formData.get("answer") as string;
+      // Admin: Delete problem
+      if (
+        url.pathname.match(/^\/admin\/delete-problem\/[^\/]+$/) &&
+        req.method === "POST"
+      ) {
+        if (!user || !isAdmin(user)) {
+          return new Response("Unauthorized", { status: 403 });
+        }
 
-      const submission: Submission = {
-        id: generateId(),
-        problemId: problem.id,
-        userId: user.id,
-        answer,
-        isCorrect: answer.trim() === problem.correctAnswer.trim(),
-        submittedAt: Date.now(),
-      };
+        const problemId = url.pathname.split("/")[3]!;
 
-      appState.submissions.set(submission.id, submission);
-      await saveState();
+        appState.problems.delete(problemId);
 
-      return new Response(null, {
-        status: 302,
-        headers: { Location: `/problem/${problem.id}` },
-      });
-    }
+        // Delete all submissions for this problem
+        for (const sub of appState.submissions.forProblem(problemId)) {
+          appState.submissions.delete(sub.id);
+        }
 
-    // Delete problem
-    if (
-      url.pathname.match(/^\/problem\/[^\/]+\/delete$/) &&
-      req.method === "POST"
-    ) {
-      if (!user) {
-        return Response.redirect(
-          "/auth/github?return=" + encodeURIComponent("/"),
-        );
-      }
+        // Delete input assignments for this problem
+        for (const [key, assignment] of appState.assignments) {
+          if (assignment.problemId === problemId) {
+            appState.assignments.delete(key);
+          }
+        }
+        for (const [key, vote] of appState.votes) {
+          if (vote.problemId === problemId) appState.votes.delete(key);
+        }
+        for (const [id, post] of appState.posts) {
+          if (post.problemId === problemId) appState.posts.delete(id);
+        }
+        for (const [key, reveal] of appState.reveals) {
+          if (reveal.problemId === problemId) appState.reveals.delete(key);
+        }
 
-      const problemId = url.pathname.split("/")[2]!;
-      const problem = appState.problems.get(problemId);
+        // Delete revisions of this problem
+        for (const [revisionId, revision] of appState.revisions) {
+          if (revision.problemId === problemId) {
+            appState.revisions.delete(revisionId);
+          }
+        }
 
-      if (!problem) {
-        return new Response("Problem not found", { status: 404 });
-      }
+        removeFromContest(problemId);
 
-      // Only allow deleting your own problems
-      if (problem.authorId !== user.id) {
-        return new Response("Unauthorized", { status: 403 });
-      }
+        await saveState();
 
-      // Delete the problem and all its submissions
-      appState.problems.delete(problemId || "");
+        return new Response(null, {
+          status: 302,
+          headers: { Location: "/admin" },
+        });
+      }
 
-      // Delete all submissions for this problem
-      for (const [subId, sub] of appState.submissions.entries()) {
-        if (sub.problemId === problemId) {
-          appState.submissions.delete(subId);
+      // Admin: Delete submission
+      if (
+        url.pathname.match(/^\/admin\/delete-submission\/[^\/]+$/) &&
+        req.method === "POST"
+      ) {
+        if (!user || !isAdmin(user)) {
+          return new Response("Unauthorized", { status: 403 });
         }
+
+        const submissionId = url.pathname.split("/")[3]!;
+        appState.submissions.delete(submissionId);
+        await saveState();
+
+        return new Response(null, {
+          status: 302,
+          headers: { Location: "/admin" },
+        });
       }
 
-      await saveState();
+      // Admin: Delete post
+      if (
+        url.pathname.match(/^\/admin\/delete-post\/[^\/]+$/) &&
+        req.method === "POST"
+      ) {
+        if (!user || !isAdmin(user)) {
+          return new Response("Unauthorized", { status: 403 });
+        }
 
-      return new Response(null, {
-        status: 302,
-        headers: { Location: "/" },
-      });
-    }
+        const postId = url.pathname.split("/")[3]!;
+        appState.posts.delete(postId);
+        await saveState();
 
-    // Admin: Delete user
-    if (
-      url.pathname.match(/^\/admin\/delete-user\/[^\/]+$/) &&
-      req.method === "POST"
-    ) {
-      if (!user || !isAdmin(user)) {
-        return new Response("Unauthorized", { status: 403 });
+        return new Response(null, {
+          status: 302,
+          headers: { Location: "/admin" },
+        });
       }
 
-      const userId = url.pathname.split("/")[3]!;
-
-      // Delete user's problems
-      for (const [problemId, problem] of appState.problems) {
-        if (problem.authorId === userId) {
-          appState.problems.delete(problemId);
-          // Delete submissions for those problems
-          for (const [subId, sub] of appState.submissions) {
-            if (sub.problemId === problemId) {
-              appState.submissions.delete(subId);
-            }
-          }
+      // Admin: Import problems, keeping their authors where possible
+      if (url.pathname === "/admin/import-problems" && req.method === "POST") {
+        if (!user || !isAdmin(user)) {
+          return new Response("Unauthorized", { status: 403 });
         }
-      }
 
-      // Delete user's submissions
-      for (const [subId, sub] of appState.submissions) {
-        if (sub.userId === userId) {
-          appState.submissions.delete(subId);
+        const formData = await req.formData();
+        const file = formData.get("bundle") as File | null;
+        const keepAuthors = formData.get("keepAuthors") === "1";
+        let result: ReturnType<typeof importProblems>;
+        try {
+          const bundled = parseProblemBundle((await file?.text()) ?? "");
+          result = importProblems(
+            bundled,
+            Array.from(appState.problems.values()),
+            (problem) =>
+              (keepAuthors && findUserByUsername(problem.author)) || user,
+          );
+        } catch (e) {
+          return new Response(`Invalid bundle: ${(e as Error).message}`, {
+            status: 400,
+          });
         }
+        await saveState();
+
+        return new Response(page(importResults(result), user, csrf), {
+          headers: { "Content-Type": "text/html" },
+        });
       }
 
-      // Delete user's sessions
-      for (const [sessionId, session] of appState.sessions) {
-        if (session.userId === userId) {
-          appState.sessions.delete(sessionId);
+      // Admin: Add a webhook
+      if (url.pathname === "/admin/webhooks" && req.method === "POST") {
+        if (!user || !isAdmin(user)) {
+          return new Response("Unauthorized", { status: 403 });
         }
-      }
 
-      // Delete user
-      appState.users.delete(userId);
-      await saveState();
+        const formData = await req.formData();
+        const webhookUrl = String(formData.get("url") || "").trim();
+        const format = formData.get("format");
+        const events = formData.getAll("events").filter(isWebhookEvent);
+        if (!isWebhookUrl(webhookUrl)) {
+          return new Response("Webhook URLs must be http or https", {
+            status: 400,
+          });
+        }
+        if (!isWebhookFormat(format)) {
+          return new Response("Unknown payload format", { status: 400 });
+        }
+        if (events.length === 0) {
+          return new Response("Pick at least one event", { status: 400 });
+        }
+        if (appState.webhooks.size >= MAX_WEBHOOKS) {
+          return new Response(`At most ${MAX_WEBHOOKS} webhooks`, {
+            status: 400,
+          });
+        }
 
-      return new Response(null, {
-        status: 302,
-        headers: { Location: "/admin" },
-      });
-    }
+        const webhook: Webhook = {
+          id: generateId(),
+          url: webhookUrl,
+          format,
+          events: Array.from(new Set(events)),
+          createdAt: Date.now(),
+        };
+        appState.webhooks.set(webhook.id, webhook);
+        await saveState();
 
-    // Admin: Delete problem
-    if (
-      url.pathname.match(/^\/admin\/delete-problem\/[^\/]+$/) &&
-      req.method === "POST"
-    ) {
-      if (!user || !isAdmin(user)) {
-        return new Response("Unauthorized", { status: 403 });
+        return new Response(null, {
+          status: 302,
+          headers: { Location: "/admin" },
+        });
       }
 
-      const problemId = url.pathname.split("/")[3]!;
+      // Admin: Delete a webhook
+      if (
+        url.pathname.match(/^\/admin\/webhooks\/[^\/]+\/delete$/) &&
+        req.method === "POST"
+      ) {
+        if (!user || !isAdmin(user)) {
+          return new Response("Unauthorized", { status: 403 });
+        }
+
+        appState.webhooks.delete(url.pathname.split("/")[3]!);
+        await saveState();
 
-      appState.problems.delete(problemId);
+        return new Response(null, {
+          status: 302,
+          headers: { Location: "/admin" },
+        });
+      }
 
-      // Delete all submissions for this problem
-      for (const [subId, sub] of appState.submissions) {
-        if (sub.problemId === problemId) {
-          appState.submissions.delete(subId);
+      // Admin: Download a backup
+      if (url.pathname === "/admin/backup" && req.method === "GET") {
+        if (!user || !isAdmin(user)) {
+          return new Response("Unauthorized", { status: 403 });
         }
+
+        const data = Object.fromEntries(
+          BACKUP_COLLECTIONS.map((name) => [name, appState[name].records()]),
+        );
+        const date = new Date().toISOString().slice(0, 10);
+        return downloadResponse(createBackup(data), `backup-${date}.json`);
       }
 
-      await saveState();
+      // Admin: Restore a backup
+      if (url.pathname === "/admin/restore" && req.method === "POST") {
+        if (!user || !isAdmin(user)) {
+          return new Response("Unauthorized", { status: 403 });
+        }
 
-      return new Response(null, {
-        status: 302,
-        headers: { Location: "/admin" },
-      });
-    }
+        const file = (await req.formData()).get("backup") as File | null;
+        let data: StoredData;
+        try {
+          data = parseBackup((await file?.text()) ?? "");
+        } catch (e) {
+          return new Response(`Invalid backup: ${(e as Error).message}`, {
+            status: 400,
+          });
+        }
+        await restoreBackup(data);
 
-    // Admin: Delete submission
-    if (
-      url.pathname.match(/^\/admin\/delete-submission\/[^\/]+$/) &&
-      req.method === "POST"
-    ) {
-      if (!user || !isAdmin(user)) {
-        return new Response("Unauthorized", { status: 403 });
+        return new Response(null, {
+          status: 302,
+          headers: { Location: "/admin" },
+        });
       }
 
-      const submissionId = url.pathname.split("/")[3]!;
-      appState.submissions.delete(submissionId);
+      return new Response("Not found", { status: 404 });
+    },
+  });
+
+  return {
+    server,
+    url: `http://localhost:${server.port}`,
+    state: appState,
+    saveState,
+    loadState,
+    // Stops serving and saves anything not saved yet
+    async stop() {
+      stopped = true;
+      clearInterval(saveTimer);
+      clearInterval(announceTimer);
+      await server.stop(true);
       await saveState();
+    },
+  };
+}
 
-      return new Response(null, {
-        status: 302,
-        headers: { Location: "/admin" },
-      });
-    }
+// Started as `bun run index.ts`, configured by environment variables
+if (import.meta.main) {
+  // Login providers, each enabled by setting its client id and secret
+  const providers: OAuthProvider[] = [];
+  if (process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET) {
+    providers.push(
+      createGitHubProvider({
+        clientId: process.env.GITHUB_CLIENT_ID,
+        clientSecret: process.env.GITHUB_CLIENT_SECRET,
+      }),
+    );
+  }
+  if (process.env.GITLAB_CLIENT_ID && process.env.GITLAB_CLIENT_SECRET) {
+    providers.push(
+      createGitLabProvider({
+        clientId: process.env.GITLAB_CLIENT_ID,
+        clientSecret: process.env.GITLAB_CLIENT_SECRET,
+        url: process.env.GITLAB_URL,
+      }),
+    );
+  }
+  if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
+    providers.push(
+      createGoogleProvider({
+        clientId: process.env.GOOGLE_CLIENT_ID,
+        clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+      }),
+    );
+  }
+  if (process.env.DEV_LOGIN === "1") {
+    console.warn("WARNING: DEV_LOGIN is on, anyone can log in as any user");
+    providers.push(createDevProvider());
+  }
 
-    return new Response("Not found", { status: 404 });
-  },
-});
+  if (providers.length === 0) {
+    console.error("ERROR: no login providers are configured");
+    console.error(
+      "Set GITHUB_CLIENT_ID and GITHUB_CLIENT_SECRET (or the GitLab or Google equivalents), or DEV_LOGIN=1 for local development",
+    );
+    process.exit(1);
+  }
 
-console.log(`
-🚀 Server running on ${BASE_URL}
-📁 Data: ${DATA_FILE}
+  // Persistence
+  const dataDir = process.env.DATA_DIR || ".";
+  const dataFile = `${dataDir}/data.json`;
+  const dbFile = `${dataDir}/data.db`;
+  const storageType = process.env.STORAGE || "sqlite";
+  if (storageType !== "sqlite" && storageType !== "json") {
+    console.error('ERROR: STORAGE must be "sqlite" or "json"');
+    process.exit(1);
+  }
+  const dataPath = storageType === "json" ? dataFile : dbFile;
+
+  const baseUrl = process.env.BASE_URL || "http://localhost:3000";
+  await createServer({
+    baseUrl,
+    port: Number(process.env.PORT || 3000),
+    storage:
+      storageType === "json"
+        ? createJsonStorage(dataFile)
+        : createSqliteStorage(dbFile, dataFile),
+    providers,
+    adminUsers: (process.env.ADMIN_USERS || "")
+      .split(",")
+      .map((u) => u.trim())
+      .filter(Boolean),
+    trustProxy: process.env.TRUST_PROXY === "1",
+  });
+
+  console.log(`
+🚀 Server running on ${baseUrl}
+📁 Data: ${dataPath}
 🔄 Auto-save: every 30 seconds
 `);
+}
@@ -0,0 +1,138 @@
+import { createHash, randomBytes } from "crypto";
+import type { Language, TestResult, Verdict } from "./judge";
+
+// Helpers for the JSON API under /api/v1. Every error has the same shape,
+// {"error": {"code": "not_found", "message": "Problem not found"}}, and each
+// code always comes with the same HTTP status.
+
+export const API_ERRORS = {
+  bad_request: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  method_not_allowed: 405,
+  conflict: 409,
+  rate_limited: 429,
+} as const;
+
+export type ApiErrorCode = keyof typeof API_ERRORS;
+
+// Response bodies, shared with the command-line client. Times are ISO
+// strings and parts are numbered from 1.
+
+// GET /me
+export interface ApiUser {
+  id: string;
+  username: string;
+  avatarUrl: string;
+  admin: boolean;
+}
+
+// The entries of GET /problems
+export interface ApiProblem {
+  id: string;
+  title: string;
+  // null if the author's account was deleted
+  author: string | null;
+  parts: number;
+  createdAt: string;
+  releaseAt: string | null;
+  judge: boolean;
+  hasInput: boolean;
+  groups: (string | null)[];
+  tags: string[];
+  difficulty: string | null;
+  stats: { attempts: number; solves: number; partSolves: number[] };
+  // null without a logged in user
+  solvedParts: number | null;
+}
+
+// GET /problems/:id, with the descriptions of the parts unlocked so far
+export interface ApiProblemDetails extends ApiProblem {
+  descriptions: string[];
+  checker: string;
+  languages: string[] | null;
+  cooldownUntil: string | null;
+}
+
+interface ApiSubmissionBase {
+  id: string;
+  problemId: string;
+  part: number;
+  submittedAt: string;
+}
+
+export interface ApiAnswerSubmission extends ApiSubmissionBase {
+  answer: string;
+  correct: boolean;
+  hint: "too high" | "too low" | null;
+}
+
+export interface ApiProgramSubmission extends ApiSubmissionBase {
+  language: Language;
+  // null until the program has been judged
+  verdict: Verdict | null;
+  correct: boolean | null;
+  tests: TestResult[];
+}
+
+// The entries of GET /problems/:id/submissions, and POST's response
+export type ApiSubmission = ApiAnswerSubmission | ApiProgramSubmission;
+
+export function json(data: unknown, status = 200, headers?: HeadersInit) {
+  return Response.json(data, { status, headers });
+}
+
+export function apiError(
+  code: ApiErrorCode,
+  message: string,
+  retryAfterMs?: number,
+) {
+  const headers = new Headers();
+  if (retryAfterMs !== undefined) {
+    headers.set("Retry-After", String(Math.ceil(retryAfterMs / 1000)));
+  }
+  if (code === "unauthorized") {
+    headers.set("WWW-Authenticate", 'Bearer realm="api"');
+  }
+  return json({ error: { code, message } }, API_ERRORS[code], headers);
+}
+
+// The error code for a plain HTTP status, for errors shared with the HTML
+// routes
+export function errorCodeFor(status: number): ApiErrorCode {
+  const entry = Object.entries(API_ERRORS).find(([, s]) => s === status);
+  return (entry?.[0] as ApiErrorCode | undefined) ?? "bad_request";
+}
+
+// Personal access tokens look like "scp_" plus 40 hex characters. Only a
+// hash is stored, so tokens can't be read back from the data files.
+export const TOKEN_PREFIX = "scp_";
+
+export function generateToken(): string {
+  return TOKEN_PREFIX + randomBytes(20).toString("hex");
+}
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function getBearerToken(req: Request): string | null {
+  const header = req.headers.get("authorization");
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1] ?? null;
+}
+
+// Reads a JSON object body, or null if the body isn't one
+export async function readJsonBody(
+  req: Request,
+): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await req.json();
+    return body && typeof body === "object" && !Array.isArray(body)
+      ? body
+      : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,373 @@
+import { createHash } from "crypto";
+import type { CheckerConfig } from "./checkers";
+import type { JudgeConfig } from "./judge";
+import {
+  COLLECTIONS,
+  emptyData,
+  type CollectionName,
+  type StoredData,
+  type StoredRecord,
+} from "./storage";
+
+// Portable files for moving data between instances. A problem bundle holds
+// one or more problems with everything needed to recreate them, and is
+// pretty-printed so puzzle sets can be kept in git. A backup holds the
+// whole instance. Both are JSON with a "format" and "version" so they can
+// be told apart and changed later.
+
+export const BUNDLE_FORMAT = "coding-problems-bundle";
+export const BACKUP_FORMAT = "coding-problems-backup";
+const VERSION = 1;
+
+// Sessions are left out of backups: they are only useful on the instance
+// that issued them, and restoring keeps everyone logged in
+export const BACKUP_COLLECTIONS = COLLECTIONS.filter((c) => c !== "sessions");
+
+// Times are ISO strings so bundles are readable
+export interface BundledHint {
+  text: string;
+  afterWrongAnswers?: number;
+  availableAt?: string;
+}
+
+// Same shape as the entries of an input bundle on the problem form
+export interface BundledInput {
+  name?: string;
+  input?: string;
+  answers: string[];
+}
+
+export interface BundledProblem {
+  // On the instance it was exported from; imports get a new one
+  id: string;
+  title: string;
+  // The author's username on that instance
+  author: string;
+  createdAt: string;
+  parts: { description: string }[];
+  inputs: BundledInput[];
+  checker: CheckerConfig;
+  numericHints: boolean;
+  judge?: JudgeConfig;
+  releaseAt?: string;
+  tags?: string[];
+  difficulty?: number;
+  hints?: BundledHint[];
+  hintPenaltyMinutes?: number;
+}
+
+export interface ProblemBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  problems: BundledProblem[];
+}
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  collections: Partial<StoredData>;
+}
+
+export function createProblemBundle(problems: BundledProblem[]): string {
+  const bundle: ProblemBundle = {
+    format: BUNDLE_FORMAT,
+    version: VERSION,
+    exportedAt: new Date().toISOString(),
+    problems,
+  };
+  return JSON.stringify(bundle, null, 2) + "\n";
+}
+
+// Reads a problem bundle, throwing with a message for the user if it isn't
+// one. Only the shape is checked; limits are up to the app.
+export function parseProblemBundle(text: string): BundledProblem[] {
+  const data = parseJson(text);
+  if (!isObject(data) || data.format !== BUNDLE_FORMAT) {
+    throw new Error("not a problem bundle");
+  }
+  checkVersion(data.version);
+  const problems: unknown[] = Array.isArray(data.problems) ? data.problems : [];
+  if (problems.length === 0) {
+    throw new Error("the bundle has no problems");
+  }
+  return problems.map((problem, i) => {
+    try {
+      return readBundledProblem(problem);
+    } catch (e) {
+      throw new Error(`problem ${i + 1}: ${(e as Error).message}`);
+    }
+  });
+}
+
+function readBundledProblem(value: unknown): BundledProblem {
+  const p = readObject(value, "problem");
+  const parts = readArray(p.parts, "parts").map((part) => ({
+    description: readString(
+      readObject(part, "part").description,
+      "description",
+    ),
+  }));
+  if (parts.length === 0) throw new Error("no parts");
+
+  const inputs = readArray(p.inputs, "inputs").map((value, i) => {
+    const input = readObject(value, "input");
+    const answers = readArray(input.answers, "answers").map((a) =>
+      readString(a, "answer"),
+    );
+    if (answers.length !== parts.length) {
+      throw new Error(`input ${i + 1} needs one answer per part`);
+    }
+    return {
+      name: optional(input.name, readString, "input name"),
+      input: optional(input.input, readString, "input"),
+      answers,
+    };
+  });
+
+  const checker = readObject(p.checker, "checker");
+  const settings = readObject(checker.settings ?? {}, "checker settings");
+  for (const value of Object.values(settings)) {
+    readString(value, "checker setting");
+  }
+
+  const hints = optional(p.hints, readArray, "hints")?.map((value) => {
+    const hint = readObject(value, "hint");
+    return {
+      text: readString(hint.text, "hint text"),
+      afterWrongAnswers: optional(
+        hint.afterWrongAnswers,
+        readInteger,
+        "hint wrong answers",
+      ),
+      availableAt: optional(hint.availableAt, readTime, "hint unlock time"),
+    };
+  });
+
+  return {
+    id: readString(p.id, "id"),
+    title: readString(p.title, "title"),
+    author: readString(p.author, "author"),
+    createdAt: readTime(p.createdAt, "creation time"),
+    parts,
+    inputs,
+    checker: {
+      type: readString(checker.type, "checker type"),
+      settings: settings as CheckerConfig["settings"],
+    },
+    numericHints: p.numericHints === true,
+    judge: optional(p.judge, readJudge, "judge"),
+    releaseAt: optional(p.releaseAt, readTime, "release time"),
+    tags: optional(p.tags, readArray, "tags")?.map((t) => readString(t, "tag")),
+    difficulty: optional(p.difficulty, readInteger, "difficulty"),
+    hints,
+    hintPenaltyMinutes: optional(
+      p.hintPenaltyMinutes,
+      readInteger,
+      "hint penalty",
+    ),
+  };
+}
+
+function readJudge(value: unknown): JudgeConfig {
+  const judge = readObject(value, "judge");
+  return {
+    tests: readArray(judge.tests, "tests").map((part) =>
+      readArray(part, "tests").map((value) => {
+        const test = readObject(value, "test case");
+        return {
+          input: readString(test.input, "test input"),
+          output: readString(test.output, "test output"),
+        };
+      }),
+    ),
+    timeLimitMs: readInteger(judge.timeLimitMs, "time limit"),
+    memoryLimitMb: readInteger(judge.memoryLimitMb, "memory limit"),
+  };
+}
+
+// Problems with the same title, descriptions, inputs and answers have the
+// same fingerprint, wherever they were exported from
+export function problemFingerprint(problem: BundledProblem): string {
+  const content = [
+    problem.title.trim(),
+    problem.parts.map((part) => part.description.trim()),
+    problem.inputs.map((input) => [input.input ?? "", input.answers]),
+    problem.judge?.tests ?? null,
+  ];
+  return createHash("sha256").update(JSON.stringify(content)).digest("hex");
+}
+
+export function createBackup(data: Partial<StoredData>): string {
+  const backup: Backup = {
+    format: BACKUP_FORMAT,
+    version: VERSION,
+    exportedAt: new Date().toISOString(),
+    collections: Object.fromEntries(
+      BACKUP_COLLECTIONS.map((name) => [name, data[name] ?? []]),
+    ),
+  };
+  return JSON.stringify(backup);
+}
+
+// Reads a backup, or a data.json written by the JSON storage backend.
+// Collections missing from it come back empty.
+export function parseBackup(text: string): StoredData {
+  const data = parseJson(text);
+  let collections: Record<string, unknown>;
+  if (isObject(data) && data.format === BACKUP_FORMAT) {
+    checkVersion(data.version);
+    collections = readObject(data.collections, "collections");
+  } else if (
+    isObject(data) &&
+    data.format === undefined &&
+    COLLECTIONS.some((name) => Array.isArray(data[name]))
+  ) {
+    collections = data;
+  } else {
+    throw new Error("not a backup");
+  }
+
+  const result = emptyData();
+  for (const name of BACKUP_COLLECTIONS) {
+    const entries = collections[name];
+    if (entries === undefined) continue;
+    result[name] = readArray(entries, name).map((entry) =>
+      readEntry(name, entry),
+    );
+  }
+  if (result.users.length === 0) {
+    throw new Error("the backup has no users");
+  }
+  return result;
+}
+
+// The fields the app can't do without in each collection's records. Records
+// saved by older versions are upgraded after a restore, so only fields that
+// every version had are checked.
+const RECORD_FIELDS: Record<
+  CollectionName,
+  Record<string, (value: unknown, what: string) => unknown>
+> = {
+  users: { username: readString },
+  problems: {
+    title: readString,
+    authorId: readString,
+    createdAt: readInteger,
+  },
+  submissions: {
+    problemId: readString,
+    userId: readString,
+    submittedAt: readInteger,
+  },
+  sessions: { userId: readString, expiresAt: readInteger },
+  assignments: {
+    problemId: readString,
+    userId: readString,
+    inputIndex: readInteger,
+  },
+  revisions: { problemId: readString, editorId: readString },
+  tokens: { userId: readString, name: readString },
+  groups: {
+    name: readString,
+    ownerId: readString,
+    memberIds: readArray,
+    inviteCode: readString,
+  },
+  contests: {
+    title: readString,
+    authorId: readString,
+    problemIds: readArray,
+    startAt: readInteger,
+    endAt: readInteger,
+  },
+  votes: {
+    problemId: readString,
+    userId: readString,
+    difficulty: readInteger,
+  },
+  posts: { problemId: readString, authorId: readString, body: readString },
+  reveals: { problemId: readString, userId: readString, hint: readInteger },
+  webhooks: { url: readString, format: readString, events: readArray },
+  deliveries: {
+    webhookId: readString,
+    event: readString,
+    problemId: readString,
+  },
+};
+
+function readEntry(
+  name: CollectionName,
+  entry: unknown,
+): [string, StoredRecord] {
+  if (
+    !Array.isArray(entry) ||
+    entry.length !== 2 ||
+    typeof entry[0] !== "string"
+  ) {
+    throw new Error(`${name} must be [key, record] pairs`);
+  }
+  const [key, value] = entry as [string, unknown];
+  const record = readObject(value, `${name} record ${key}`);
+  // Collections of records with ids keep them under their id
+  if (record.id !== undefined && record.id !== key && name !== "tokens") {
+    throw new Error(`${name} record ${key} has a different id`);
+  }
+  for (const [field, read] of Object.entries(RECORD_FIELDS[name])) {
+    read(record[field], `${field} of ${name} record ${key}`);
+  }
+  return [key, record];
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error("not valid JSON");
+  }
+}
+
+function checkVersion(version: unknown) {
+  if (version !== VERSION) {
+    throw new Error(`unsupported version ${JSON.stringify(version)}`);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function readObject(value: unknown, what: string): Record<string, unknown> {
+  if (!isObject(value)) throw new Error(`${what} must be an object`);
+  return value;
+}
+
+function readArray(value: unknown, what: string): unknown[] {
+  if (!Array.isArray(value)) throw new Error(`${what} must be an array`);
+  return value;
+}
+
+function readString(value: unknown, what: string): string {
+  if (typeof value !== "string") throw new Error(`${what} must be a string`);
+  return value;
+}
+
+function readInteger(value: unknown, what: string): number {
+  if (!Number.isInteger(value)) throw new Error(`${what} must be a number`);
+  return value as number;
+}
+
+function readTime(value: unknown, what: string): string {
+  const time = Date.parse(readString(value, what));
+  if (Number.isNaN(time)) throw new Error(`${what} must be an ISO date`);
+  return new Date(time).toISOString();
+}
+
+function optional<T>(
+  value: unknown,
+  read: (value: unknown, what: string) => T,
+  what: string,
+): T | undefined {
+  return value === undefined || value === null ? undefined : read(value, what);
+}
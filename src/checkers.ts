@@ -0,0 +1,170 @@
+// Answer checkers decide whether a submitted answer matches the author's.
+// Each problem stores the type of its checker plus the checker's settings,
+// and new checkers can be added with registerChecker.
+
+export type CheckerSettings = Record<string, string>;
+
+export interface CheckerConfig {
+  type: string;
+  settings: CheckerSettings;
+}
+
+export interface CheckerSetting {
+  name: string;
+  label: string;
+  placeholder?: string;
+}
+
+export interface Checker {
+  label: string;
+  // One line for the problem form on how answers are compared
+  hint: string;
+  settings?: CheckerSetting[];
+  // Solvers get a textarea instead of a one-line answer field
+  multiline?: boolean;
+  // Throws if the settings or the author's answers can't be used
+  validate?(settings: CheckerSettings, answers: string[]): void;
+  check(answer: string, expected: string, settings: CheckerSettings): boolean;
+}
+
+const checkers = new Map<string, Checker>();
+
+export const DEFAULT_CHECKER: CheckerConfig = { type: "exact", settings: {} };
+
+export function registerChecker(type: string, checker: Checker) {
+  checkers.set(type, checker);
+}
+
+export function getChecker(type: string): Checker | undefined {
+  return checkers.get(type);
+}
+
+export function listCheckers(): [string, Checker][] {
+  return Array.from(checkers);
+}
+
+// Throws with a message for the author if the config can't grade answers
+export function validateChecker(config: CheckerConfig, answers: string[]) {
+  const checker = checkers.get(config.type);
+  if (!checker) {
+    throw new Error(`Unknown answer checker "${config.type}"`);
+  }
+  checker.validate?.(config.settings, answers);
+}
+
+// Problems whose checker has since been removed fall back to exact matching
+export function checkAnswer(
+  config: CheckerConfig,
+  answer: string,
+  expected: string,
+): boolean {
+  const checker = checkers.get(config.type) ?? checkers.get("exact")!;
+  return checker.check(answer, expected, config.settings);
+}
+
+function parseNumber(value: string | undefined): number | null {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+  const number = Number(trimmed);
+  return Number.isFinite(number) ? number : null;
+}
+
+function splitItems(value: string, separator: string | undefined) {
+  return value
+    .split(separator || /[\s,]+/)
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .sort();
+}
+
+// Same whitespace rules as most online judges: line endings, spacing
+// inside a line and blank lines at the start or end don't matter
+function normalizeLines(value: string) {
+  return value
+    .split(/\r?\n/)
+    .map((line) => line.trim().replace(/\s+/g, " "))
+    .join("\n")
+    .trim();
+}
+
+registerChecker("exact", {
+  label: "exact match",
+  hint: "the answer must equal the correct answer, ignoring surrounding whitespace",
+  check: (answer, expected) => answer.trim() === expected.trim(),
+});
+
+registerChecker("case-insensitive", {
+  label: "case-insensitive",
+  hint: "like exact match, but upper and lower case letters are the same",
+  check: (answer, expected) =>
+    answer.trim().toLowerCase() === expected.trim().toLowerCase(),
+});
+
+registerChecker("numeric", {
+  label: "number within a tolerance",
+  hint: "accepts numbers within either tolerance of the correct answer",
+  settings: [
+    { name: "absolute", label: "absolute tolerance", placeholder: "0.001" },
+    { name: "relative", label: "relative tolerance", placeholder: "1e-6" },
+  ],
+  validate(settings, answers) {
+    for (const name of ["absolute", "relative"]) {
+      const value = settings[name];
+      if (value !== undefined && !((parseNumber(value) ?? -1) >= 0)) {
+        throw new Error("Tolerances must be non-negative numbers");
+      }
+    }
+    if (answers.some((answer) => parseNumber(answer) === null)) {
+      throw new Error("Correct answers must be numbers");
+    }
+  },
+  check(answer, expected, settings) {
+    const actual = parseNumber(answer);
+    const target = parseNumber(expected);
+    if (actual === null || target === null) return false;
+    const difference = Math.abs(actual - target);
+    return (
+      difference <= (parseNumber(settings.absolute) ?? 0) ||
+      difference <= (parseNumber(settings.relative) ?? 0) * Math.abs(target)
+    );
+  },
+});
+
+registerChecker("any-of", {
+  label: "any of several answers",
+  hint: "put one accepted answer per line in the correct answer",
+  check: (answer, expected) =>
+    expected
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .includes(answer.trim()),
+});
+
+registerChecker("unordered", {
+  label: "list in any order",
+  hint: "compares the items of a list, ignoring their order",
+  settings: [
+    {
+      name: "separator",
+      label: "item separator",
+      placeholder: "commas or whitespace",
+    },
+  ],
+  check(answer, expected, settings) {
+    const actual = splitItems(answer, settings.separator);
+    const target = splitItems(expected, settings.separator);
+    return (
+      actual.length === target.length &&
+      actual.every((item, i) => item === target[i])
+    );
+  },
+});
+
+registerChecker("multiline", {
+  label: "multi-line output",
+  hint: "compares line by line, ignoring differences in spacing",
+  multiline: true,
+  check: (answer, expected) =>
+    normalizeLines(answer) === normalizeLines(expected),
+});
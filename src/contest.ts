@@ -0,0 +1,137 @@
+// ICPC-style contest scoring. A problem counts once all of its parts are
+// solved, and contestants are ranked by problems solved, then by penalty
+// time: the minutes from the start to each solve plus a fixed penalty for
+// every wrong answer before it. Only answers given during the contest
+// count.
+
+export interface ContestRules {
+  startAt: number;
+  endAt: number;
+  // The contest's problems in order, with how many parts each has
+  problems: { id: string; parts: number }[];
+  penaltyMinutes: number;
+}
+
+// The submission fields scoring uses. Judge submissions still waiting for a
+// verdict should be left out.
+export interface ContestSubmission {
+  problemId: string;
+  userId: string;
+  part: number;
+  isCorrect: boolean;
+  submittedAt: number;
+}
+
+export interface ProblemResult {
+  solvedParts: number;
+  // Milliseconds from the start of the contest, once every part is solved
+  solvedAt?: number;
+  wrongAttempts: number;
+  // Answers given after the freeze, shown without their result
+  pendingAttempts: number;
+}
+
+export interface ScoreboardRow {
+  userId: string;
+  // Rows tied on solves, penalty and last solve time share a rank
+  rank: number;
+  solved: number;
+  penaltyMinutes: number;
+  // One per contest problem, in order
+  results: ProblemResult[];
+}
+
+const MINUTE = 60 * 1000;
+
+// Builds the scoreboard. With `frozenAt`, answers from then on are counted
+// as pending instead of being judged.
+export function scoreContest(
+  rules: ContestRules,
+  submissions: Iterable<ContestSubmission>,
+  frozenAt?: number,
+): ScoreboardRow[] {
+  const inWindow = Array.from(submissions)
+    .filter(
+      (s) => s.submittedAt >= rules.startAt && s.submittedAt < rules.endAt,
+    )
+    .sort((a, b) => a.submittedAt - b.submittedAt);
+  const problemIndex = new Map(rules.problems.map((p, i) => [p.id, i]));
+
+  // userId → per-problem results, plus the parts solved so far
+  const results = new Map<string, ProblemResult[]>();
+  const solvedParts = new Map<string, Set<number>>();
+
+  for (const sub of inWindow) {
+    const index = problemIndex.get(sub.problemId);
+    if (index === undefined) continue;
+
+    let userResults = results.get(sub.userId);
+    if (!userResults) {
+      userResults = rules.problems.map(() => ({
+        solvedParts: 0,
+        wrongAttempts: 0,
+        pendingAttempts: 0,
+      }));
+      results.set(sub.userId, userResults);
+    }
+    const result = userResults[index]!;
+    if (result.solvedAt !== undefined) continue;
+
+    if (frozenAt !== undefined && sub.submittedAt >= frozenAt) {
+      result.pendingAttempts++;
+      continue;
+    }
+    if (!sub.isCorrect) {
+      result.wrongAttempts++;
+      continue;
+    }
+
+    const key = `${sub.userId}:${sub.problemId}`;
+    const parts = solvedParts.get(key) ?? new Set();
+    parts.add(sub.part);
+    solvedParts.set(key, parts);
+    result.solvedParts = parts.size;
+    if (parts.size >= rules.problems[index]!.parts) {
+      result.solvedAt = sub.submittedAt - rules.startAt;
+    }
+  }
+
+  const rows = Array.from(results, ([userId, userResults]) => {
+    const solved = userResults.filter((r) => r.solvedAt !== undefined);
+    return {
+      userId,
+      rank: 0,
+      solved: solved.length,
+      penaltyMinutes: solved.reduce(
+        (total, r) =>
+          total +
+          Math.floor(r.solvedAt! / MINUTE) +
+          r.wrongAttempts * rules.penaltyMinutes,
+        0,
+      ),
+      results: userResults,
+      lastSolvedAt: Math.max(0, ...solved.map((r) => r.solvedAt!)),
+    };
+  });
+
+  // Ties on solves and penalty go to whoever made their last solve first
+  rows.sort(
+    (a, b) =>
+      b.solved - a.solved ||
+      a.penaltyMinutes - b.penaltyMinutes ||
+      a.lastSolvedAt - b.lastSolvedAt,
+  );
+  let rank = 0;
+  return rows.map(({ lastSolvedAt: _, ...row }, i) => {
+    const previous = rows[i - 1];
+    if (
+      !previous ||
+      previous.solved !== row.solved ||
+      previous.penaltyMinutes !== row.penaltyMinutes ||
+      previous.lastSolvedAt !== rows[i]!.lastSolvedAt
+    ) {
+      rank = i + 1;
+    }
+    return { ...row, rank };
+  });
+}
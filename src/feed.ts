@@ -0,0 +1,52 @@
+import { escapeHtml } from "./html";
+
+// Atom feeds (RFC 4287), so new problems can be followed in a feed reader.
+// Entries carry their content as escaped HTML.
+
+export interface FeedEntry {
+  // A URL that stays the same for the entry's whole life
+  id: string;
+  title: string;
+  link: string;
+  author: string;
+  published: number;
+  updated: number;
+  categories: string[];
+  // HTML
+  content: string;
+}
+
+export interface Feed {
+  id: string;
+  title: string;
+  // The page the feed is about, and the feed itself
+  link: string;
+  self: string;
+  // Newest first
+  entries: FeedEntry[];
+}
+
+export function renderAtomFeed(feed: Feed): string {
+  const updated = Math.max(0, ...feed.entries.map((e) => e.updated));
+  const entries = feed.entries.map(
+    (entry) => `
+  <entry>
+    <id>${escapeHtml(entry.id)}</id>
+    <title>${escapeHtml(entry.title)}</title>
+    <link rel="alternate" type="text/html" href="${escapeHtml(entry.link)}"/>
+    <author><name>${escapeHtml(entry.author)}</name></author>
+    <published>${new Date(entry.published).toISOString()}</published>
+    <updated>${new Date(entry.updated).toISOString()}</updated>
+${entry.categories.map((term) => `    <category term="${escapeHtml(term)}"/>\n`).join("")}    <content type="html">${escapeHtml(entry.content)}</content>
+  </entry>`,
+  );
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeHtml(feed.id)}</id>
+  <title>${escapeHtml(feed.title)}</title>
+  <link rel="alternate" type="text/html" href="${escapeHtml(feed.link)}"/>
+  <link rel="self" type="application/atom+xml" href="${escapeHtml(feed.self)}"/>
+  <updated>${new Date(updated).toISOString()}</updated>${entries.join("")}
+</feed>
+`;
+}
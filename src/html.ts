@@ -0,0 +1,49 @@
+// Auto-escaping HTML templates. Everything interpolated into a markup`...`
+// template is escaped unless it is itself the result of markup`...` or raw(),
+// so user content can't inject markup by accident:
+//
+//   markup`<h1>${problem.title}</h1>`       // title is escaped
+//   markup`<div>${raw(trustedMarkup)}</div>`  // inserted as is
+
+export class SafeHtml {
+  constructor(readonly value: string) {}
+
+  toString() {
+    return this.value;
+  }
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Marks a string as trusted HTML. Only use it for markup built by this app
+// or by a sanitizing renderer, never for user input.
+export function raw(value: string): SafeHtml {
+  return new SafeHtml(value);
+}
+
+// null, undefined and false render as nothing so conditionals can be
+// written inline; arrays render each item
+function render(value: unknown): string {
+  if (value instanceof SafeHtml) return value.value;
+  if (value === null || value === undefined || value === false) return "";
+  if (Array.isArray(value)) return value.map(render).join("");
+  return escapeHtml(String(value));
+}
+
+export function markup(
+  strings: TemplateStringsArray,
+  ...values: unknown[]
+): SafeHtml {
+  let result = strings[0]!;
+  for (let i = 0; i < values.length; i++) {
+    result += render(values[i]) + strings[i + 1]!;
+  }
+  return new SafeHtml(result);
+}
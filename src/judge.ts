@@ -0,0 +1,329 @@
+import { chmod, mkdir, mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { checkAnswer, type CheckerConfig } from "./checkers";
+
+// Runs submitted programs against a problem's hidden test cases. Each test
+// is a fresh Bun process that reads the test input on stdin and writes its
+// answer to stdout, which is then graded with the problem's checker.
+//
+// Programs run in a sandbox built with util-linux (unshare, setpriv and
+// prlimit): namespaces of their own for mounts, processes and the network,
+// a root holding nothing but the runtime and the program, the uid of nobody,
+// and rlimits on memory, processes and file size. The server must run as
+// root or be allowed to create user namespaces.
+
+export const LANGUAGES = {
+  js: "JavaScript",
+  ts: "TypeScript",
+} as const;
+
+export type Language = keyof typeof LANGUAGES;
+
+export const MAX_TESTS = 50;
+export const MAX_SOURCE_LENGTH = 64 * 1024;
+export const DEFAULT_TIME_LIMIT_MS = 2000;
+export const MAX_TIME_LIMIT_MS = 10_000;
+export const DEFAULT_MEMORY_LIMIT_MB = 256;
+export const MAX_MEMORY_LIMIT_MB = 1024;
+const MAX_OUTPUT_BYTES = 1024 * 1024;
+const MAX_ERROR_BYTES = 4096;
+const MB = 1024 * 1024;
+// Bun reserves a few hundred MB of address space before running anything,
+// so the address space limit is this much above the memory limit
+const RUNTIME_RESERVE_MB = 512;
+// Bun's own threads count as processes too
+const MAX_PROCESSES = 128;
+const MAX_FILE_BYTES = 16 * MB;
+const NOBODY = 65534;
+const SANDBOX_PATH = "/usr/local/bin:/usr/bin:/bin";
+
+// Runs as the first process of fresh mount, pid, network, IPC and UTS
+// namespaces. Builds a root from read-only bind mounts of the system's
+// libraries and the runtime, a few devices, a small /tmp and the program's
+// directory at /box, then runs the command there as nobody. The shell stays
+// behind as the namespace's init, so that killing it (which unshare
+// --kill-child does when the judge kills unshare) kills everything the
+// program started.
+//
+// Arguments: the judge's directory, "setuid" or "userns" for how to become
+// nobody (without root, a nested user namespace maps nobody to the server's
+// uid), the runtime, then the command.
+const SANDBOX_SCRIPT = `
+set -e
+dir=$1 drop=$2 runtime=$3
+shift 3
+root=$dir/root
+mount -t tmpfs -o size=1m,mode=755 sandbox "$root"
+for path in /usr /bin /lib /lib32 /lib64; do
+  if [ -L "$path" ]; then
+    ln -s "$(readlink "$path")" "$root$path"
+  elif [ -d "$path" ]; then
+    mkdir "$root$path"
+    mount --bind -o ro,nosuid,nodev "$path" "$root$path"
+  fi
+done
+mkdir "$root/dev" "$root/proc" "$root/tmp" "$root/box"
+for device in null zero random urandom; do
+  touch "$root/dev/$device"
+  mount --bind "/dev/$device" "$root/dev/$device"
+done
+touch "$root/bun"
+mount --bind -o ro "$runtime" "$root/bun"
+mount -t proc -o nosuid,nodev,noexec proc "$root/proc"
+mount -t tmpfs -o size=16m,mode=1777,nosuid,nodev sandbox "$root/tmp"
+mount --bind -o ro,nosuid,nodev "$dir/box" "$root/box"
+mount -o remount,bind,ro "$root"
+if [ "$drop" = userns ]; then
+  unshare --user --map-user=${NOBODY} --map-group=${NOBODY} \\
+    --root="$root" --wd=/box setpriv --no-new-privs "$@"
+else
+  unshare --root="$root" --wd=/box setpriv --reuid=${NOBODY} \\
+    --regid=${NOBODY} --clear-groups --no-new-privs "$@"
+fi
+`;
+
+export interface TestCase {
+  input: string;
+  output: string;
+}
+
+export interface JudgeConfig {
+  // Hidden test cases, one list per part
+  tests: TestCase[][];
+  timeLimitMs: number;
+  memoryLimitMb: number;
+}
+
+export interface SubmittedCode {
+  language: Language;
+  source: string;
+}
+
+export type Verdict =
+  | "accepted"
+  | "wrong answer"
+  | "time limit exceeded"
+  | "memory limit exceeded"
+  | "runtime error"
+  // The sandbox itself failed, e.g. unshare isn't allowed
+  | "judge error";
+
+export interface TestResult {
+  verdict: Verdict;
+  timeMs: number;
+}
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === "string" && Object.hasOwn(LANGUAGES, value);
+}
+
+// Test case files are JSON arrays like [{"input": "1 2", "output": "3"}]
+export function parseTestCases(text: string): TestCase[] {
+  const data = JSON.parse(text);
+  if (!Array.isArray(data) || data.length === 0) {
+    throw new Error("expected a non-empty JSON array");
+  }
+  if (data.length > MAX_TESTS) {
+    throw new Error(`at most ${MAX_TESTS} test cases per part`);
+  }
+  return data.map((test, i) => {
+    if (typeof test?.input !== "string" || typeof test?.output !== "string") {
+      throw new Error(`test case #${i + 1} needs an "input" and an "output"`);
+    }
+    return { input: test.input, output: test.output };
+  });
+}
+
+// The verdict for a whole submission: the first failed test, if any
+export function overallVerdict(results: TestResult[]): Verdict {
+  return (
+    results.find((result) => result.verdict !== "accepted")?.verdict ??
+    "accepted"
+  );
+}
+
+async function readLimited(
+  stream: ReadableStream<Uint8Array>,
+  limit: number,
+): Promise<string | null> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return Buffer.concat(chunks).toString();
+    size += value.length;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+}
+
+// Keeps only the end of the stream, for error messages
+async function readTail(
+  stream: ReadableStream<Uint8Array>,
+  limit: number,
+): Promise<string> {
+  const reader = stream.getReader();
+  let tail = Buffer.alloc(0);
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return tail.toString();
+    tail = Buffer.concat([tail, value]);
+    if (tail.length > limit) tail = tail.subarray(tail.length - limit);
+  }
+}
+
+function spawnSandboxed(
+  dir: string,
+  command: string[],
+): ReturnType<typeof Bun.spawn<"pipe", "pipe", "pipe">> {
+  const asRoot = process.getuid?.() === 0;
+  return Bun.spawn(
+    [
+      "unshare",
+      ...(asRoot ? [] : ["--user", "--map-root-user"]),
+      "--mount",
+      "--pid",
+      "--fork",
+      "--kill-child",
+      "--net",
+      "--ipc",
+      "--uts",
+      "sh",
+      "-c",
+      SANDBOX_SCRIPT,
+      "sandbox",
+      dir,
+      asRoot ? "setuid" : "userns",
+      process.execPath,
+      ...command,
+    ],
+    {
+      cwd: dir,
+      env: { PATH: SANDBOX_PATH, NO_COLOR: "1" },
+      stdin: "pipe",
+      stdout: "pipe",
+      stderr: "pipe",
+    },
+  );
+}
+
+// Whether the sandbox works here, found out by running `true` in it. Only
+// success is remembered: after a failure, the next submission checks again.
+let sandboxWorks = false;
+
+async function checkSandbox(dir: string): Promise<boolean> {
+  if (sandboxWorks) return true;
+  try {
+    const proc = spawnSandboxed(dir, ["true"]);
+    await proc.stdin.end();
+    const [error, exitCode] = await Promise.all([
+      readTail(proc.stderr, MAX_ERROR_BYTES),
+      proc.exited,
+    ]);
+    if (exitCode === 0) {
+      sandboxWorks = true;
+      return true;
+    }
+    console.error("Judge sandbox failed:", error.trim());
+  } catch (e) {
+    console.error("Judge sandbox failed:", e);
+  }
+  return false;
+}
+
+async function runTest(
+  dir: string,
+  file: string,
+  test: TestCase,
+  config: JudgeConfig,
+  checker: CheckerConfig,
+): Promise<TestResult> {
+  const startedAt = performance.now();
+
+  const proc = spawnSandboxed(dir, [
+    "prlimit",
+    `--as=${(config.memoryLimitMb + RUNTIME_RESERVE_MB) * MB}`,
+    `--nproc=${MAX_PROCESSES}`,
+    `--fsize=${MAX_FILE_BYTES}`,
+    "--core=0",
+    "--",
+    "/bun",
+    "run",
+    `/box/${file}`,
+  ]);
+
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    proc.kill("SIGKILL");
+  }, config.timeLimitMs);
+
+  // Programs that exit without reading stdin close the pipe early
+  try {
+    proc.stdin.write(test.input);
+    await proc.stdin.end();
+  } catch {}
+
+  const [output, error] = await Promise.all([
+    readLimited(proc.stdout, MAX_OUTPUT_BYTES).then((output) => {
+      if (output === null) proc.kill("SIGKILL");
+      return output;
+    }),
+    readTail(proc.stderr, MAX_ERROR_BYTES),
+  ]);
+  const exitCode = await proc.exited;
+  clearTimeout(timer);
+
+  const timeMs = Math.round(performance.now() - startedAt);
+  if (timedOut) return { verdict: "time limit exceeded", timeMs };
+  if (
+    (proc.resourceUsage()?.maxRSS ?? 0) > config.memoryLimitMb * MB ||
+    /out of memory/i.test(error)
+  ) {
+    return { verdict: "memory limit exceeded", timeMs };
+  }
+  if (output === null || exitCode !== 0) {
+    return { verdict: "runtime error", timeMs };
+  }
+  return {
+    verdict: checkAnswer(checker, output, test.output)
+      ? "accepted"
+      : "wrong answer",
+    timeMs,
+  };
+}
+
+// Runs the program on every test case, one at a time
+export async function judge(
+  code: SubmittedCode,
+  tests: TestCase[],
+  config: JudgeConfig,
+  checker: CheckerConfig,
+): Promise<TestResult[]> {
+  const dir = await mkdtemp(join(tmpdir(), "judge-"));
+  try {
+    // The sandbox's root is mounted on root/, and box/ is all the program
+    // sees of the host. The nobody user has to be able to read it.
+    await mkdir(join(dir, "root"));
+    await mkdir(join(dir, "box"));
+    const file = `main.${code.language}`;
+    await Bun.write(join(dir, "box", file), code.source);
+    await chmod(join(dir, "box"), 0o755);
+    await chmod(join(dir, "box", file), 0o644);
+    if (!(await checkSandbox(dir))) {
+      return tests.map(() => ({ verdict: "judge error", timeMs: 0 }));
+    }
+    const results: TestResult[] = [];
+    for (const test of tests) {
+      results.push(await runTest(dir, file, test, config, checker));
+    }
+    return results;
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,57 @@
+import hljs from "highlight.js/lib/common";
+import { Marked, type Tokens } from "marked";
+import { escapeHtml, raw, type SafeHtml } from "./html";
+
+// Problem descriptions are user content, so rendering is locked down: raw
+// HTML is shown as text, links and images only keep safe URLs, and code is
+// highlighted here on the server so pages still work without JavaScript.
+
+// Relative URLs and a few known schemes; anything else (javascript:, data:,
+// vbscript:, ...) is dropped. Browsers ignore control characters and spaces
+// inside a scheme, so those are stripped before checking.
+function safeUrl(href: string, schemes: string[]): string | null {
+  const normalized = href.replace(/[\u0000-\u0020\u007f]/g, "");
+  const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/i)?.[1];
+  if (scheme && !schemes.includes(scheme.toLowerCase())) return null;
+  return href;
+}
+
+const marked = new Marked({
+  gfm: true,
+  renderer: {
+    html({ text }: Tokens.HTML | Tokens.Tag) {
+      return escapeHtml(text);
+    },
+
+    link({ href, title, tokens }: Tokens.Link) {
+      const text = this.parser.parseInline(tokens);
+      const url = safeUrl(href, ["http", "https", "mailto"]);
+      if (url === null) return text;
+      const titleAttr = title ? ` title="${escapeHtml(title)}"` : "";
+      return `<a href="${escapeHtml(url)}"${titleAttr} rel="nofollow noopener">${text}</a>`;
+    },
+
+    image({ href, title, text }: Tokens.Image) {
+      const url = safeUrl(href, ["http", "https"]);
+      if (url === null) return escapeHtml(text);
+      const titleAttr = title ? ` title="${escapeHtml(title)}"` : "";
+      return `<img src="${escapeHtml(url)}" alt="${escapeHtml(text)}"${titleAttr}>`;
+    },
+
+    code({ text, lang }: Tokens.Code) {
+      const language = lang?.match(/^\S+/)?.[0];
+      if (language && hljs.getLanguage(language)) {
+        const highlighted = hljs.highlight(text, {
+          language,
+          ignoreIllegals: true,
+        }).value;
+        return `<pre><code class="hljs language-${escapeHtml(language)}">${highlighted}</code></pre>\n`;
+      }
+      return `<pre><code>${escapeHtml(text)}</code></pre>\n`;
+    },
+  },
+});
+
+export function renderMarkdown(source: string): SafeHtml {
+  return raw(marked.parse(source, { async: false }));
+}
@@ -0,0 +1,219 @@
+// OAuth login providers. Each one sends the browser to the provider's
+// authorize page and turns the code it comes back with into a profile. A
+// user can link several profiles, from one or more providers, to their
+// account.
+
+export interface OAuthProfile {
+  // The provider's id for the account, unique within the provider
+  id: string;
+  username: string;
+  avatarUrl: string;
+}
+
+export interface OAuthProvider {
+  // Used in the /auth/<name> paths and stored with linked identities
+  name: string;
+  label: string;
+  authorizeUrl(redirectUri: string, state: string): string;
+  // Throws if the code can't be exchanged
+  getProfile(code: string, redirectUri: string): Promise<OAuthProfile>;
+}
+
+async function fetchJson(url: string, init: RequestInit): Promise<unknown> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { Accept: "application/json", ...init.headers },
+  });
+  if (!res.ok) throw new Error(`${url} returned ${res.status}`);
+  return res.json();
+}
+
+// Fields of a provider's response are checked, so that a changed API fails
+// the login with a clear error instead of creating odd users
+function getField(data: unknown, name: string, url: string): unknown {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error(`${url} didn't return a JSON object`);
+  }
+  return (data as Record<string, unknown>)[name];
+}
+
+function readString(data: unknown, name: string, url: string): string {
+  const value = getField(data, name, url);
+  if (typeof value !== "string" || value === "") {
+    throw new Error(`${url} returned no ${name}`);
+  }
+  return value;
+}
+
+// Ids are numbers at some providers and strings at others
+function readId(data: unknown, name: string, url: string): string {
+  const value = getField(data, name, url);
+  if (typeof value === "number" && Number.isInteger(value)) {
+    return String(value);
+  }
+  return readString(data, name, url);
+}
+
+// "" when missing
+function readOptionalString(data: unknown, name: string, url: string): string {
+  const value = getField(data, name, url);
+  return value === undefined || value === null
+    ? ""
+    : readString(data, name, url);
+}
+
+function query(params: Record<string, string>) {
+  return new URLSearchParams(params).toString();
+}
+
+// The usual authorization code exchange, with the client secret in a form
+// body
+async function getAccessToken(
+  tokenUrl: string,
+  params: Record<string, string>,
+): Promise<string> {
+  const data = await fetchJson(tokenUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: query({ grant_type: "authorization_code", ...params }),
+  });
+  return readString(data, "access_token", tokenUrl);
+}
+
+// `url` and `apiUrl` can point at a stand-in for github.com in tests
+export function createGitHubProvider(options: {
+  clientId: string;
+  clientSecret: string;
+  url?: string;
+  apiUrl?: string;
+}): OAuthProvider {
+  const url = options.url ?? "https://github.com";
+  const apiUrl = options.apiUrl ?? "https://api.github.com";
+  return {
+    name: "github",
+    label: "GitHub",
+    authorizeUrl: (redirectUri, state) =>
+      `${url}/login/oauth/authorize?${query({
+        client_id: options.clientId,
+        redirect_uri: redirectUri,
+        scope: "read:user",
+        state,
+      })}`,
+    async getProfile(code, redirectUri) {
+      const token = await getAccessToken(`${url}/login/oauth/access_token`, {
+        client_id: options.clientId,
+        client_secret: options.clientSecret,
+        code,
+        redirect_uri: redirectUri,
+      });
+      const userUrl = `${apiUrl}/user`;
+      const user = await fetchJson(userUrl, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      return {
+        id: readId(user, "id", userUrl),
+        username: readString(user, "login", userUrl),
+        avatarUrl: readOptionalString(user, "avatar_url", userUrl),
+      };
+    },
+  };
+}
+
+// `url` is the GitLab instance, for self-hosted ones
+export function createGitLabProvider(options: {
+  clientId: string;
+  clientSecret: string;
+  url?: string;
+}): OAuthProvider {
+  const url = (options.url ?? "https://gitlab.com").replace(/\/+$/, "");
+  return {
+    name: "gitlab",
+    label: "GitLab",
+    authorizeUrl: (redirectUri, state) =>
+      `${url}/oauth/authorize?${query({
+        client_id: options.clientId,
+        redirect_uri: redirectUri,
+        response_type: "code",
+        scope: "read_user",
+        state,
+      })}`,
+    async getProfile(code, redirectUri) {
+      const token = await getAccessToken(`${url}/oauth/token`, {
+        client_id: options.clientId,
+        client_secret: options.clientSecret,
+        code,
+        redirect_uri: redirectUri,
+      });
+      const userUrl = `${url}/api/v4/user`;
+      const user = await fetchJson(userUrl, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      return {
+        id: readId(user, "id", userUrl),
+        username: readString(user, "username", userUrl),
+        avatarUrl: readOptionalString(user, "avatar_url", userUrl),
+      };
+    },
+  };
+}
+
+export function createGoogleProvider(options: {
+  clientId: string;
+  clientSecret: string;
+}): OAuthProvider {
+  return {
+    name: "google",
+    label: "Google",
+    authorizeUrl: (redirectUri, state) =>
+      `https://accounts.google.com/o/oauth2/v2/auth?${query({
+        client_id: options.clientId,
+        redirect_uri: redirectUri,
+        response_type: "code",
+        scope: "openid email profile",
+        state,
+      })}`,
+    async getProfile(code, redirectUri) {
+      const token = await getAccessToken(
+        "https://oauth2.googleapis.com/token",
+        {
+          client_id: options.clientId,
+          client_secret: options.clientSecret,
+          code,
+          redirect_uri: redirectUri,
+        },
+      );
+      const userUrl = "https://openidconnect.googleapis.com/v1/userinfo";
+      const user = await fetchJson(userUrl, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const sub = readString(user, "sub", userUrl);
+      // Google accounts have no username, so the email's local part stands
+      // in for one
+      const email = readOptionalString(user, "email", userUrl);
+      return {
+        id: sub,
+        username: (email || sub).split("@")[0]!,
+        avatarUrl: readOptionalString(user, "picture", userUrl),
+      };
+    },
+  };
+}
+
+// Development login without a network: the app serves the authorize page
+// itself, at /auth/dev/authorize, and the username typed there is the code.
+// Anyone can log in as anyone, so it must never be enabled in production.
+const DEV_USERNAME = /^[a-z0-9][a-z0-9-]{0,38}$/i;
+
+export function createDevProvider(): OAuthProvider {
+  return {
+    name: "dev",
+    label: "Dev",
+    authorizeUrl: (_, state) => `/auth/dev/authorize?${query({ state })}`,
+    async getProfile(code) {
+      if (!DEV_USERNAME.test(code)) {
+        throw new Error("Usernames are letters, digits and dashes");
+      }
+      return { id: code.toLowerCase(), username: code, avatarUrl: "" };
+    },
+  };
+}
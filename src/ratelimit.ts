@@ -0,0 +1,38 @@
+// Fixed-window request limits kept in memory, e.g. 20 logins per minute
+// per IP. Counts reset when the server restarts, which is fine for keeping
+// a single client from hammering a route.
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+// Expired windows are swept once this many keys are being tracked
+const SWEEP_THRESHOLD = 10_000;
+
+// Returns a function that records a request for `key` and returns 0 if it
+// is allowed, or else how many milliseconds until the key may retry
+export function createRateLimiter(options: {
+  limit: number;
+  windowMs: number;
+}) {
+  const windows = new Map<string, Window>();
+
+  return function take(key: string, now = Date.now()): number {
+    if (windows.size >= SWEEP_THRESHOLD) {
+      for (const [k, w] of windows) {
+        if (w.resetAt <= now) windows.delete(k);
+      }
+    }
+
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + options.windowMs };
+      windows.set(key, window);
+    }
+
+    if (window.count >= options.limit) return window.resetAt - now;
+    window.count++;
+    return 0;
+  };
+}
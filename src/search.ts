@@ -0,0 +1,120 @@
+// Searching, filtering and sorting the problem list. Everything comes from
+// the home page's query string, so the list works as a plain GET form and
+// every view has a URL.
+
+// Difficulty n (1 to 5) is DIFFICULTIES[n - 1]
+export const DIFFICULTIES = [
+  "beginner",
+  "easy",
+  "medium",
+  "hard",
+  "expert",
+] as const;
+
+export const SORTS = {
+  newest: "newest",
+  oldest: "oldest",
+  popular: "most solved",
+  easiest: "easiest",
+  hardest: "hardest",
+} as const;
+
+export type Sort = keyof typeof SORTS;
+
+export const MAX_TAGS = 5;
+const TAG = /^[a-z0-9][a-z0-9+#.-]{0,29}$/;
+
+export interface ProblemQuery {
+  // Words that must all appear in the title or description
+  text: string;
+  tag?: string;
+  difficulty?: number;
+  // A username
+  author?: string;
+  status?: "solved" | "unsolved";
+  sort: Sort;
+  // From 1
+  page: number;
+}
+
+export function parseDifficulty(value: unknown): number | undefined {
+  const difficulty = Number(value);
+  return Number.isInteger(difficulty) &&
+    difficulty >= 1 &&
+    difficulty <= DIFFICULTIES.length
+    ? difficulty
+    : undefined;
+}
+
+// Unknown or missing values fall back to showing everything
+export function parseProblemQuery(params: URLSearchParams): ProblemQuery {
+  const sort = params.get("sort");
+  const status = params.get("status");
+  const page = Number(params.get("page"));
+  return {
+    text: (params.get("q") ?? "").trim(),
+    tag: params.get("tag")?.trim().toLowerCase() || undefined,
+    difficulty: parseDifficulty(params.get("difficulty")),
+    author: params.get("author")?.trim().replace(/^@/, "") || undefined,
+    status: status === "solved" || status === "unsolved" ? status : undefined,
+    sort: sort && Object.hasOwn(SORTS, sort) ? (sort as Sort) : "newest",
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  };
+}
+
+// The query string for a view of the list, without the default values, so
+// links stay short. Changing anything but the page starts from page 1.
+export function formatProblemQuery(
+  query: ProblemQuery,
+  changes: Partial<ProblemQuery> = {},
+): string {
+  const next = { ...query, page: 1, ...changes };
+  const params = new URLSearchParams();
+  if (next.text) params.set("q", next.text);
+  if (next.tag) params.set("tag", next.tag);
+  if (next.difficulty) params.set("difficulty", String(next.difficulty));
+  if (next.author) params.set("author", next.author);
+  if (next.status) params.set("status", next.status);
+  if (next.sort !== "newest") params.set("sort", next.sort);
+  if (next.page > 1) params.set("page", String(next.page));
+  const string = params.toString();
+  return string && `?${string}`;
+}
+
+// Case-insensitive; every word has to be somewhere in one of the texts
+export function matchesText(query: string, texts: string[]): boolean {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const haystack = texts.join("\n").toLowerCase();
+  return words.every((word) => haystack.includes(word));
+}
+
+// Tags as typed in the problem form, separated by commas or spaces
+export function splitTags(value: string): string[] {
+  const tags = value
+    .toLowerCase()
+    .split(/[\s,]+/)
+    .filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+export function validateTags(tags: string[]) {
+  if (tags.length > MAX_TAGS) {
+    throw new Error(`A problem can have at most ${MAX_TAGS} tags`);
+  }
+  const invalid = tags.find((tag) => !TAG.test(tag));
+  if (invalid !== undefined) {
+    throw new Error(
+      `Invalid tag "${invalid}": tags are up to 30 letters, digits and - + # .`,
+    );
+  }
+}
+
+export function paginate<T>(items: T[], page: number, pageSize: number) {
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Math.min(page, pageCount);
+  return {
+    items: items.slice((current - 1) * pageSize, current * pageSize),
+    page: current,
+    pageCount,
+  };
+}
@@ -0,0 +1,302 @@
+import { Database } from "bun:sqlite";
+import { rename } from "fs/promises";
+import {
+  COLLECTIONS,
+  emptyData,
+  readJsonFile,
+  type CollectionName,
+  type Storage,
+  type StoredData,
+  type StoredRecord,
+} from "./storage";
+
+// SQLite storage. Each collection is a table holding every record as JSON,
+// plus copies of the fields worth indexing as real columns. Changes are
+// buffered and written in one transaction per flush.
+
+// Schema changes, in order. PRAGMA user_version stores how many have been
+// applied; add new ones at the end and never edit old ones.
+const MIGRATIONS = [
+  `
+  CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    github_id INTEGER,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX users_github_id ON users (github_id);
+
+  CREATE TABLE problems (
+    id TEXT PRIMARY KEY,
+    author_id TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX problems_author_id ON problems (author_id);
+
+  CREATE TABLE submissions (
+    id TEXT PRIMARY KEY,
+    problem_id TEXT,
+    user_id TEXT,
+    submitted_at INTEGER,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX submissions_problem_user ON submissions (problem_id, user_id);
+  CREATE INDEX submissions_user_id ON submissions (user_id);
+
+  CREATE TABLE sessions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT,
+    expires_at INTEGER,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX sessions_user_id ON sessions (user_id);
+  CREATE INDEX sessions_expires_at ON sessions (expires_at);
+
+  CREATE TABLE assignments (
+    id TEXT PRIMARY KEY,
+    problem_id TEXT,
+    user_id TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX assignments_problem_id ON assignments (problem_id);
+  CREATE INDEX assignments_user_id ON assignments (user_id);
+
+  CREATE TABLE revisions (
+    id TEXT PRIMARY KEY,
+    problem_id TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX revisions_problem_id ON revisions (problem_id);
+  `,
+  `
+  CREATE TABLE tokens (
+    id TEXT PRIMARY KEY,
+    user_id TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX tokens_user_id ON tokens (user_id);
+  `,
+  `
+  CREATE TABLE groups (
+    id TEXT PRIMARY KEY,
+    owner_id TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX groups_owner_id ON groups (owner_id);
+  `,
+  `
+  CREATE TABLE contests (
+    id TEXT PRIMARY KEY,
+    author_id TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX contests_author_id ON contests (author_id);
+  `,
+  `
+  DROP INDEX users_github_id;
+  ALTER TABLE users DROP COLUMN github_id;
+  `,
+  `
+  CREATE TABLE votes (
+    id TEXT PRIMARY KEY,
+    problem_id TEXT,
+    user_id TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX votes_problem_id ON votes (problem_id);
+  CREATE INDEX votes_user_id ON votes (user_id);
+  `,
+  `
+  CREATE TABLE posts (
+    id TEXT PRIMARY KEY,
+    problem_id TEXT,
+    author_id TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX posts_problem_id ON posts (problem_id);
+  CREATE INDEX posts_author_id ON posts (author_id);
+  `,
+  `
+  CREATE TABLE reveals (
+    id TEXT PRIMARY KEY,
+    problem_id TEXT,
+    user_id TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX reveals_problem_id ON reveals (problem_id);
+  CREATE INDEX reveals_user_id ON reveals (user_id);
+  `,
+  `
+  CREATE TABLE webhooks (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE deliveries (
+    id TEXT PRIMARY KEY,
+    webhook_id TEXT,
+    created_at INTEGER,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX deliveries_webhook_id ON deliveries (webhook_id);
+  `,
+];
+
+// The indexed columns of each table and the record fields they copy
+const COLUMNS: Record<CollectionName, [column: string, field: string][]> = {
+  users: [],
+  problems: [["author_id", "authorId"]],
+  submissions: [
+    ["problem_id", "problemId"],
+    ["user_id", "userId"],
+    ["submitted_at", "submittedAt"],
+  ],
+  sessions: [
+    ["user_id", "userId"],
+    ["expires_at", "expiresAt"],
+  ],
+  assignments: [
+    ["problem_id", "problemId"],
+    ["user_id", "userId"],
+  ],
+  revisions: [["problem_id", "problemId"]],
+  tokens: [["user_id", "userId"]],
+  groups: [["owner_id", "ownerId"]],
+  contests: [["author_id", "authorId"]],
+  votes: [
+    ["problem_id", "problemId"],
+    ["user_id", "userId"],
+  ],
+  posts: [
+    ["problem_id", "problemId"],
+    ["author_id", "authorId"],
+  ],
+  reveals: [
+    ["problem_id", "problemId"],
+    ["user_id", "userId"],
+  ],
+  webhooks: [],
+  deliveries: [
+    ["webhook_id", "webhookId"],
+    ["created_at", "createdAt"],
+  ],
+};
+
+function migrate(db: Database): number {
+  const { user_version: version } = db.query("PRAGMA user_version").get() as {
+    user_version: number;
+  };
+  for (let i = version; i < MIGRATIONS.length; i++) {
+    db.transaction(() => {
+      db.run(MIGRATIONS[i]!);
+      db.run(`PRAGMA user_version = ${i + 1}`);
+    })();
+  }
+  return version;
+}
+
+function writeRecords(db: Database, data: StoredData) {
+  db.transaction(() => {
+    for (const name of COLLECTIONS) {
+      const insert = insertStatement(db, name);
+      for (const [key, value] of data[name]) {
+        insert.run(...insertValues(name, key, value));
+      }
+    }
+  })();
+}
+
+function insertStatement(db: Database, collection: CollectionName) {
+  const columns = ["id", ...COLUMNS[collection].map(([c]) => c), "data"];
+  return db.prepare(
+    `INSERT OR REPLACE INTO ${collection} (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+  );
+}
+
+function insertValues(
+  collection: CollectionName,
+  key: string,
+  value: StoredRecord,
+): (string | number | null)[] {
+  return [
+    key,
+    // Indexed fields are ids and times
+    ...COLUMNS[collection].map(([, field]) => {
+      const column = value[field];
+      return typeof column === "string" || typeof column === "number"
+        ? column
+        : null;
+    }),
+    JSON.stringify(value),
+  ];
+}
+
+// Opens (or creates) the database at `path`. A new database is filled from
+// `jsonPath` if that file exists, which is then renamed to *.imported so it
+// isn't imported again.
+export function createSqliteStorage(path: string, jsonPath?: string): Storage {
+  const db = new Database(path, { create: true, strict: true });
+  db.run("PRAGMA journal_mode = WAL");
+  db.run("PRAGMA synchronous = NORMAL");
+
+  // Changes since the last flush: the record to write, or null to delete
+  const pending = new Map<CollectionName, Map<string, StoredRecord | null>>();
+
+  function change(
+    collection: CollectionName,
+    key: string,
+    value: StoredRecord | null,
+  ) {
+    let changes = pending.get(collection);
+    if (!changes) pending.set(collection, (changes = new Map()));
+    changes.set(key, value);
+  }
+
+  return {
+    async load() {
+      const version = migrate(db);
+      if (version === 0 && jsonPath) {
+        const imported = await readJsonFile(jsonPath);
+        if (imported) {
+          writeRecords(db, imported);
+          await rename(jsonPath, `${jsonPath}.imported`);
+          console.log(`Imported ${jsonPath} into ${path}`);
+        }
+      }
+
+      const data = emptyData();
+      for (const name of COLLECTIONS) {
+        const rows = db.query(`SELECT id, data FROM ${name}`).all() as {
+          id: string;
+          data: string;
+        }[];
+        data[name] = rows.map((row) => [row.id, JSON.parse(row.data)]);
+      }
+      return data;
+    },
+
+    put(collection, key, value) {
+      change(collection, key, value);
+    },
+
+    delete(collection, key) {
+      change(collection, key, null);
+    },
+
+    async flush() {
+      if (pending.size === 0) return;
+      // Changes stay pending until they are committed, so ones that failed
+      // to save (the disk is full, the database is locked) are tried again
+      // on the next flush
+      db.transaction(() => {
+        for (const [name, records] of pending) {
+          const insert = insertStatement(db, name);
+          const remove = db.prepare(`DELETE FROM ${name} WHERE id = ?`);
+          for (const [key, value] of records) {
+            if (value) insert.run(...insertValues(name, key, value));
+            else remove.run(key);
+          }
+        }
+      })();
+      pending.clear();
+    },
+  };
+}
@@ -0,0 +1,143 @@
+import { rename } from "fs/promises";
+
+// Persistence for the app's state. The app keeps every record in memory in
+// StoredMaps, which tell the storage backend about each set and delete; the
+// backend writes those changes out when flushed. Two backends exist:
+// SQLite (src/sqlite.ts) and a single JSON file for tiny deployments.
+
+export const COLLECTIONS = [
+  "users",
+  "problems",
+  "submissions",
+  "sessions",
+  "assignments",
+  "revisions",
+  "tokens",
+  "groups",
+  "contests",
+  "votes",
+  "posts",
+  "reveals",
+  "webhooks",
+  "deliveries",
+] as const;
+
+export type CollectionName = (typeof COLLECTIONS)[number];
+
+// Records are stored as JSON; the backends don't know their types
+export type StoredRecord = Record<string, unknown>;
+
+export type StoredData = Record<CollectionName, [string, StoredRecord][]>;
+
+export interface Storage {
+  // Every record, read once at startup
+  load(): Promise<StoredData>;
+  put(collection: CollectionName, key: string, value: StoredRecord): void;
+  delete(collection: CollectionName, key: string): void;
+  // Writes out the changes since the last flush
+  flush(): Promise<void>;
+}
+
+// A Map that records its changes in storage. Records changed in place have
+// to be set again for the change to be saved.
+export class StoredMap<V extends object> extends Map<string, V> {
+  constructor(
+    private storage: Storage,
+    private collection: CollectionName,
+    entries: Iterable<[string, V]> = [],
+  ) {
+    super();
+    for (const [key, value] of entries) super.set(key, value);
+  }
+
+  override set(key: string, value: V) {
+    super.set(key, value);
+    this.storage.put(this.collection, key, toRecord(value));
+    return this;
+  }
+
+  override delete(key: string) {
+    const deleted = super.delete(key);
+    if (deleted) this.storage.delete(this.collection, key);
+    return deleted;
+  }
+
+  // Every entry as the backends see it, for backups
+  records(): [string, StoredRecord][] {
+    return Array.from(this, ([key, value]) => [key, toRecord(value)]);
+  }
+}
+
+// Records are plain objects, whatever interface they are kept under
+function toRecord(value: object): StoredRecord {
+  return value as StoredRecord;
+}
+
+export function emptyData(): StoredData {
+  return Object.fromEntries(
+    COLLECTIONS.map((name) => [name, []]),
+  ) as unknown as StoredData;
+}
+
+// Reads a data.json written by the JSON backend (or by versions of the app
+// from before there were storage backends)
+export async function readJsonFile(path: string): Promise<StoredData | null> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) return null;
+  const json = JSON.parse(await file.text());
+  const data = emptyData();
+  for (const name of COLLECTIONS) {
+    data[name] = json[name] || [];
+  }
+  return data;
+}
+
+// The whole state in one JSON file, rewritten on every flush that follows a
+// change. Fine for a handful of users; use SQLite for anything bigger.
+export function createJsonStorage(path: string): Storage {
+  const maps = new Map<CollectionName, Map<string, StoredRecord>>(
+    COLLECTIONS.map((name) => [name, new Map()]),
+  );
+  let dirty = false;
+  // Flushes run one after the other so they don't share the temporary file
+  let writing = Promise.resolve();
+
+  async function write() {
+    if (!dirty) return;
+    dirty = false;
+    const data = Object.fromEntries(
+      COLLECTIONS.map((name) => [name, Array.from(maps.get(name)!)]),
+    );
+
+    // Write to a temporary file first, then atomically rename it over the
+    // old one, so a crash mid-write leaves the old file intact
+    const tempFile = `${path}.tmp`;
+    await Bun.write(tempFile, JSON.stringify(data));
+    await rename(tempFile, path);
+  }
+
+  return {
+    async load() {
+      const data = (await readJsonFile(path)) ?? emptyData();
+      for (const name of COLLECTIONS) {
+        maps.set(name, new Map(data[name]));
+      }
+      return data;
+    },
+
+    put(collection, key, value) {
+      maps.get(collection)!.set(key, value);
+      dirty = true;
+    },
+
+    delete(collection, key) {
+      maps.get(collection)!.delete(key);
+      dirty = true;
+    },
+
+    flush() {
+      writing = writing.catch(() => {}).then(write);
+      return writing;
+    },
+  };
+}
@@ -0,0 +1,125 @@
+import { StoredMap, type CollectionName, type Storage } from "./storage";
+
+// The submission fields the indexes are built from
+export interface IndexedSubmission {
+  id: string;
+  problemId: string;
+  userId: string;
+  part: number;
+  isCorrect: boolean;
+}
+
+// Submissions with secondary indexes by problem, by user and of who solved
+// each part, so pages don't have to scan every submission. The indexes are
+// updated by set and delete, so a submission changed in place has to be set
+// again, as with any StoredMap.
+export class SubmissionMap<V extends IndexedSubmission> extends StoredMap<V> {
+  // problemId → userId → that user's submissions
+  private byProblem = new Map<string, Map<string, Set<V>>>();
+  private byUser = new Map<string, Set<V>>();
+  // `${problemId}:${part}` → userId → number of correct submissions
+  private solvers = new Map<string, Map<string, number>>();
+  // Submission id → the solvers key it is counted under
+  private counted = new Map<string, string>();
+
+  constructor(
+    storage: Storage,
+    collection: CollectionName,
+    entries: Iterable<[string, V]> = [],
+  ) {
+    super(storage, collection, entries);
+    for (const [key, value] of this) this.index(key, value);
+  }
+
+  override set(key: string, value: V) {
+    const old = this.get(key);
+    if (old) this.unindex(key, old);
+    super.set(key, value);
+    this.index(key, value);
+    return this;
+  }
+
+  override delete(key: string) {
+    const old = this.get(key);
+    const deleted = super.delete(key);
+    if (old) this.unindex(key, old);
+    return deleted;
+  }
+
+  forProblem(problemId: string): V[] {
+    const byUser = this.byProblem.get(problemId);
+    return byUser
+      ? Array.from(byUser.values(), (subs) => [...subs]).flat()
+      : [];
+  }
+
+  forUser(userId: string): V[] {
+    return [...(this.byUser.get(userId) ?? [])];
+  }
+
+  forProblemAndUser(problemId: string, userId: string): V[] {
+    return [...(this.byProblem.get(problemId)?.get(userId) ?? [])];
+  }
+
+  // Number of users with at least one submission for the problem
+  attemptCount(problemId: string): number {
+    return this.byProblem.get(problemId)?.size ?? 0;
+  }
+
+  solverCount(problemId: string, part: number): number {
+    return this.solvers.get(`${problemId}:${part}`)?.size ?? 0;
+  }
+
+  hasSolved(userId: string, problemId: string, part: number): boolean {
+    return this.solvers.get(`${problemId}:${part}`)?.has(userId) ?? false;
+  }
+
+  private index(key: string, sub: V) {
+    let byUser = this.byProblem.get(sub.problemId);
+    if (!byUser) this.byProblem.set(sub.problemId, (byUser = new Map()));
+    addTo(byUser, sub.userId, sub);
+    addTo(this.byUser, sub.userId, sub);
+
+    if (sub.isCorrect) {
+      const partKey = `${sub.problemId}:${sub.part}`;
+      let counts = this.solvers.get(partKey);
+      if (!counts) this.solvers.set(partKey, (counts = new Map()));
+      counts.set(sub.userId, (counts.get(sub.userId) ?? 0) + 1);
+      this.counted.set(key, partKey);
+    }
+  }
+
+  // Goes by what was counted rather than sub.isCorrect and sub.part, which
+  // may have been changed in place since the submission was indexed
+  private unindex(key: string, sub: V) {
+    const byUser = this.byProblem.get(sub.problemId);
+    if (byUser) {
+      removeFrom(byUser, sub.userId, sub);
+      if (byUser.size === 0) this.byProblem.delete(sub.problemId);
+    }
+    removeFrom(this.byUser, sub.userId, sub);
+
+    const partKey = this.counted.get(key);
+    if (partKey !== undefined) {
+      this.counted.delete(key);
+      const counts = this.solvers.get(partKey)!;
+      const count = counts.get(sub.userId)! - 1;
+      if (count > 0) counts.set(sub.userId, count);
+      else counts.delete(sub.userId);
+      if (counts.size === 0) this.solvers.delete(partKey);
+    }
+  }
+}
+
+function addTo<V>(map: Map<string, Set<V>>, key: string, value: V) {
+  let set = map.get(key);
+  if (!set) map.set(key, (set = new Set()));
+  set.add(value);
+}
+
+function removeFrom<V>(map: Map<string, Set<V>>, key: string, value: V) {
+  const set = map.get(key);
+  if (!set) return;
+  set.delete(value);
+  if (set.size === 0) map.delete(key);
+}
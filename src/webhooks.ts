@@ -0,0 +1,125 @@
+// Outgoing webhooks: JSON POSTs to URLs set up by admins when something
+// happens on the site. Besides the app's own JSON, payloads can be shaped
+// for Discord and Slack incoming webhooks, which post them as messages.
+
+export const WEBHOOK_EVENTS = {
+  "problem.created": "new problem",
+  "problem.solved": "first solve",
+} as const;
+
+export type WebhookEventType = keyof typeof WEBHOOK_EVENTS;
+
+export const WEBHOOK_FORMATS = {
+  json: "JSON",
+  discord: "Discord",
+  slack: "Slack",
+} as const;
+
+export type WebhookFormat = keyof typeof WEBHOOK_FORMATS;
+
+export interface WebhookEvent {
+  type: WebhookEventType;
+  problem: { id: string; title: string; url: string; author: string };
+  // Who solved it, for problem.solved
+  user?: { username: string; url: string };
+  // ISO 8601
+  at: string;
+}
+
+export function isWebhookEvent(value: unknown): value is WebhookEventType {
+  return typeof value === "string" && Object.hasOwn(WEBHOOK_EVENTS, value);
+}
+
+export function isWebhookFormat(value: unknown): value is WebhookFormat {
+  return typeof value === "string" && Object.hasOwn(WEBHOOK_FORMATS, value);
+}
+
+export function isWebhookUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+// Keeps titles and usernames from adding formatting, links or mentions to
+// a chat message
+function escapeChat(text: string, format: WebhookFormat): string {
+  if (format === "slack") {
+    // Slack only has entities for &, < and >, and no escape for formatting.
+    // A zero-width space after each formatting character keeps Slack from
+    // pairing them up.
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/[*_~`]/g, "$&\u200b");
+  }
+  return text.replace(/[\\*_~`|<>[\]()#@:-]/g, "\\$&");
+}
+
+// The event as one line of chat, with Markdown links (Slack's own syntax
+// for Slack)
+function describeEvent(event: WebhookEvent, format: WebhookFormat): string {
+  const escape = (text: string) => escapeChat(text, format);
+  const link = (text: string, url: string) =>
+    format === "slack" ? `<${url}|${text}>` : `[${text}](${url})`;
+  const problem = link(escape(event.problem.title), event.problem.url);
+  return event.type === "problem.created"
+    ? `New problem: ${problem} by @${escape(event.problem.author)}`
+    : `@${escape(event.user?.username ?? "")} is the first to solve ${problem}`;
+}
+
+export function formatPayload(
+  event: WebhookEvent,
+  format: WebhookFormat,
+): unknown {
+  switch (format) {
+    case "json":
+      return event;
+    case "discord":
+      // Pings no one, whatever the message says
+      return {
+        content: describeEvent(event, format),
+        allowed_mentions: { parse: [] },
+      };
+    case "slack":
+      return { text: describeEvent(event, format) };
+  }
+}
+
+export interface WebhookResult {
+  ok: boolean;
+  // The response status, if there was a response
+  status?: number;
+  error?: string;
+  // Worth trying again: network errors, timeouts, 429 and 5xx
+  retry: boolean;
+}
+
+export async function sendWebhook(
+  url: string,
+  payload: unknown,
+  timeoutMs: number,
+): Promise<WebhookResult> {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+      redirect: "manual",
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (e) {
+    return { ok: false, error: (e as Error).message, retry: true };
+  }
+  // Only the status matters
+  await res.body?.cancel();
+  return {
+    ok: res.ok,
+    status: res.status,
+    retry: res.status === 429 || res.status >= 500,
+  };
+}
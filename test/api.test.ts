@@ -0,0 +1,159 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { hashToken } from "../src/api";
+import { CSRF, startServer } from "./server";
+
+const TOKEN = "scp_" + "1".repeat(40);
+const HOUR = 60 * 60 * 1000;
+
+let server: Awaited<ReturnType<typeof startServer>>;
+
+beforeAll(async () => {
+  const now = Date.now();
+  server = await startServer(3920, {
+    users: [
+      ["u1", { id: "u1", githubId: 1, username: "alice" }],
+      ["u2", { id: "u2", githubId: 2, username: "bob" }],
+    ],
+    problems: [
+      [
+        "p1",
+        {
+          id: "p1",
+          title: "Two parts",
+          parts: [{ description: "first" }, { description: "second" }],
+          inputs: [{ inputFile: "1 2 3", correctAnswers: ["6", "123"] }],
+          checker: { type: "exact", settings: {} },
+          numericHints: false,
+          authorId: "u1",
+          createdAt: now - HOUR,
+        },
+      ],
+      [
+        "later",
+        {
+          id: "later",
+          title: "Not yet",
+          parts: [{ description: "secret" }],
+          inputs: [{ correctAnswers: ["1"] }],
+          checker: { type: "exact", settings: {} },
+          numericHints: false,
+          authorId: "u1",
+          createdAt: now,
+          releaseAt: now + HOUR,
+        },
+      ],
+    ],
+    sessions: [
+      ["s2", { userId: "u2", expiresAt: now + HOUR, csrfToken: CSRF }],
+    ],
+    tokens: [
+      [
+        hashToken(TOKEN),
+        { id: hashToken(TOKEN), userId: "u2", name: "test", createdAt: now },
+      ],
+    ],
+  });
+});
+
+afterAll(() => server.stop());
+
+function api(path: string, init: RequestInit = {}, token = TOKEN) {
+  return fetch(`${server.url}/api/v1${path}`, {
+    ...init,
+    headers: { Authorization: `Bearer ${token}`, ...init.headers },
+  });
+}
+
+function submit(body: object) {
+  return api("/problems/p1/submissions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("API", () => {
+  test("identifies the token's user", async () => {
+    const res = await api("/me");
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ id: "u2", username: "bob" });
+  });
+
+  test("rejects unknown tokens with a JSON error", async () => {
+    const res = await api("/problems", {}, "scp_nope");
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({
+      error: { code: "unauthorized", message: "Invalid or revoked token" },
+    });
+  });
+
+  test("lists released problems without logging in", async () => {
+    const res = await fetch(`${server.url}/api/v1/problems`);
+    const { problems } = await res.json();
+    expect(problems.map((p: { id: string }) => p.id)).toEqual(["p1"]);
+    expect(problems[0]).toMatchObject({
+      title: "Two parts",
+      author: "alice",
+      parts: 2,
+      hasInput: true,
+      solvedParts: null,
+    });
+  });
+
+  test("hides unreleased problems", async () => {
+    const res = await api("/problems/later");
+    expect(res.status).toBe(404);
+    expect((await res.json()).error.code).toBe("not_found");
+  });
+
+  test("serves the input as text", async () => {
+    const res = await api("/problems/p1/input");
+    expect(res.headers.get("content-type")).toStartWith("text/plain");
+    expect(await res.text()).toBe("1 2 3");
+  });
+
+  test("tells wrong paths from wrong methods", async () => {
+    expect((await api("/nope")).status).toBe(404);
+    const res = await api("/problems", { method: "POST" });
+    expect(res.status).toBe(405);
+    expect((await res.json()).error.code).toBe("method_not_allowed");
+  });
+
+  test("submits answers and reports them", async () => {
+    const bad = await submit({ answer: "x" });
+    expect(bad.status).toBe(201);
+    expect(await bad.json()).toMatchObject({ part: 1, correct: false });
+
+    // The wrong answer started a cooldown
+    const waiting = await submit({ answer: 6 });
+    expect(waiting.status).toBe(429);
+    expect(waiting.headers.get("retry-after")).toBe("60");
+    expect((await waiting.json()).error.code).toBe("rate_limited");
+
+    const { submissions } = await (await api("/submissions")).json();
+    expect(submissions).toHaveLength(1);
+    expect(submissions[0]).toMatchObject({ problemId: "p1", answer: "x" });
+
+    const detail = await (await api("/problems/p1")).json();
+    expect(detail.descriptions).toEqual(["first"]);
+    expect(detail.cooldownUntil).not.toBeNull();
+  });
+
+  test("rejects answers for the wrong part", async () => {
+    const res = await submit({ answer: "123", part: 2 });
+    expect(res.status).toBe(409);
+    expect((await res.json()).error.code).toBe("conflict");
+  });
+
+  test("needs the CSRF header for cookie posts", async () => {
+    const post = (headers: Record<string, string>) =>
+      fetch(`${server.url}/api/v1/problems/p1/submissions`, {
+        method: "POST",
+        headers: { Cookie: "session=s2", ...headers },
+        body: JSON.stringify({ answer: "6" }),
+      });
+    expect((await post({})).status).toBe(403);
+    // Past the CSRF check, the cooldown from the earlier test applies
+    expect((await post({ "X-CSRF-Token": CSRF })).status).toBe(429);
+  });
+});
@@ -0,0 +1,306 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createServer } from "../index";
+import { createGitHubProvider } from "../src/oauth";
+import { createSqliteStorage } from "../src/sqlite";
+import { createJsonStorage } from "../src/storage";
+import { startFakeGitHub } from "./github";
+import { startServer } from "./server";
+
+const HOUR = 60 * 60 * 1000;
+
+const github = startFakeGitHub([
+  { id: 1, login: "admin" },
+  { id: 2, login: "bob" },
+  { id: 3, login: "carol", avatar_url: "https://example.com/carol.png" },
+  { login: "dave" },
+]);
+const providers = [
+  createGitHubProvider({
+    clientId: "test",
+    clientSecret: "test",
+    url: github.url,
+    apiUrl: github.url,
+  }),
+];
+
+let server: Awaited<ReturnType<typeof startServer>>;
+
+beforeAll(async () => {
+  const now = Date.now();
+  const user = (id: string, githubId: string, username: string) => ({
+    id,
+    username,
+    avatarUrl: "",
+    identities: [{ provider: "github", id: githubId, username }],
+  });
+
+  server = await startServer(
+    3925,
+    {
+      users: [
+        ["u1", user("u1", "1", "admin")],
+        ["u2", user("u2", "2", "bob")],
+      ],
+      sessions: [
+        ["old", { userId: "u2", expiresAt: now - 1000, csrfToken: "" }],
+        ["gone", { userId: "u9", expiresAt: now + HOUR, csrfToken: "" }],
+      ],
+    },
+    { providers },
+  );
+});
+
+afterAll(async () => {
+  await server.stop();
+  github.stop();
+});
+
+// Logs in through the fake GitHub and returns the session cookie and its
+// CSRF token
+async function login(username: string) {
+  const start = await fetch(`${server.url}/auth/github`, {
+    redirect: "manual",
+  });
+  const authorize = new URL(start.headers.get("location")!);
+  expect(authorize.origin).toBe(github.url);
+  authorize.searchParams.set("login", username);
+
+  const back = await fetch(authorize, { redirect: "manual" });
+  const res = await fetch(back.headers.get("location")!, {
+    headers: { Cookie: start.headers.get("set-cookie")!.split(";")[0]! },
+    redirect: "manual",
+  });
+  const sessionId = res.headers
+    .getSetCookie()
+    .find((c) => c.startsWith("session="))
+    ?.split(";")[0]!
+    .slice("session=".length);
+  if (!sessionId) return { res, cookie: "", csrf: "" };
+
+  const session = server.app.state.sessions.get(sessionId)!;
+  return { res, cookie: `session=${sessionId}`, csrf: session.csrfToken };
+}
+
+type Login = Awaited<ReturnType<typeof login>>;
+type Cookies = Pick<Login, "cookie" | "csrf">;
+
+function get(path: string, as?: Cookies) {
+  return fetch(`${server.url}${path}`, {
+    headers: as ? { Cookie: as.cookie } : {},
+    redirect: "manual",
+  });
+}
+
+function post(path: string, as: Cookies, fields: Record<string, string> = {}) {
+  return fetch(`${server.url}${path}`, {
+    method: "POST",
+    headers: { Cookie: as.cookie },
+    body: new URLSearchParams({ csrf: as.csrf, ...fields }),
+    redirect: "manual",
+  });
+}
+
+async function createProblem(as: Cookies, title: string) {
+  const form = new FormData();
+  form.append("csrf", as.csrf);
+  form.append("title", title);
+  form.append("description", "Add the numbers.");
+  form.append("correctAnswer", "6");
+  form.append("inputFile", new File(["1 2 3\n"], "numbers.txt"));
+  const res = await fetch(`${server.url}/new-problem`, {
+    method: "POST",
+    headers: { Cookie: as.cookie },
+    body: form,
+    redirect: "manual",
+  });
+  expect(res.status).toBe(302);
+  return res.headers.get("location")!.split("/")[2]!;
+}
+
+let admin: Login;
+let bob: Login;
+let carol: Login;
+
+describe("login", () => {
+  test("log in existing users through GitHub", async () => {
+    admin = await login("admin");
+    bob = await login("bob");
+    expect(admin.res.headers.get("location")).toBe("/");
+    const text = await (await get("/settings", bob)).text();
+    expect(text).toContain("@bob");
+  });
+
+  test("create a user on their first login", async () => {
+    carol = await login("carol");
+    const user = Array.from(server.app.state.users.values()).find(
+      (u) => u.username === "carol",
+    );
+    expect(user).toMatchObject({
+      avatarUrl: "https://example.com/carol.png",
+      identities: [{ provider: "github", id: "3", username: "carol" }],
+    });
+  });
+
+  test("fail when GitHub doesn't know the account", async () => {
+    const { res } = await login("mallory");
+    expect(res.status).toBe(502);
+  });
+
+  test("fail when GitHub's profile isn't as expected", async () => {
+    const { res } = await login("dave");
+    expect(res.status).toBe(502);
+    const users = Array.from(server.app.state.users.values());
+    expect(users.map((u) => u.username)).not.toContain("dave");
+  });
+
+  test("treat expired sessions as logged out and remove them", async () => {
+    const res = await get("/settings", { cookie: "session=old", csrf: "" });
+    expect(res.headers.get("location")).toStartWith("/login");
+    expect(server.app.state.sessions.has("old")).toBe(false);
+  });
+
+  test("treat sessions of deleted users as logged out", async () => {
+    const res = await get("/settings", { cookie: "session=gone", csrf: "" });
+    expect(res.headers.get("location")).toStartWith("/login");
+  });
+});
+
+describe("problems", () => {
+  let problemId: string;
+
+  test("create a problem", async () => {
+    problemId = await createProblem(carol, "Sum Of Three");
+    const text = await (await get(`/problem/${problemId}`)).text();
+    expect(text).toContain("Sum Of Three");
+    expect(text).toContain("Add the numbers.");
+  });
+
+  test("download the input", async () => {
+    const res = await get(`/problem/${problemId}/download`, bob);
+    expect(res.headers.get("content-disposition")).toContain("numbers.txt");
+    expect(await res.text()).toBe("1 2 3\n");
+  });
+
+  test("judge submitted answers", async () => {
+    await post(`/problem/${problemId}/submit`, bob, { answer: "5" });
+    await post(`/problem/${problemId}/submit`, admin, { answer: "6" });
+    const verdicts = Array.from(
+      server.app.state.submissions.forProblem(problemId),
+      (s) => [server.app.state.users.get(s.userId)!.username, s.isCorrect],
+    );
+    expect(verdicts).toEqual([
+      ["bob", false],
+      ["admin", true],
+    ]);
+  });
+
+  test("turn judge mode off when editing", async () => {
+    const form = new FormData();
+    form.append("csrf", carol.csrf);
+    form.append("title", "Judged");
+    form.append("description", "Add the numbers.");
+    form.append("judge", "1");
+    form.append(
+      "tests",
+      new File([`[{"input": "1 2", "output": "3"}]`], "tests.json"),
+    );
+    form.append("timeLimitMs", "2000");
+    form.append("memoryLimitMb", "256");
+    const res = await fetch(`${server.url}/new-problem`, {
+      method: "POST",
+      headers: { Cookie: carol.cookie },
+      body: form,
+      redirect: "manual",
+    });
+    const id = res.headers.get("location")!.split("/")[2]!;
+    expect(server.app.state.problems.get(id)!.judge).toBeDefined();
+
+    await post(`/problem/${id}/edit`, carol, {
+      title: "Judged",
+      description: "Add the numbers.",
+      correctAnswer: "3",
+    });
+    const problem = server.app.state.problems.get(id)!;
+    expect(problem.judge).toBeUndefined();
+    expect(problem.inputs).toMatchObject([{ correctAnswers: ["3"] }]);
+  });
+
+  test("let only the author delete a problem", async () => {
+    expect((await post(`/problem/${problemId}/delete`, bob)).status).toBe(403);
+    expect((await post(`/problem/${problemId}/delete`, carol)).status).toBe(
+      302,
+    );
+    expect(server.app.state.problems.has(problemId)).toBe(false);
+    expect([...server.app.state.submissions.forProblem(problemId)]).toEqual([]);
+  });
+
+  test("let admins delete anything", async () => {
+    const id = await createProblem(bob, "Bob's Problem");
+    await post(`/problem/${id}/submit`, carol, { answer: "6" });
+    const [submission] = server.app.state.submissions.forProblem(id);
+
+    expect(
+      (await post(`/admin/delete-submission/${submission!.id}`, bob)).status,
+    ).toBe(403);
+    await post(`/admin/delete-submission/${submission!.id}`, admin);
+    expect(server.app.state.submissions.has(submission!.id)).toBe(false);
+
+    await post(`/admin/delete-problem/${id}`, admin);
+    expect((await get(`/problem/${id}`)).status).toBe(404);
+
+    await post("/admin/delete-user/u2", admin);
+    expect(server.app.state.users.has("u2")).toBe(false);
+    expect((await get("/settings", bob)).status).toBe(302);
+  });
+});
+
+describe("profiles", () => {
+  test("treat malformed usernames as unknown", async () => {
+    expect((await get("/user/%E0")).status).toBe(404);
+    expect((await get("/user/%E0/export", admin)).status).toBe(404);
+  });
+});
+
+describe("persistence", () => {
+  test("reload saved state from SQLite", async () => {
+    const id = await createProblem(carol, "Saved Problem");
+    await server.app.saveState();
+
+    const storage = createSqliteStorage(join(server.dataDir, "data.db"));
+    const data = await storage.load();
+    expect(data.problems.map(([key]) => key)).toContain(id);
+
+    await server.app.loadState();
+    expect(server.app.state.problems.get(id)?.title).toBe("Saved Problem");
+    expect(server.app.state.users.has("u2")).toBe(false);
+  });
+
+  test("reload saved state from a JSON file", async () => {
+    const dataDir = mkdtempSync(join(tmpdir(), "server-"));
+    const path = join(dataDir, "data.json");
+    const config = { baseUrl: "http://localhost", port: 0, providers };
+
+    const first = await createServer({
+      ...config,
+      storage: createJsonStorage(path),
+    });
+    first.state.users.set("u1", {
+      id: "u1",
+      username: "dana",
+      avatarUrl: "",
+      identities: [{ provider: "github", id: "4", username: "dana" }],
+    });
+    await first.stop();
+
+    const second = await createServer({
+      ...config,
+      storage: createJsonStorage(path),
+    });
+    expect(second.state.users.get("u1")?.username).toBe("dana");
+    await second.stop();
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+});
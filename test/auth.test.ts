@@ -0,0 +1,116 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { startServer } from "./server";
+
+let server: Awaited<ReturnType<typeof startServer>>;
+
+beforeAll(async () => {
+  server = await startServer(3924, {
+    // Saved before identities, when users were GitHub accounts
+    users: [["u1", { id: "u1", githubId: 1, username: "alice" }]],
+    sessions: [
+      ["s1", { userId: "u1", expiresAt: Date.now() + 60_000, csrfToken: "" }],
+    ],
+  });
+});
+
+afterAll(() => server.stop());
+
+// Goes through the dev provider's login flow and returns the response from
+// the callback
+async function devLogin(username: string, path = "/auth/dev", cookie = "") {
+  const start = await fetch(server.url + path, {
+    headers: { Cookie: cookie },
+    redirect: "manual",
+  });
+  const authorize = new URL(start.headers.get("location")!, server.url);
+  expect(authorize.pathname).toBe("/auth/dev/authorize");
+  const state = authorize.searchParams.get("state")!;
+  const stateCookie = start.headers.get("set-cookie")!.split(";")[0]!;
+
+  return fetch(
+    `${server.url}/auth/dev/callback?state=${state}&code=${username}`,
+    {
+      headers: { Cookie: [stateCookie, cookie].filter(Boolean).join("; ") },
+      redirect: "manual",
+    },
+  );
+}
+
+function sessionCookie(res: Response) {
+  const cookie = res.headers
+    .getSetCookie()
+    .find((c) => c.startsWith("session="));
+  return cookie!.split(";")[0]!;
+}
+
+async function settings(cookie: string) {
+  return (
+    await fetch(`${server.url}/settings`, { headers: { Cookie: cookie } })
+  ).text();
+}
+
+describe("login providers", () => {
+  test("list every configured provider", async () => {
+    const text = await (
+      await fetch(`${server.url}/login?return=/contests`)
+    ).text();
+    expect(text).toContain('href="/auth/github?return=%2Fcontests"');
+    expect(text).toContain('href="/auth/dev?return=%2Fcontests"');
+  });
+
+  test("create a user on the first dev login", async () => {
+    const res = await devLogin("carol");
+    expect(res.status).toBe(302);
+    const text = await settings(sessionCookie(res));
+    expect(text).toContain("@carol");
+    expect(text).toMatch(/<td>Dev<\/td>\s*<td>carol<\/td>/);
+  });
+
+  test("give a taken username a number", async () => {
+    const res = await devLogin("alice");
+    expect(await settings(sessionCookie(res))).toContain("@alice-2");
+  });
+
+  test("link another account to the logged in user", async () => {
+    const cookie = sessionCookie(await devLogin("dave"));
+    const linked = await devLogin("dave-laptop", "/auth/dev?link=1", cookie);
+    expect(linked.headers.get("location")).toBe("/");
+    expect(linked.headers.getSetCookie().join()).not.toContain("session=");
+
+    // Either account now logs in as dave
+    const again = await devLogin("dave-laptop");
+    expect(await settings(sessionCookie(again))).toContain("@dave</a>");
+  });
+
+  test("refuse to link an account of another user", async () => {
+    const cookie = sessionCookie(await devLogin("erin"));
+    const res = await devLogin("carol", "/auth/dev?link=1", cookie);
+    expect(res.status).toBe(409);
+  });
+
+  test("reject invalid dev usernames", async () => {
+    expect((await devLogin("no%20spaces")).status).toBe(502);
+  });
+
+  test("keep GitHub accounts saved before identities", async () => {
+    const text = await settings("session=s1");
+    expect(text).toMatch(/<td>GitHub<\/td>\s*<td>alice<\/td>/);
+    expect(text).toContain('href="/auth/dev?link=1&return=/settings"');
+  });
+
+  test("make admins of login accounts, not usernames", async () => {
+    // Alice's GitHub account is the admin's
+    const admin = await fetch(`${server.url}/admin`, {
+      headers: { Cookie: "session=s1" },
+    });
+    expect(admin.status).toBe(200);
+
+    // Anyone can sign up as "admin" with another provider
+    const cookie = sessionCookie(await devLogin("admin"));
+    expect(await settings(cookie)).toContain("@admin");
+    const res = await fetch(`${server.url}/admin`, {
+      headers: { Cookie: cookie },
+    });
+    expect(res.status).toBe(403);
+  });
+});
@@ -0,0 +1,272 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+  createProblemBundle,
+  parseBackup,
+  parseProblemBundle,
+  problemFingerprint,
+  type BundledProblem,
+} from "../src/bundle";
+import { admin, CSRF, session, startServer, user } from "./server";
+
+const HOUR = 60 * 60 * 1000;
+
+const sample: BundledProblem = {
+  id: "p1",
+  title: "Add",
+  author: "alice",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  parts: [{ description: "Add the numbers." }],
+  inputs: [{ name: "numbers.txt", input: "1 2 3\n", answers: ["6"] }],
+  checker: { type: "exact", settings: {} },
+  numericHints: false,
+};
+
+describe("problem bundles", () => {
+  test("read back what was written", () => {
+    expect(parseProblemBundle(createProblemBundle([sample]))).toEqual([
+      {
+        ...sample,
+        judge: undefined,
+        releaseAt: undefined,
+        tags: undefined,
+        difficulty: undefined,
+        hints: undefined,
+        hintPenaltyMinutes: undefined,
+      },
+    ]);
+  });
+
+  test("say what is wrong with invalid bundles", () => {
+    expect(() => parseProblemBundle("{")).toThrow("not valid JSON");
+    expect(() => parseProblemBundle("[]")).toThrow("not a problem bundle");
+    const bundle = JSON.parse(createProblemBundle([sample]));
+    bundle.problems[0].inputs[0].answers = ["6", "7"];
+    expect(() => parseProblemBundle(JSON.stringify(bundle))).toThrow(
+      "problem 1: input 1 needs one answer per part",
+    );
+  });
+
+  test("give copies of a problem the same fingerprint", () => {
+    const copy = { ...sample, id: "other", author: "bob" };
+    expect(problemFingerprint(copy)).toBe(problemFingerprint(sample));
+    expect(problemFingerprint({ ...sample, title: "Sum" })).not.toBe(
+      problemFingerprint(sample),
+    );
+  });
+});
+
+describe("backups", () => {
+  test("read a data.json too", () => {
+    const data = parseBackup(
+      JSON.stringify({ users: [["u1", { id: "u1", username: "alice" }]] }),
+    );
+    expect(data.users).toEqual([["u1", { id: "u1", username: "alice" }]]);
+    expect(data.problems).toEqual([]);
+  });
+
+  test("refuse records kept under another id", () => {
+    expect(() =>
+      parseBackup(JSON.stringify({ users: [["u1", { id: "u2" }]] })),
+    ).toThrow("users record u1 has a different id");
+  });
+
+  test("refuse records missing fields the app needs", () => {
+    expect(() =>
+      parseBackup(JSON.stringify({ users: [["u1", { id: "u1" }]] })),
+    ).toThrow("username of users record u1 must be a string");
+    expect(() =>
+      parseBackup(
+        JSON.stringify({
+          users: [["u1", { id: "u1", username: "alice" }]],
+          groups: [["g1", { id: "g1", name: "club", ownerId: "u1" }]],
+        }),
+      ),
+    ).toThrow("memberIds of groups record g1 must be an array");
+  });
+});
+
+describe("import and export", () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+
+  beforeAll(async () => {
+    const now = Date.now();
+    server = await startServer(3929, {
+      users: [user("u1", "alice"), user("u2", "bob"), admin("u3")],
+      problems: [
+        [
+          "p1",
+          {
+            id: "p1",
+            title: "Add",
+            parts: [{ description: "Add the numbers." }],
+            inputs: [
+              {
+                inputFile: "1 2 3\n",
+                inputFileName: "numbers.txt",
+                correctAnswers: ["6"],
+              },
+            ],
+            checker: { type: "exact", settings: {} },
+            numericHints: false,
+            authorId: "u1",
+            createdAt: now - HOUR,
+            tags: ["math"],
+            hints: [{ text: "Use +.", afterWrongAnswers: 2 }],
+          },
+        ],
+      ],
+      sessions: [session("s1", "u1"), session("s2", "u2"), session("s3", "u3")],
+    });
+  });
+
+  afterAll(() => server.stop());
+
+  function get(path: string, session: string) {
+    return fetch(`${server.url}${path}`, {
+      headers: { Cookie: `session=${session}` },
+      redirect: "manual",
+    });
+  }
+
+  function upload(
+    path: string,
+    session: string,
+    field: string,
+    text: string,
+    fields: Record<string, string> = {},
+  ) {
+    const form = new FormData();
+    form.append("csrf", CSRF);
+    form.append(field, new File([text], "bundle.json"));
+    for (const [name, value] of Object.entries(fields)) {
+      form.append(name, value);
+    }
+    return fetch(`${server.url}${path}`, {
+      method: "POST",
+      headers: { Cookie: `session=${session}` },
+      body: form,
+      redirect: "manual",
+    });
+  }
+
+  function problemsBy(userId: string) {
+    return Array.from(server.app.state.problems.values()).filter(
+      (p) => p.authorId === userId,
+    );
+  }
+
+  let exported: string;
+
+  test("let authors export their problems", async () => {
+    expect((await get("/problem/p1/export", "s2")).status).toBe(403);
+    const res = await get("/problem/p1/export", "s1");
+    expect(res.headers.get("content-disposition")).toContain("Add.json");
+    exported = await res.text();
+
+    const [problem] = parseProblemBundle(exported);
+    expect(problem).toMatchObject({
+      id: "p1",
+      author: "alice",
+      inputs: [{ name: "numbers.txt", input: "1 2 3\n", answers: ["6"] }],
+      tags: ["math"],
+      hints: [{ text: "Use +.", afterWrongAnswers: 2 }],
+    });
+  });
+
+  test("export all of an author's problems", async () => {
+    expect((await get("/user/alice/export", "s2")).status).toBe(403);
+    const bundle = await (await get("/user/alice/export", "s3")).text();
+    expect(parseProblemBundle(bundle).map((p) => p.id)).toEqual(["p1"]);
+  });
+
+  test("import a bundle as new problems", async () => {
+    const res = await upload("/import-problems", "s2", "bundle", exported);
+    expect(await res.text()).toContain("imported 1 problem");
+
+    const [copy] = problemsBy("u2");
+    expect(copy!.id).not.toBe("p1");
+    expect(copy).toMatchObject({
+      title: "Add",
+      inputs: [{ inputFile: "1 2 3\n", correctAnswers: ["6"] }],
+      hints: [{ text: "Use +.", afterWrongAnswers: 2 }],
+    });
+  });
+
+  test("skip problems that are already there", async () => {
+    const res = await upload("/import-problems", "s2", "bundle", exported);
+    const text = await res.text();
+    expect(text).toContain("imported 0 problems");
+    expect(text).toContain("already here as");
+    expect(problemsBy("u2")).toHaveLength(1);
+  });
+
+  test("import nothing from an invalid bundle", async () => {
+    const bundle = JSON.parse(exported);
+    bundle.problems.push({
+      ...bundle.problems[0],
+      title: "Too Many Tags",
+      tags: ["a", "b", "c", "d", "e", "f"],
+    });
+    bundle.problems[0].title = "Fine";
+    const res = await upload(
+      "/import-problems",
+      "s1",
+      "bundle",
+      JSON.stringify(bundle),
+    );
+    expect(res.status).toBe(400);
+    expect(await res.text()).toContain("Problem 2: A problem can have at most");
+    expect(problemsBy("u1")).toHaveLength(1);
+  });
+
+  test("let admins import with the original authors", async () => {
+    const bundle = JSON.parse(exported);
+    bundle.problems[0].title = "Add Again";
+    bundle.problems.push({ ...bundle.problems[0], title: "Orphan" });
+    bundle.problems[1].author = "nobody";
+    expect(
+      (
+        await upload(
+          "/admin/import-problems",
+          "s2",
+          "bundle",
+          JSON.stringify(bundle),
+        )
+      ).status,
+    ).toBe(403);
+
+    await upload(
+      "/admin/import-problems",
+      "s3",
+      "bundle",
+      JSON.stringify(bundle),
+      { keepAuthors: "1" },
+    );
+    expect(problemsBy("u1").map((p) => p.title)).toContain("Add Again");
+    expect(problemsBy("u3").map((p) => p.title)).toEqual(["Orphan"]);
+  });
+
+  test("back up and restore the whole instance", async () => {
+    expect((await get("/admin/backup", "s1")).status).toBe(403);
+    const backup = await (await get("/admin/backup", "s3")).text();
+    expect(JSON.parse(backup).collections.sessions).toBeUndefined();
+
+    const count = server.app.state.problems.size;
+    server.app.state.problems.delete("p1");
+    server.app.state.users.delete("u2");
+
+    const res = await upload("/admin/restore", "s3", "backup", backup);
+    expect(res.status).toBe(302);
+    expect(server.app.state.problems.size).toBe(count);
+    expect(server.app.state.users.has("u2")).toBe(true);
+    // Everyone stays logged in
+    expect(server.app.state.sessions.has("s2")).toBe(true);
+  });
+
+  test("refuse to restore something that isn't a backup", async () => {
+    const res = await upload("/admin/restore", "s3", "backup", exported);
+    expect(res.status).toBe(400);
+    expect(await res.text()).toBe("Invalid backup: not a backup");
+    expect(server.app.state.problems.has("p1")).toBe(true);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, test } from "bun:test";
+import {
+  checkAnswer,
+  registerChecker,
+  validateChecker,
+  type CheckerSettings,
+} from "../src/checkers";
+
+function check(
+  type: string,
+  answer: string,
+  expected: string,
+  settings: CheckerSettings = {},
+) {
+  return checkAnswer({ type, settings }, answer, expected);
+}
+
+describe("exact", () => {
+  test("ignores surrounding whitespace only", () => {
+    expect(check("exact", " 42\n", "42")).toBe(true);
+    expect(check("exact", "4 2", "42")).toBe(false);
+    expect(check("exact", "Abc", "abc")).toBe(false);
+  });
+
+  test("is used for unknown checker types", () => {
+    expect(check("removed", "42", "42")).toBe(true);
+    expect(check("removed", "42.0", "42")).toBe(false);
+  });
+});
+
+describe("case-insensitive", () => {
+  test("ignores case", () => {
+    expect(check("case-insensitive", "HELLO World", "hello world")).toBe(true);
+    expect(check("case-insensitive", "hello", "help")).toBe(false);
+  });
+});
+
+describe("numeric", () => {
+  test("needs an exact number without tolerances", () => {
+    expect(check("numeric", "3.50", "3.5")).toBe(true);
+    expect(check("numeric", "3.51", "3.5")).toBe(false);
+  });
+
+  test("accepts answers within the absolute tolerance", () => {
+    const settings = { absolute: "0.01" };
+    expect(check("numeric", "3.141", "3.14159", settings)).toBe(true);
+    expect(check("numeric", "3.13", "3.14159", settings)).toBe(false);
+  });
+
+  test("accepts answers within the relative tolerance", () => {
+    const settings = { relative: "1e-3" };
+    expect(check("numeric", "1000500", "1000000", settings)).toBe(true);
+    expect(check("numeric", "1002000", "1000000", settings)).toBe(false);
+  });
+
+  test("rejects answers that aren't numbers", () => {
+    expect(check("numeric", "", "0", { absolute: "1" })).toBe(false);
+    expect(check("numeric", "abc", "0", { absolute: "1" })).toBe(false);
+    expect(check("numeric", "Infinity", "0", { absolute: "1" })).toBe(false);
+  });
+
+  test("validates tolerances and correct answers", () => {
+    const config = (settings: CheckerSettings) => ({
+      type: "numeric",
+      settings,
+    });
+    expect(() => validateChecker(config({ absolute: "-1" }), ["1"])).toThrow();
+    expect(() => validateChecker(config({ relative: "x" }), ["1"])).toThrow();
+    expect(() => validateChecker(config({}), ["1", "two"])).toThrow();
+    expect(() =>
+      validateChecker(config({ absolute: "0.5" }), ["1", "2.5e3"]),
+    ).not.toThrow();
+  });
+});
+
+describe("any-of", () => {
+  test("accepts any line of the correct answer", () => {
+    expect(check("any-of", "colour", "color\ncolour\n")).toBe(true);
+    expect(check("any-of", " color ", "color\r\ncolour")).toBe(true);
+    expect(check("any-of", "", "color\n\ncolour")).toBe(false);
+  });
+});
+
+describe("unordered", () => {
+  test("compares items in any order", () => {
+    expect(check("unordered", "3, 1,2", "1,2,3")).toBe(true);
+    expect(check("unordered", "3 1 2", "1,2,3")).toBe(true);
+    expect(check("unordered", "1,2", "1,2,3")).toBe(false);
+    expect(check("unordered", "1,1,2", "1,2,2")).toBe(false);
+  });
+
+  test("splits on the configured separator", () => {
+    const settings = { separator: ";" };
+    expect(check("unordered", "b c; a", "a;b c", settings)).toBe(true);
+    expect(check("unordered", "a b c", "a;b c", settings)).toBe(false);
+  });
+});
+
+describe("multiline", () => {
+  test("normalizes whitespace and line endings", () => {
+    expect(check("multiline", "1  2\r\n3\t4\n\n", "1 2\n3 4")).toBe(true);
+    expect(check("multiline", "  1 2\n   3 4  ", "1 2\n3 4")).toBe(true);
+  });
+
+  test("keeps line breaks significant", () => {
+    expect(check("multiline", "1 2 3 4", "1 2\n3 4")).toBe(false);
+    expect(check("multiline", "1 2\n\n3 4", "1 2\n3 4")).toBe(false);
+  });
+});
+
+describe("registerChecker", () => {
+  test("adds checkers that problems can use", () => {
+    registerChecker("palindrome", {
+      label: "palindrome",
+      hint: "any palindrome is accepted",
+      check: (answer) => answer === [...answer].reverse().join(""),
+    });
+    expect(check("palindrome", "racecar", "")).toBe(true);
+    expect(() =>
+      validateChecker({ type: "palindrome", settings: {} }, []),
+    ).not.toThrow();
+  });
+
+  test("unknown types don't validate", () => {
+    expect(() => validateChecker({ type: "nope", settings: {} }, [])).toThrow(
+      'Unknown answer checker "nope"',
+    );
+  });
+});
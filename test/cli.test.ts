@@ -0,0 +1,116 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, rmSync, statSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { hashToken } from "../src/api";
+import { startServer } from "./server";
+
+const TOKEN = "scp_" + "2".repeat(40);
+const HOUR = 60 * 60 * 1000;
+
+let server: Awaited<ReturnType<typeof startServer>>;
+let home: string;
+
+beforeAll(async () => {
+  home = mkdtempSync(join(tmpdir(), "cli-"));
+  server = await startServer(3921, {
+    users: [["u1", { id: "u1", githubId: 1, username: "alice" }]],
+    problems: [
+      [
+        "p1",
+        {
+          id: "p1",
+          title: "Sum It Up",
+          parts: [{ description: "Add the numbers." }],
+          inputs: [{ inputFile: "1\n2\n3\n", correctAnswers: ["6"] }],
+          checker: { type: "exact", settings: {} },
+          numericHints: false,
+          authorId: "u1",
+          createdAt: Date.now() - HOUR,
+        },
+      ],
+    ],
+    tokens: [
+      [
+        hashToken(TOKEN),
+        { id: hashToken(TOKEN), userId: "u1", name: "cli", createdAt: 0 },
+      ],
+    ],
+  });
+});
+
+afterAll(async () => {
+  await server.stop();
+  rmSync(home, { recursive: true, force: true });
+});
+
+async function cli(args: string[], stdin = "") {
+  const proc = Bun.spawn(
+    ["bun", join(import.meta.dir, "..", "cli.ts"), ...args],
+    {
+      cwd: home,
+      env: {
+        ...process.env,
+        XDG_CONFIG_HOME: join(home, "config"),
+        XDG_CACHE_HOME: join(home, "cache"),
+      },
+      stdin: new TextEncoder().encode(stdin),
+      stdout: "pipe",
+      stderr: "pipe",
+    },
+  );
+  const [stdout, stderr, exitCode] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+    proc.exited,
+  ]);
+  return { stdout, stderr, exitCode };
+}
+
+describe("cli", () => {
+  test("needs a login first", async () => {
+    const { stderr, exitCode } = await cli(["list"]);
+    expect(exitCode).toBe(2);
+    expect(stderr).toContain("Not logged in");
+  });
+
+  test("logs in with a pasted token", async () => {
+    const { stdout } = await cli(["login", "--server", server.url], TOKEN);
+    expect(stdout).toContain("as alice");
+    const config = join(home, "config", "coding-problems", "config.json");
+    expect(statSync(config).mode & 0o777).toBe(0o600);
+  });
+
+  test("lists problems", async () => {
+    const { stdout } = await cli(["list"]);
+    expect(stdout).toContain("p1  Sum It Up");
+  });
+
+  test("fetches the input once and writes a template", async () => {
+    const { stdout } = await cli(["fetch", "p1"]);
+    expect(stdout).toContain("sum-it-up/");
+    expect(await Bun.file(join(home, "sum-it-up", "input.txt")).text()).toBe(
+      "1\n2\n3\n",
+    );
+    expect(existsSync(join(home, "sum-it-up", "solution.ts"))).toBe(true);
+
+    // Later fetches read the input from the cache
+    const cached = new Bun.Glob("**/p1").scanSync(join(home, "cache"));
+    const [cacheFile] = Array.from(cached);
+    await Bun.write(join(home, "cache", cacheFile!), "from cache");
+    await cli(["fetch", "p1", "--dir", "again"]);
+    expect(await Bun.file(join(home, "again", "input.txt")).text()).toBe(
+      "from cache",
+    );
+  });
+
+  test("submits piped answers", async () => {
+    const wrong = await cli(["submit", "p1"], "5\n");
+    expect(wrong.stdout).toContain("✗ wrong");
+    expect(wrong.exitCode).toBe(1);
+
+    const { stdout } = await cli(["status", "p1"]);
+    expect(stdout).toContain("0/1 parts solved");
+    expect(stdout).toContain("next answer allowed");
+  });
+});
@@ -0,0 +1,172 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { scoreContest, type ContestRules } from "../src/contest";
+import { startServer } from "./server";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const rules: ContestRules = {
+  startAt: 0,
+  endAt: 3 * HOUR,
+  problems: [
+    { id: "a", parts: 1 },
+    { id: "b", parts: 2 },
+  ],
+  penaltyMinutes: 20,
+};
+
+function sub(
+  userId: string,
+  problemId: string,
+  minute: number,
+  isCorrect: boolean,
+  part = 0,
+) {
+  return { userId, problemId, part, isCorrect, submittedAt: minute * MINUTE };
+}
+
+describe("scoreContest", () => {
+  test("ranks by solves, then penalty time", () => {
+    const rows = scoreContest(rules, [
+      sub("u1", "a", 10, false),
+      sub("u1", "a", 30, true),
+      sub("u2", "a", 40, true),
+      sub("u3", "a", 5, true),
+      sub("u3", "b", 50, true, 0),
+      sub("u3", "b", 70, true, 1),
+    ]);
+    expect(
+      rows.map((r) => [r.userId, r.rank, r.solved, r.penaltyMinutes]),
+    ).toEqual([
+      ["u3", 1, 2, 75],
+      ["u2", 2, 1, 40],
+      ["u1", 3, 1, 50],
+    ]);
+    expect(rows[0]!.results[1]).toMatchObject({
+      solvedParts: 2,
+      solvedAt: 70 * MINUTE,
+    });
+  });
+
+  test("only counts answers given during the contest", () => {
+    const rows = scoreContest(rules, [
+      sub("u1", "a", -1, true),
+      sub("u1", "a", 200, true),
+      sub("u1", "other", 20, true),
+    ]);
+    expect(rows).toEqual([]);
+  });
+
+  test("ignores answers after a solve and counts parts", () => {
+    const [row] = scoreContest(rules, [
+      sub("u1", "b", 10, true, 0),
+      sub("u1", "b", 11, false, 1),
+    ]);
+    expect(row!.solved).toBe(0);
+    expect(row!.results[1]).toEqual({
+      solvedParts: 1,
+      wrongAttempts: 1,
+      pendingAttempts: 0,
+    });
+  });
+
+  test("hides answers after the freeze", () => {
+    const [row] = scoreContest(
+      rules,
+      [sub("u1", "a", 100, false), sub("u1", "a", 170, true)],
+      150 * MINUTE,
+    );
+    expect(row!.solved).toBe(0);
+    expect(row!.results[0]).toMatchObject({
+      wrongAttempts: 1,
+      pendingAttempts: 1,
+    });
+  });
+
+  test("shares ranks on full ties", () => {
+    const rows = scoreContest(rules, [
+      sub("u1", "a", 10, true),
+      sub("u2", "a", 10, true),
+      sub("u3", "a", 11, true),
+    ]);
+    expect(rows.map((r) => r.rank)).toEqual([1, 1, 3]);
+  });
+});
+
+describe("contest pages", () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+
+  beforeAll(async () => {
+    const now = Date.now();
+    const problem = (id: string, title: string) => ({
+      id,
+      title,
+      parts: [{ description: "Add the numbers." }],
+      inputs: [{ correctAnswers: ["6"] }],
+      checker: { type: "exact", settings: {} },
+      numericHints: false,
+      authorId: "u1",
+      createdAt: now - HOUR,
+    });
+    const contest = (id: string, problemIds: string[], startAt: number) => ({
+      id,
+      title: `Contest ${id}`,
+      authorId: "u1",
+      problemIds,
+      startAt,
+      endAt: startAt + HOUR,
+      penaltyMinutes: 20,
+      freezeMinutes: 0,
+      createdAt: now - HOUR,
+    });
+
+    server = await startServer(3923, {
+      users: [
+        ["u1", { id: "u1", githubId: 1, username: "alice" }],
+        ["u2", { id: "u2", githubId: 2, username: "bob" }],
+      ],
+      problems: [
+        ["soon", problem("soon", "Upcoming Contest Problem")],
+        ["done", problem("done", "Past Contest Problem")],
+      ],
+      submissions: [
+        [
+          "x1",
+          {
+            id: "x1",
+            problemId: "done",
+            userId: "u2",
+            part: 0,
+            answer: "6",
+            isCorrect: true,
+            submittedAt: now - 90 * MINUTE,
+          },
+        ],
+      ],
+      contests: [
+        ["c1", contest("c1", ["soon"], now + HOUR)],
+        ["c2", contest("c2", ["done"], now - 2 * HOUR)],
+      ],
+    });
+  });
+
+  afterAll(() => server.stop());
+
+  test("hide problems until the contest starts", async () => {
+    expect(await (await fetch(`${server.url}/problem/soon`)).text()).toContain(
+      "upcoming problem",
+    );
+    expect(await (await fetch(`${server.url}/`)).text()).not.toContain(
+      "Upcoming Contest Problem",
+    );
+    expect(
+      await (await fetch(`${server.url}/contest/c1`)).text(),
+    ).not.toContain("Upcoming Contest Problem");
+  });
+
+  test("show the scoreboard", async () => {
+    const text = await (await fetch(`${server.url}/contest/c2`)).text();
+    expect(text).toContain("Past Contest Problem");
+    expect(text).toMatch(/@bob<\/a><\/td>\s*<td>1<\/td>\s*<td>30<\/td>/);
+  });
+});
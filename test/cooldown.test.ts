@@ -0,0 +1,143 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { startServer } from "./server";
+
+const TOKEN = "a".repeat(32);
+const MINUTE = 60 * 1000;
+
+let server: Awaited<ReturnType<typeof startServer>>;
+
+function problem(id: string) {
+  return [
+    id,
+    {
+      id,
+      title: id,
+      parts: [{ description: "guess" }],
+      inputs: [{ correctAnswers: ["42"] }],
+      checker: { type: "exact", settings: {} },
+      numericHints: true,
+      authorId: "u1",
+      createdAt: Date.now() - 60 * MINUTE,
+    },
+  ];
+}
+
+function wrongAnswers(userId: string, problemId: string, times: number[]) {
+  return times.map((at, i) => [
+    `${userId}-${problemId}-${i}`,
+    {
+      id: `${userId}-${problemId}-${i}`,
+      problemId,
+      userId,
+      part: 0,
+      answer: "1",
+      isCorrect: false,
+      submittedAt: at,
+    },
+  ]);
+}
+
+beforeAll(async () => {
+  const now = Date.now();
+  const users = ["u1", "u2", "u3", "u4"];
+  server = await startServer(3919, {
+    users: users.map((id) => [
+      id,
+      { id, githubId: Number(id.slice(1)), username: id },
+    ]),
+    problems: [problem("fresh"), problem("streak"), problem("spam")],
+    submissions: [
+      // Three wrong answers: one minute each, long over
+      ...wrongAnswers("u3", "streak", [
+        now - 5 * MINUTE,
+        now - 4 * MINUTE,
+        now - 2 * MINUTE,
+      ]),
+      // Five wrong answers: the last one costs four minutes
+      ...wrongAnswers("u4", "streak", [
+        now - 9 * MINUTE,
+        now - 8 * MINUTE,
+        now - 6 * MINUTE,
+        now - 4 * MINUTE,
+        now - 2 * MINUTE,
+      ]),
+    ],
+    sessions: users.map((id) => [
+      id,
+      { userId: id, expiresAt: now + 60 * MINUTE, csrfToken: TOKEN },
+    ]),
+  });
+});
+
+afterAll(() => server.stop());
+
+function submit(problemId: string, session: string, answer: string) {
+  return fetch(`${server.url}/problem/${problemId}/submit`, {
+    method: "POST",
+    headers: { Cookie: `session=${session}` },
+    body: new URLSearchParams({ answer, part: "0", csrf: TOKEN }),
+    redirect: "manual",
+  });
+}
+
+async function view(problemId: string, session: string) {
+  const res = await fetch(`${server.url}/problem/${problemId}`, {
+    headers: { Cookie: `session=${session}` },
+  });
+  return res.text();
+}
+
+describe("wrong answer cooldown", () => {
+  test("starts after a wrong answer and shows a hint", async () => {
+    expect((await submit("fresh", "u2", "50")).status).toBe(302);
+
+    const page = await view("fresh", "u2");
+    expect(page).toContain("your answer is too high");
+    expect(page).toMatch(/please wait 00:0[01]:\d\d before trying again/);
+    expect(page).not.toContain('name="answer"');
+
+    const retry = await submit("fresh", "u2", "42");
+    expect(retry.status).toBe(429);
+    expect(Number(retry.headers.get("retry-after"))).toBeGreaterThan(50);
+  });
+
+  test("is over a minute after the third wrong answer", async () => {
+    expect(await view("streak", "u3")).toContain('name="answer"');
+    expect((await submit("streak", "u3", "10")).status).toBe(302);
+    expect(await view("streak", "u3")).toContain("your answer is too low");
+  });
+
+  test("doubles with every further wrong answer", async () => {
+    const page = await view("streak", "u4");
+    expect(page).toMatch(/please wait 00:0[12]:\d\d before trying again/);
+    expect((await submit("streak", "u4", "42")).status).toBe(429);
+  });
+});
+
+describe("rate limits", () => {
+  test("cap submissions per user per minute", async () => {
+    const statuses: number[] = [];
+    for (let i = 0; i < 11; i++) {
+      const res = await submit("spam", "u1", "1");
+      statuses.push(res.status);
+      if (i === 10) {
+        expect(await res.text()).toContain("Too many submissions");
+      }
+    }
+    // The first is graded, the rest wait out the cooldown until the cap
+    expect(statuses[0]).toBe(302);
+    expect(statuses[10]).toBe(429);
+  });
+
+  test("cap login attempts per client per minute", async () => {
+    const statuses: number[] = [];
+    for (let i = 0; i < 21; i++) {
+      const res = await fetch(`${server.url}/auth/github`, {
+        redirect: "manual",
+      });
+      statuses.push(res.status);
+    }
+    expect(statuses.slice(0, 20).every((status) => status === 302)).toBe(true);
+    expect(statuses[20]).toBe(429);
+  });
+});
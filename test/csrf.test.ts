@@ -0,0 +1,134 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { startServer } from "./server";
+
+const TOKEN = "a".repeat(32);
+
+let server: Awaited<ReturnType<typeof startServer>>;
+
+beforeAll(async () => {
+  const now = Date.now();
+  server = await startServer(3918, {
+    users: [["u1", { id: "u1", githubId: 1, username: "alice" }]],
+    problems: [
+      [
+        "p1",
+        {
+          id: "p1",
+          title: "sum",
+          parts: [{ description: "add them up" }],
+          inputs: [{ correctAnswers: ["6"] }],
+          authorId: "u1",
+          createdAt: now - 60_000,
+        },
+      ],
+    ],
+    submissions: [],
+    sessions: [
+      ["s1", { userId: "u1", expiresAt: now + 3_600_000, csrfToken: TOKEN }],
+      // Saved before CSRF tokens existed
+      ["legacy", { userId: "u1", expiresAt: now + 3_600_000 }],
+    ],
+  });
+});
+
+afterAll(() => server.stop());
+
+function post(path: string, fields: Record<string, string>, session = "s1") {
+  return fetch(server.url + path, {
+    method: "POST",
+    headers: { Cookie: `session=${session}` },
+    body: new URLSearchParams(fields),
+    redirect: "manual",
+  });
+}
+
+describe("csrf tokens", () => {
+  test("are rendered into every form", async () => {
+    const res = await fetch(server.url + "/problem/p1", {
+      headers: { Cookie: "session=s1" },
+    });
+    const body = await res.text();
+    const forms = body.match(/<form[^>]*method="post"/g) ?? [];
+    const tokens = body.match(/name="csrf" value="a{32}"/g) ?? [];
+    expect(forms.length).toBeGreaterThan(0);
+    expect(tokens.length).toBe(forms.length);
+  });
+
+  test("posts without a token are rejected", async () => {
+    const res = await post("/problem/p1/submit", { answer: "5" });
+    expect(res.status).toBe(403);
+  });
+
+  test("posts with a wrong token are rejected", async () => {
+    const res = await post("/problem/p1/delete", { csrf: "b".repeat(32) });
+    expect(res.status).toBe(403);
+  });
+
+  test("posts with the session's token go through", async () => {
+    const res = await post("/problem/p1/submit", { answer: "5", csrf: TOKEN });
+    expect(res.status).toBe(302);
+  });
+
+  test("sessions saved without a token get one", async () => {
+    const res = await fetch(server.url + "/", {
+      headers: { Cookie: "session=legacy" },
+    });
+    expect(await res.text()).toMatch(/name="csrf" value="[0-9a-f]{32}"/);
+  });
+});
+
+describe("github login", () => {
+  async function startLogin(returnTo: string) {
+    const res = await fetch(
+      `${server.url}/auth/github?return=${encodeURIComponent(returnTo)}`,
+      { redirect: "manual" },
+    );
+    const location = new URL(res.headers.get("location")!);
+    const cookie = res.headers.get("set-cookie")!;
+    return { state: location.searchParams.get("state"), cookie };
+  }
+
+  test("uses a random state kept in a cookie", async () => {
+    const first = await startLogin("/problem/p1");
+    const second = await startLogin("/problem/p1");
+    expect(first.state).toMatch(/^[0-9a-f]{32}$/);
+    expect(first.state).not.toBe(second.state);
+    expect(first.cookie).toContain(`oauth_state=${first.state}:`);
+    expect(first.cookie).toContain("HttpOnly");
+    expect(first.cookie).toContain("SameSite=Lax");
+  });
+
+  test.each(["https://evil.com", "//evil.com", "/\\evil.com", "javascript:1"])(
+    "drops return path %s",
+    async (returnTo) => {
+      const { state, cookie } = await startLogin(returnTo);
+      expect(cookie).toContain(
+        `oauth_state=${state}:${encodeURIComponent("/")};`,
+      );
+    },
+  );
+
+  test("keeps same-origin return paths", async () => {
+    const { state, cookie } = await startLogin("/problem/p1?part=2");
+    expect(cookie).toContain(
+      `oauth_state=${state}:${encodeURIComponent("/problem/p1?part=2")};`,
+    );
+  });
+
+  test("rejects a callback whose state doesn't match the cookie", async () => {
+    const { cookie } = await startLogin("/");
+    const res = await fetch(
+      `${server.url}/auth/github/callback?code=x&state=${"c".repeat(32)}`,
+      { headers: { Cookie: cookie.split(";")[0]! } },
+    );
+    expect(res.status).toBe(400);
+  });
+
+  test("rejects a callback without the state cookie", async () => {
+    const { state } = await startLogin("/");
+    const res = await fetch(
+      `${server.url}/auth/github/callback?code=x&state=${state}`,
+    );
+    expect(res.status).toBe(400);
+  });
+});
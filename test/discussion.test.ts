@@ -0,0 +1,134 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { admin, CSRF, session, startServer, user } from "./server";
+
+const HOUR = 60 * 60 * 1000;
+
+let server: Awaited<ReturnType<typeof startServer>>;
+
+beforeAll(async () => {
+  const now = Date.now();
+  server = await startServer(3927, {
+    users: [
+      user("u1", "alice"),
+      user("u2", "bob"),
+      user("u3", "carol"),
+      admin("u4"),
+    ],
+    problems: [
+      [
+        "p1",
+        {
+          id: "p1",
+          title: "Add",
+          parts: [{ description: "Add the numbers." }],
+          inputs: [{ correctAnswers: ["6"] }],
+          checker: { type: "exact", settings: {} },
+          numericHints: false,
+          authorId: "u1",
+          createdAt: now - HOUR,
+        },
+      ],
+    ],
+    submissions: [
+      [
+        "x1",
+        {
+          id: "x1",
+          problemId: "p1",
+          userId: "u2",
+          part: 0,
+          answer: "6",
+          isCorrect: true,
+          submittedAt: now - HOUR / 2,
+        },
+      ],
+    ],
+    sessions: [
+      session("s1", "u1"),
+      session("s2", "u2"),
+      session("s3", "u3"),
+      session("s4", "u4"),
+    ],
+  });
+});
+
+afterAll(() => server.stop());
+
+function get(path: string, session: string) {
+  return fetch(`${server.url}${path}`, {
+    headers: { Cookie: `session=${session}` },
+    redirect: "manual",
+  });
+}
+
+function post(path: string, session: string, fields = {}) {
+  return fetch(`${server.url}${path}`, {
+    method: "POST",
+    headers: { Cookie: `session=${session}` },
+    body: new URLSearchParams({ csrf: CSRF, ...fields }),
+    redirect: "manual",
+  });
+}
+
+async function problemPage(session: string) {
+  return (await get("/problem/p1", session)).text();
+}
+
+describe("discussion", () => {
+  let postId: string;
+
+  test("let solvers post with highlighted code", async () => {
+    const res = await post("/problem/p1/posts", "s2", {
+      body: "Sum them:\n\n```python\nprint(sum(map(int, input().split())))\n```",
+    });
+    expect(res.status).toBe(302);
+    postId = res.headers.get("location")!.split("#post-")[1]!;
+
+    const text = await problemPage("s2");
+    expect(text).toContain('<code class="hljs language-python">');
+    expect(text).toContain(`href="/post/${postId}/edit"`);
+  });
+
+  test("hide the discussion from everyone who hasn't solved it", async () => {
+    const text = await problemPage("s3");
+    expect(text).toContain("1 post about solutions, unlocked once you solve");
+    expect(text).not.toContain("Sum them");
+    expect((await post("/problem/p1/posts", "s3", { body: "hi" })).status).toBe(
+      403,
+    );
+  });
+
+  test("show it to the author without letting them edit others' posts", async () => {
+    expect(await problemPage("s1")).toContain("Sum them");
+    expect((await get(`/post/${postId}/edit`, "s1")).status).toBe(403);
+    expect((await post(`/post/${postId}/delete`, "s1")).status).toBe(403);
+  });
+
+  test("refuse empty posts", async () => {
+    expect((await post("/problem/p1/posts", "s2", { body: " " })).status).toBe(
+      400,
+    );
+  });
+
+  test("edit and delete your own posts", async () => {
+    await post(`/post/${postId}/edit`, "s2", { body: "Just add them." });
+    const text = await problemPage("s2");
+    expect(text).toContain("Just add them.");
+    expect(text).toContain("• edited");
+
+    await post(`/post/${postId}/delete`, "s2");
+    expect(await problemPage("s2")).toContain("no posts yet");
+  });
+
+  test("let admins moderate from the admin page", async () => {
+    const res = await post("/problem/p1/posts", "s2", { body: "Spam!" });
+    const id = res.headers.get("location")!.split("#post-")[1]!;
+    const adminPage = await (await get("/admin", "s4")).text();
+    expect(adminPage).toContain(`/admin/delete-post/${id}`);
+    expect(adminPage).toContain("Spam!");
+
+    expect((await post(`/admin/delete-post/${id}`, "s2")).status).toBe(403);
+    await post(`/admin/delete-post/${id}`, "s4");
+    expect(server.app.state.posts.has(id)).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { startServer } from "./server";
+
+// Starts the real server on hostile data and checks that nothing
+// user-controlled reaches a page unescaped
+
+const XSS = `<script>alert(1)</script>"'><img src=x onerror=alert(1)>`;
+
+let server: Awaited<ReturnType<typeof startServer>>;
+
+beforeAll(async () => {
+  const now = Date.now();
+  const state = {
+    users: [
+      ["u1", { id: "u1", githubId: 1, username: "admin", avatarUrl: "" }],
+      ["u2", { id: "u2", githubId: 2, username: XSS, avatarUrl: XSS }],
+    ],
+    problems: [
+      [
+        "p1",
+        {
+          id: "p1",
+          title: XSS,
+          parts: [{ description: XSS }, { description: XSS }],
+          inputs: [
+            {
+              inputFile: "1 2 3",
+              inputFileName: XSS,
+              correctAnswers: ["6", XSS],
+            },
+          ],
+          authorId: "u2",
+          createdAt: now - 60_000,
+        },
+      ],
+    ],
+    submissions: [
+      [
+        "s1",
+        {
+          id: "s1",
+          problemId: "p1",
+          userId: "u2",
+          part: 0,
+          answer: "6",
+          isCorrect: true,
+          submittedAt: now - 30_000,
+        },
+      ],
+      [
+        "s2",
+        {
+          id: "s2",
+          problemId: "p1",
+          userId: "u2",
+          part: 1,
+          answer: XSS,
+          isCorrect: false,
+          submittedAt: now - 20_000,
+        },
+      ],
+    ],
+    sessions: [
+      ["admin-session", { userId: "u1", expiresAt: now + 3_600_000 }],
+      ["author-session", { userId: "u2", expiresAt: now + 3_600_000 }],
+    ],
+    revisions: [
+      [
+        "r1",
+        {
+          id: "r1",
+          problemId: "p1",
+          editorId: "u2",
+          editedAt: now - 10_000,
+          previous: {
+            title: XSS,
+            parts: [{ description: XSS }],
+            inputs: [{ inputFileName: XSS, correctAnswers: [XSS] }],
+          },
+        },
+      ],
+    ],
+  };
+  server = await startServer(3917, state);
+});
+
+afterAll(() => server.stop());
+
+async function get(path: string, session?: string) {
+  const res = await fetch(server.url + path, {
+    headers: session ? { Cookie: `session=${session}` } : {},
+  });
+  expect(res.status).toBe(200);
+  return res.text();
+}
+
+function expectEscaped(body: string) {
+  expect(body).not.toContain("<script>");
+  expect(body).not.toContain("<img src=x");
+  expect(body).toContain("&lt;script&gt;");
+}
+
+describe("user content is escaped", () => {
+  const username = encodeURIComponent(XSS);
+
+  test.each([
+    ["home", "/", undefined],
+    ["home as author", "/", "author-session"],
+    ["problem", "/problem/p1", undefined],
+    ["problem as author", "/problem/p1", "author-session"],
+    ["edit form", "/problem/p1/edit", "author-session"],
+    ["history", "/problem/p1/history", "author-session"],
+    ["leaderboard", "/leaderboard", undefined],
+    ["profile", `/user/${username}`, undefined],
+    ["admin", "/admin", "admin-session"],
+  ])("%s", async (_, path, session) => {
+    expectEscaped(await get(path, session));
+  });
+});
@@ -0,0 +1,48 @@
+// A stand-in for github.com and api.github.com. Instead of asking who is
+// logging in, its authorize page takes a `login` parameter and sends the
+// browser straight back with `code-<login>` as the code. Accounts without
+// an id stand for a changed API.
+export function startFakeGitHub(
+  accounts: { id?: number; login: string; avatar_url?: string }[],
+) {
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+
+      if (url.pathname === "/login/oauth/authorize") {
+        const redirect = new URL(url.searchParams.get("redirect_uri")!);
+        redirect.searchParams.set(
+          "code",
+          `code-${url.searchParams.get("login")}`,
+        );
+        redirect.searchParams.set("state", url.searchParams.get("state")!);
+        return Response.redirect(redirect.toString());
+      }
+
+      if (url.pathname === "/login/oauth/access_token") {
+        const body = new URLSearchParams(await req.text());
+        const code = body.get("code") ?? "";
+        if (body.get("client_secret") !== "test" || !code.startsWith("code-")) {
+          return Response.json({ error: "bad_verification_code" });
+        }
+        return Response.json({ access_token: `token-${code.slice(5)}` });
+      }
+
+      if (url.pathname === "/user") {
+        const token = req.headers.get("authorization")?.replace("Bearer ", "");
+        const account = accounts.find((a) => `token-${a.login}` === token);
+        return account
+          ? Response.json(account)
+          : Response.json({ message: "Bad credentials" }, { status: 401 });
+      }
+
+      return new Response("Not found", { status: 404 });
+    },
+  });
+
+  return {
+    url: `http://localhost:${server.port}`,
+    stop: () => server.stop(true),
+  };
+}
@@ -0,0 +1,141 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { CSRF, startServer } from "./server";
+
+const HOUR = 60 * 60 * 1000;
+
+let server: Awaited<ReturnType<typeof startServer>>;
+
+beforeAll(async () => {
+  const now = Date.now();
+  const problem = (id: string, title: string, groupIds?: string[]) => ({
+    id,
+    title,
+    parts: [{ description: "Add the numbers." }],
+    inputs: [{ correctAnswers: ["6"] }],
+    checker: { type: "exact", settings: {} },
+    numericHints: false,
+    authorId: "u1",
+    createdAt: now - HOUR,
+    groupIds,
+  });
+  const session = (userId: string) => ({
+    userId,
+    expiresAt: now + HOUR,
+    csrfToken: CSRF,
+  });
+
+  server = await startServer(3922, {
+    users: [
+      ["u1", { id: "u1", githubId: 1, username: "alice" }],
+      ["u2", { id: "u2", githubId: 2, username: "bob" }],
+      ["u3", { id: "u3", githubId: 3, username: "carol" }],
+    ],
+    problems: [
+      ["pub", problem("pub", "Public Problem")],
+      ["priv", problem("priv", "League Problem", ["g1"])],
+    ],
+    submissions: [
+      [
+        "x1",
+        {
+          id: "x1",
+          problemId: "priv",
+          userId: "u1",
+          part: 0,
+          answer: "6",
+          isCorrect: true,
+          submittedAt: now - HOUR / 2,
+        },
+      ],
+    ],
+    sessions: [
+      ["s1", session("u1")],
+      ["s2", session("u2")],
+      ["s3", session("u3")],
+    ],
+    groups: [
+      [
+        "g1",
+        {
+          id: "g1",
+          name: "office",
+          ownerId: "u1",
+          memberIds: ["u1", "u3"],
+          inviteCode: "invite1",
+          createdAt: now,
+        },
+      ],
+    ],
+  });
+});
+
+afterAll(() => server.stop());
+
+function get(path: string, session?: string) {
+  return fetch(`${server.url}${path}`, {
+    headers: session ? { Cookie: `session=${session}` } : {},
+    redirect: "manual",
+  });
+}
+
+function post(path: string, session: string) {
+  return fetch(`${server.url}${path}`, {
+    method: "POST",
+    headers: { Cookie: `session=${session}` },
+    body: new URLSearchParams({ csrf: CSRF }),
+    redirect: "manual",
+  });
+}
+
+describe("groups", () => {
+  test("hide group problems from everyone else", async () => {
+    const home = await (await get("/", "s2")).text();
+    expect(home).toContain("Public Problem");
+    expect(home).not.toContain("League Problem");
+    expect((await get("/problem/priv", "s2")).status).toBe(404);
+    expect((await get("/problem/priv")).status).toBe(404);
+    expect((await get("/group/g1", "s2")).status).toBe(404);
+    expect((await get("/leaderboard?group=g1", "s2")).status).toBe(404);
+  });
+
+  test("show group problems to members", async () => {
+    const home = await (await get("/", "s3")).text();
+    expect(home).toContain("League Problem");
+    expect(home).toContain("group: office");
+    expect((await get("/problem/priv", "s3")).status).toBe(200);
+    const group = await (await get("/group/g1", "s3")).text();
+    expect(group).toContain("League Problem");
+    expect(group).toContain("/join/invite1");
+  });
+
+  test("score group problems on the group's leaderboard only", async () => {
+    const points = (page: string) =>
+      page.match(/@alice<\/a><\/td>\s*<td>(\d+)/)?.[1];
+    expect(points(await (await get("/leaderboard")).text())).toBe("0");
+
+    const league = await (await get("/leaderboard?group=g1", "s3")).text();
+    expect(league).toContain("leaderboard: office");
+    // One point per member, and the group has two
+    expect(points(league)).toBe("2");
+  });
+
+  test("join with the invite link", async () => {
+    expect((await get("/join/invite1")).status).toBe(302);
+    expect(await (await get("/join/invite1", "s2")).text()).toContain(
+      "join office",
+    );
+
+    const joined = await post("/join/invite1", "s2");
+    expect(joined.headers.get("location")).toBe("/group/g1");
+    expect((await get("/problem/priv", "s2")).status).toBe(200);
+  });
+
+  test("replace the invite link and remove members", async () => {
+    expect((await post("/group/g1/invite", "s2")).status).toBe(403);
+    await post("/group/g1/invite", "s1");
+    expect((await get("/join/invite1", "s2")).status).toBe(404);
+
+    await post("/group/g1/remove/u2", "s1");
+    expect((await get("/problem/priv", "s2")).status).toBe(404);
+  });
+});
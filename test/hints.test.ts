@@ -0,0 +1,139 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { CSRF, session, startServer, user } from "./server";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+let server: Awaited<ReturnType<typeof startServer>>;
+
+beforeAll(async () => {
+  const now = Date.now();
+  const submission = (
+    id: string,
+    userId: string,
+    answer: string,
+    minutesAgo: number,
+  ) => [
+    id,
+    {
+      id,
+      problemId: "p1",
+      userId,
+      part: 0,
+      answer,
+      isCorrect: answer === "6",
+      submittedAt: now - minutesAgo * MINUTE,
+    },
+  ];
+
+  server = await startServer(3928, {
+    users: [user("u1", "alice"), user("u2", "bob"), user("u3", "carol")],
+    problems: [
+      [
+        "p1",
+        {
+          id: "p1",
+          title: "Add",
+          parts: [{ description: "Add the numbers." }],
+          inputs: [{ correctAnswers: ["6"] }],
+          checker: { type: "exact", settings: {} },
+          numericHints: false,
+          authorId: "u1",
+          createdAt: now - HOUR,
+          hints: [
+            { text: "Try **adding**." },
+            { text: "Use a loop.", afterWrongAnswers: 2 },
+            { text: "The answer is 6.", availableAt: now + HOUR },
+          ],
+          hintPenaltyMinutes: 30,
+        },
+      ],
+    ],
+    submissions: [
+      submission("x1", "u2", "5", 40),
+      submission("x2", "u2", "7", 35),
+      // Solved 50 minutes in, without hints
+      submission("x3", "u3", "6", 10),
+    ],
+    sessions: [session("s1", "u1"), session("s2", "u2"), session("s3", "u3")],
+  });
+});
+
+afterAll(() => server.stop());
+
+function get(path: string, session?: string) {
+  return fetch(`${server.url}${path}`, {
+    headers: session ? { Cookie: `session=${session}` } : {},
+  });
+}
+
+function post(path: string, session: string, fields = {}) {
+  return fetch(`${server.url}${path}`, {
+    method: "POST",
+    headers: { Cookie: `session=${session}` },
+    body: new URLSearchParams({ csrf: CSRF, ...fields }),
+    redirect: "manual",
+  });
+}
+
+async function problemPage(session?: string) {
+  return (await get("/problem/p1", session)).text();
+}
+
+describe("hints", () => {
+  test("count hints for visitors", async () => {
+    expect(await problemPage()).toContain("3 hints for logged in solvers");
+  });
+
+  test("reveal hints one at a time", async () => {
+    expect(await problemPage("s2")).toContain("reveal hint 1 of 3");
+    await post("/problem/p1/hints", "s2", { hint: "0" });
+    // Sent again, as by a resubmitted form
+    await post("/problem/p1/hints", "s2", { hint: "0" });
+
+    const text = await problemPage("s2");
+    expect(text).toContain("Try <strong>adding</strong>.");
+    expect(text).not.toContain("Use a loop.");
+    expect(text).toContain("reveal hint 2 of 3");
+  });
+
+  test("keep hints locked until their condition is met", async () => {
+    await post("/problem/p1/hints", "s3", { hint: "0" });
+    expect(await problemPage("s3")).toContain(
+      "hint 2 of 3 can be revealed after 2 more wrong answers",
+    );
+    expect((await post("/problem/p1/hints", "s3", { hint: "1" })).status).toBe(
+      403,
+    );
+
+    // bob has two wrong answers
+    await post("/problem/p1/hints", "s2", { hint: "1" });
+    const text = await problemPage("s2");
+    expect(text).toContain("Use a loop.");
+    expect(text).toMatch(/hint 3 of 3 can be revealed in 00:59:\d\d/);
+  });
+
+  test("show the author every hint and who revealed it", async () => {
+    const text = await problemPage("s1");
+    expect(text).toContain("The answer is 6.");
+    expect(text).toContain("can be revealed after 2 wrong answers");
+    expect(text).toContain("revealed by 2 users");
+    expect(text).toContain("revealed by 1 user");
+  });
+
+  test("add the hint penalty to leaderboard times", async () => {
+    await post("/problem/p1/submit", "s2", { answer: "6" });
+    const stats = await (await get("/api/v1/problems/p1/stats")).json();
+    expect(
+      stats.leaderboards[0].map((e: any) => [
+        e.username,
+        e.rank,
+        e.hintsUsed,
+        e.penaltyMs,
+      ]),
+    ).toEqual([
+      ["carol", 1, 0, 0],
+      ["bob", 2, 2, HOUR],
+    ]);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test";
+import { escapeHtml, markup, raw } from "../src/html";
+import { renderMarkdown } from "../src/markdown";
+
+describe("escapeHtml", () => {
+  test("escapes every character that matters in text and attributes", () => {
+    expect(escapeHtml(`<a href="x" title='y'>&</a>`)).toBe(
+      "&lt;a href=&quot;x&quot; title=&#39;y&#39;&gt;&amp;&lt;/a&gt;",
+    );
+  });
+});
+
+describe("markup", () => {
+  test("escapes interpolated strings", () => {
+    const title = "<script>alert(1)</script>";
+    expect(markup`<h1>${title}</h1>`.toString()).toBe(
+      "<h1>&lt;script&gt;alert(1)&lt;/script&gt;</h1>",
+    );
+  });
+
+  test("escapes quotes so values can't break out of attributes", () => {
+    const value = `" onfocus="alert(1)`;
+    expect(markup`<input value="${value}">`.toString()).toBe(
+      `<input value="&quot; onfocus=&quot;alert(1)">`,
+    );
+  });
+
+  test("inserts nested templates and raw() as is", () => {
+    const inner = markup`<b>${"<i>"}</b>`;
+    expect(markup`<p>${inner}${raw("<hr>")}</p>`.toString()).toBe(
+      "<p><b>&lt;i&gt;</b><hr></p>",
+    );
+  });
+
+  test("renders null, undefined and false as nothing", () => {
+    expect(markup`[${null}${undefined}${false}]`.toString()).toBe("[]");
+  });
+
+  test("renders numbers and true as text", () => {
+    expect(markup`${0} ${true}`.toString()).toBe("0 true");
+  });
+
+  test("renders arrays item by item", () => {
+    const items = ["<a>", markup`<b>`];
+    expect(markup`${items}`.toString()).toBe("&lt;a&gt;<b>");
+  });
+});
+
+describe("renderMarkdown", () => {
+  test("shows raw HTML as text", () => {
+    const rendered = renderMarkdown("hi <script>alert(1)</script>").toString();
+    expect(rendered).not.toContain("<script>");
+    expect(rendered).toContain("&lt;script&gt;");
+  });
+
+  test("drops javascript: links", () => {
+    const rendered = renderMarkdown("[x](javascript:alert(1))").toString();
+    expect(rendered).not.toContain("javascript:");
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, test } from "bun:test";
+import { readdir } from "fs/promises";
+import {
+  judge,
+  overallVerdict,
+  parseTestCases,
+  type JudgeConfig,
+  type Language,
+} from "../src/judge";
+
+const tests = [
+  { input: "1 2", output: "3" },
+  { input: "10 20", output: "30" },
+];
+const config: JudgeConfig = {
+  tests: [tests],
+  timeLimitMs: 2000,
+  memoryLimitMb: 256,
+};
+const exact = { type: "exact", settings: {} };
+
+async function verdicts(
+  source: string,
+  language: Language = "ts",
+  limits: Partial<JudgeConfig> = {},
+) {
+  const results = await judge(
+    { language, source },
+    tests,
+    { ...config, ...limits },
+    exact,
+  );
+  return results.map((result) => result.verdict);
+}
+
+describe("judge", () => {
+  test("accepts correct programs", async () => {
+    const source = `
+      const [a, b]: number[] = (await Bun.stdin.text()).split(" ").map(Number);
+      console.log(a + b);
+    `;
+    expect(await verdicts(source)).toEqual(["accepted", "accepted"]);
+  });
+
+  test("grades each test case", async () => {
+    expect(await verdicts("console.log(3)", "js")).toEqual([
+      "accepted",
+      "wrong answer",
+    ]);
+  });
+
+  test("reports crashes as runtime errors", async () => {
+    expect(await verdicts(`throw new Error("oops")`)).toEqual([
+      "runtime error",
+      "runtime error",
+    ]);
+  });
+
+  test("stops programs at the time limit", async () => {
+    const results = await verdicts("while (true) {}", "js", {
+      timeLimitMs: 300,
+    });
+    expect(results).toEqual(["time limit exceeded", "time limit exceeded"]);
+  });
+
+  test("stops programs at the memory limit", async () => {
+    const source = "const a = []; while (true) a.push(new Array(1e5).fill(1));";
+    const results = await verdicts(source, "js", { memoryLimitMb: 100 });
+    expect(results).toEqual(["memory limit exceeded", "memory limit exceeded"]);
+  });
+
+  test("has no network access", async () => {
+    const source = `await fetch("http://example.com"); console.log(3);`;
+    expect((await verdicts(source))[0]).toBe("runtime error");
+  });
+
+  test("can't read files outside its directory", async () => {
+    const source = `
+      import { readFileSync } from "fs";
+      readFileSync(${JSON.stringify(import.meta.path)});
+      console.log(3);
+    `;
+    expect((await verdicts(source))[0]).toBe("runtime error");
+  });
+
+  test("kills everything a program started at the time limit", async () => {
+    // An unusual duration to tell this sleep from any other
+    const seconds = String(60 + Math.random()).slice(0, 8);
+    const source = `
+      Bun.spawn(["sleep", "${seconds}"]).unref();
+      while (true) {}
+    `;
+    const results = await verdicts(source, "js", { timeLimitMs: 500 });
+    expect(results).toEqual(["time limit exceeded", "time limit exceeded"]);
+
+    const sleeping: string[] = [];
+    for (const pid of await readdir("/proc")) {
+      const cmdline = await Bun.file(`/proc/${pid}/cmdline`)
+        .text()
+        .catch(() => "");
+      if (cmdline === `sleep\0${seconds}\0`) sleeping.push(pid);
+    }
+    expect(sleeping).toEqual([]);
+  });
+
+  test("doesn't pass on the server's environment", async () => {
+    process.env.JUDGE_TEST_SECRET = "3";
+    const source = "console.log(process.env.JUDGE_TEST_SECRET)";
+    expect((await verdicts(source))[0]).toBe("wrong answer");
+  });
+});
+
+describe("overallVerdict", () => {
+  test("is the first failed test, or accepted", () => {
+    const result = (
+      verdict: "accepted" | "wrong answer" | "runtime error",
+    ) => ({
+      verdict,
+      timeMs: 1,
+    });
+    expect(overallVerdict([result("accepted"), result("accepted")])).toBe(
+      "accepted",
+    );
+    expect(
+      overallVerdict([
+        result("accepted"),
+        result("runtime error"),
+        result("wrong answer"),
+      ]),
+    ).toBe("runtime error");
+  });
+});
+
+describe("parseTestCases", () => {
+  test("reads input/output pairs", () => {
+    expect(parseTestCases(`[{"input": "1", "output": "2", "x": 3}]`)).toEqual([
+      { input: "1", output: "2" },
+    ]);
+  });
+
+  test("rejects malformed files", () => {
+    expect(() => parseTestCases("[]")).toThrow();
+    expect(() => parseTestCases(`{"input": "1"}`)).toThrow();
+    expect(() => parseTestCases(`[{"input": "1"}]`)).toThrow(
+      'test case #1 needs an "input" and an "output"',
+    );
+  });
+});
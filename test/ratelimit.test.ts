@@ -0,0 +1,26 @@
+import { describe, expect, test } from "bun:test";
+import { createRateLimiter } from "../src/ratelimit";
+
+describe("createRateLimiter", () => {
+  test("allows up to the limit per window", () => {
+    const take = createRateLimiter({ limit: 2, windowMs: 1000 });
+    expect(take("a", 0)).toBe(0);
+    expect(take("a", 100)).toBe(0);
+    expect(take("a", 400)).toBe(600);
+    expect(take("a", 1000)).toBe(0);
+  });
+
+  test("counts keys separately", () => {
+    const take = createRateLimiter({ limit: 1, windowMs: 1000 });
+    expect(take("a", 0)).toBe(0);
+    expect(take("b", 0)).toBe(0);
+    expect(take("a", 0)).toBe(1000);
+  });
+
+  test("keeps working after sweeping expired keys", () => {
+    const take = createRateLimiter({ limit: 1, windowMs: 10 });
+    for (let i = 0; i < 10_000; i++) take(`key${i}`, 0);
+    expect(take("key0", 5)).toBe(5);
+    expect(take("key0", 20)).toBe(0);
+  });
+});
@@ -0,0 +1,195 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+  formatProblemQuery,
+  matchesText,
+  paginate,
+  parseProblemQuery,
+  splitTags,
+  validateTags,
+} from "../src/search";
+import { CSRF, session, startServer, user } from "./server";
+
+describe("problem queries", () => {
+  test("read the query string, ignoring unknown values", () => {
+    const query = parseProblemQuery(
+      new URLSearchParams(
+        "q=+grid+&tag=Graphs&difficulty=9&author=@bob&status=all&sort=hardest&page=3",
+      ),
+    );
+    expect(query).toEqual({
+      text: "grid",
+      tag: "graphs",
+      difficulty: undefined,
+      author: "bob",
+      status: undefined,
+      sort: "hardest",
+      page: 3,
+    });
+  });
+
+  test("link to other pages and views without defaults", () => {
+    const query = parseProblemQuery(new URLSearchParams("tag=dp&page=2"));
+    expect(formatProblemQuery(query, { page: 3 })).toBe("?tag=dp&page=3");
+    expect(formatProblemQuery(query, { sort: "oldest" })).toBe(
+      "?tag=dp&sort=oldest",
+    );
+    expect(formatProblemQuery(query, { tag: undefined })).toBe("");
+  });
+
+  test("match every word anywhere", () => {
+    expect(matchesText("Grid path", ["Paths", "on a grid"])).toBe(true);
+    expect(matchesText("grid tree", ["Paths", "on a grid"])).toBe(false);
+  });
+
+  test("split and check tags", () => {
+    expect(splitTags("DP, graphs  dp,c++")).toEqual(["dp", "graphs", "c++"]);
+    expect(() => validateTags(["no/slash"])).toThrow('Invalid tag "no/slash"');
+    expect(() => validateTags(["a", "b", "c", "d", "e", "f"])).toThrow(
+      "at most 5 tags",
+    );
+  });
+
+  test("clamp pages to the last one", () => {
+    expect(paginate([1, 2, 3, 4, 5], 9, 2)).toEqual({
+      items: [5],
+      page: 3,
+      pageCount: 3,
+    });
+  });
+});
+
+describe("problem list", () => {
+  const HOUR = 60 * 60 * 1000;
+  let server: Awaited<ReturnType<typeof startServer>>;
+
+  beforeAll(async () => {
+    const now = Date.now();
+    const problem = (
+      id: string,
+      title: string,
+      authorId: string,
+      hoursAgo: number,
+      extra: object = {},
+    ) => [
+      id,
+      {
+        id,
+        title,
+        parts: [{ description: `The ${title.toLowerCase()} problem.` }],
+        inputs: [{ correctAnswers: ["6"] }],
+        checker: { type: "exact", settings: {} },
+        numericHints: false,
+        authorId,
+        createdAt: now - hoursAgo * HOUR,
+        ...extra,
+      },
+    ];
+    const solved = (id: string, userId: string, problemId: string) => [
+      id,
+      {
+        id,
+        problemId,
+        userId,
+        part: 0,
+        answer: "6",
+        isCorrect: true,
+        submittedAt: now,
+      },
+    ];
+
+    // 25 filler problems, so the list has two pages
+    const filler = Array.from({ length: 25 }, (_, i) =>
+      problem(`f${i}`, `Filler ${i}`, "u1", 10 + i),
+    );
+
+    server = await startServer(3926, {
+      users: [user("u1", "alice"), user("u2", "bob"), user("u3", "carol")],
+      problems: [
+        problem("grid", "Grid Walk", "u2", 1, {
+          tags: ["graphs"],
+          difficulty: 4,
+        }),
+        problem("sum", "Sum It Up", "u2", 2, { tags: ["math"] }),
+        ...filler,
+      ],
+      submissions: [
+        solved("x1", "u1", "sum"),
+        solved("x2", "u3", "sum"),
+        solved("x3", "u1", "grid"),
+      ],
+      sessions: [session("s1", "u1"), session("s2", "u2")],
+    });
+  });
+
+  afterAll(() => server.stop());
+
+  // The titles listed on a page of the problem list
+  async function titles(query: string, session?: string) {
+    const res = await fetch(`${server.url}/${query}`, {
+      headers: session ? { Cookie: `session=${session}` } : {},
+    });
+    const text = await res.text();
+    return Array.from(
+      text.matchAll(/<a href="\/problem\/[^"]+">([^<]+)<\/a>/g),
+      (m) => m[1],
+    );
+  }
+
+  function vote(session: string, problemId: string, difficulty: string) {
+    return fetch(`${server.url}/problem/${problemId}/vote`, {
+      method: "POST",
+      headers: { Cookie: `session=${session}` },
+      body: new URLSearchParams({ csrf: CSRF, difficulty }),
+      redirect: "manual",
+    });
+  }
+
+  test("page through the newest problems", async () => {
+    const first = await titles("");
+    expect(first).toHaveLength(20);
+    expect(first.slice(0, 2)).toEqual(["Grid Walk", "Sum It Up"]);
+    expect(await titles("?page=2")).toHaveLength(7);
+  });
+
+  test("search titles and descriptions", async () => {
+    expect(await titles("?q=walk")).toEqual(["Grid Walk"]);
+    expect(await titles("?q=sum+problem")).toEqual(["Sum It Up"]);
+    expect(await titles("?q=nothing+like+this")).toEqual([]);
+  });
+
+  test("filter by tag, author and difficulty", async () => {
+    expect(await titles("?tag=math")).toEqual(["Sum It Up"]);
+    expect(await titles("?author=bob")).toEqual(["Grid Walk", "Sum It Up"]);
+    expect(await titles("?author=nobody")).toEqual([]);
+    expect(await titles("?difficulty=4")).toEqual(["Grid Walk"]);
+  });
+
+  test("filter by solved and sort by solves", async () => {
+    expect(await titles("?status=solved", "s1")).toEqual([
+      "Grid Walk",
+      "Sum It Up",
+    ]);
+    expect(await titles("?status=unsolved&author=bob", "s1")).toEqual([]);
+    expect((await titles("?sort=popular")).slice(0, 2)).toEqual([
+      "Sum It Up",
+      "Grid Walk",
+    ]);
+  });
+
+  test("let solvers vote on the difficulty", async () => {
+    // Only solvers, and not the author
+    expect((await vote("s2", "sum", "1")).status).toBe(403);
+    expect((await vote("s1", "f0", "1")).status).toBe(403);
+    expect((await vote("s1", "sum", "0")).status).toBe(400);
+    expect((await vote("s1", "sum", "2")).status).toBe(302);
+
+    const text = await (await fetch(`${server.url}/problem/sum`)).text();
+    expect(text).toContain("solvers say easy (1 vote)");
+    // Unrated by the author, so the vote counts as its difficulty
+    expect(await titles("?difficulty=2")).toEqual(["Sum It Up"]);
+    expect((await titles("?sort=easiest")).slice(0, 2)).toEqual([
+      "Sum It Up",
+      "Grid Walk",
+    ]);
+  });
+});
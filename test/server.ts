@@ -0,0 +1,71 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createServer, type ServerConfig } from "../index";
+import { createDevProvider, createGitHubProvider } from "../src/oauth";
+import { createSqliteStorage } from "../src/sqlite";
+import { COLLECTIONS, type StoredRecord } from "../src/storage";
+
+// Every session seeded with `session` has this CSRF token
+export const CSRF = "c".repeat(32);
+
+// Seed entries for `startServer`
+export function user(id: string, username: string) {
+  return [id, { id, username, avatarUrl: "", identities: [] }];
+}
+
+// A user called "admin" with the default admin's GitHub account
+export function admin(id: string) {
+  const identity = { provider: "github", id: "1", username: "admin" };
+  return [id, { id, username: "admin", avatarUrl: "", identities: [identity] }];
+}
+
+export function session(id: string, userId: string) {
+  return [
+    id,
+    { userId, expiresAt: Date.now() + 60 * 60 * 1000, csrfToken: CSRF },
+  ];
+}
+
+// Starts the app in this process on a fresh SQLite database seeded with
+// `state` (the same shape as data.json). `config` overrides the defaults: a
+// GitHub provider pointing at github.com, the dev provider and GitHub account
+// 1 as the admin.
+export async function startServer(
+  port: number,
+  state: object,
+  config: Partial<ServerConfig> = {},
+) {
+  const dataDir = mkdtempSync(join(tmpdir(), "server-"));
+  const storage = createSqliteStorage(join(dataDir, "data.db"));
+  await storage.load();
+  const seed = state as Record<string, [string, StoredRecord][] | undefined>;
+  for (const name of COLLECTIONS) {
+    for (const [key, value] of seed[name] ?? []) {
+      storage.put(name, key, value);
+    }
+  }
+  await storage.flush();
+
+  const app = await createServer({
+    baseUrl: `http://localhost:${port}`,
+    port,
+    storage,
+    providers: [
+      createGitHubProvider({ clientId: "test", clientSecret: "test" }),
+      createDevProvider(),
+    ],
+    adminUsers: ["github:1"],
+    ...config,
+  });
+
+  return {
+    url: app.url,
+    app,
+    dataDir,
+    async stop() {
+      await app.stop();
+      rmSync(dataDir, { recursive: true, force: true });
+    },
+  };
+}
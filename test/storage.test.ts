@@ -0,0 +1,140 @@
+import { Database } from "bun:sqlite";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createSqliteStorage } from "../src/sqlite";
+import { createJsonStorage, StoredMap, type Storage } from "../src/storage";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "storage-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const backends: [string, () => Storage][] = [
+  ["sqlite", () => createSqliteStorage(join(dir, "data.db"))],
+  ["json", () => createJsonStorage(join(dir, "data.json"))],
+];
+
+for (const [name, open] of backends) {
+  describe(`${name} storage`, () => {
+    test("saves sets and deletes on flush", async () => {
+      const storage = open();
+      const data = await storage.load();
+      expect(data.problems).toEqual([]);
+
+      const problems = new StoredMap(storage, "problems", data.problems);
+      problems.set("p1", { id: "p1", title: "One", authorId: "u1" });
+      problems.set("p2", { id: "p2", title: "Two", authorId: "u1" });
+      problems.delete("p1");
+      await storage.flush();
+
+      const reloaded = await open().load();
+      expect(reloaded.problems).toEqual([
+        ["p2", { id: "p2", title: "Two", authorId: "u1" }],
+      ]);
+    });
+
+    test("keeps changes made before a flush", async () => {
+      const storage = open();
+      const sessions = new StoredMap(
+        storage,
+        "sessions",
+        (await storage.load()).sessions,
+      );
+      sessions.set("s1", { userId: "u1", expiresAt: 1 });
+      sessions.set("s1", { userId: "u1", expiresAt: 2 });
+      await storage.flush();
+      sessions.delete("s1");
+      sessions.set("s2", { userId: "u2", expiresAt: 3 });
+      await storage.flush();
+
+      const reloaded = await open().load();
+      expect(reloaded.sessions).toEqual([
+        ["s2", { userId: "u2", expiresAt: 3 }],
+      ]);
+    });
+  });
+}
+
+describe("sqlite storage", () => {
+  test("imports an existing data.json once", async () => {
+    const jsonPath = join(dir, "data.json");
+    const dbPath = join(dir, "data.db");
+    await Bun.write(
+      jsonPath,
+      JSON.stringify({
+        users: [["u1", { id: "u1", githubId: 1, username: "alice" }]],
+        submissions: [
+          ["s1", { id: "s1", problemId: "p1", userId: "u1", submittedAt: 5 }],
+        ],
+      }),
+    );
+
+    const data = await createSqliteStorage(dbPath, jsonPath).load();
+    expect(data.users).toEqual([
+      ["u1", { id: "u1", githubId: 1, username: "alice" }],
+    ]);
+    expect(data.submissions.length).toBe(1);
+    expect(data.problems).toEqual([]);
+    expect(existsSync(jsonPath)).toBe(false);
+    expect(existsSync(`${jsonPath}.imported`)).toBe(true);
+
+    // A data.json that turns up later is left alone
+    await Bun.write(jsonPath, JSON.stringify({ users: [] }));
+    const again = await createSqliteStorage(dbPath, jsonPath).load();
+    expect(again.users.length).toBe(1);
+    expect(existsSync(jsonPath)).toBe(true);
+  });
+
+  test("keeps changes that failed to save for the next flush", async () => {
+    const dbPath = join(dir, "data.db");
+    const storage = createSqliteStorage(dbPath);
+    await storage.load();
+    storage.put("users", "u1", { id: "u1", username: "alice" });
+
+    // Another connection holding the write lock makes the flush fail
+    const db = new Database(dbPath);
+    db.run("BEGIN IMMEDIATE");
+    await expect(storage.flush()).rejects.toThrow();
+    db.run("ROLLBACK");
+    db.close();
+
+    await storage.flush();
+    const reloaded = await createSqliteStorage(dbPath).load();
+    expect(reloaded.users).toEqual([["u1", { id: "u1", username: "alice" }]]);
+  });
+
+  test("creates indexed tables and records the schema version", async () => {
+    const dbPath = join(dir, "data.db");
+    const storage = createSqliteStorage(dbPath);
+    await storage.load();
+    storage.put("submissions", "s1", {
+      id: "s1",
+      problemId: "p1",
+      userId: "u1",
+      submittedAt: 5,
+    });
+    await storage.flush();
+
+    const db = new Database(dbPath, { readonly: true });
+    expect(db.query("PRAGMA user_version").get()).toEqual({ user_version: 9 });
+    expect(
+      db
+        .query("SELECT problem_id, user_id, submitted_at FROM submissions")
+        .get(),
+    ).toEqual({ problem_id: "p1", user_id: "u1", submitted_at: 5 });
+    const plan = db
+      .query(
+        "EXPLAIN QUERY PLAN SELECT data FROM submissions WHERE problem_id = ? AND user_id = ?",
+      )
+      .all("p1", "u1") as { detail: string }[];
+    expect(plan.some((row) => row.detail.includes("USING INDEX"))).toBe(true);
+    db.close();
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test";
+import type { Storage } from "../src/storage";
+import { SubmissionMap } from "../src/submissions";
+
+const storage: Storage = {
+  load: async () => {
+    throw new Error("not used");
+  },
+  put() {},
+  delete() {},
+  flush: async () => {},
+};
+
+function sub(id: string, problemId: string, userId: string, isCorrect = false) {
+  return { id, problemId, userId, part: 0, isCorrect };
+}
+
+describe("SubmissionMap", () => {
+  test("indexes the submissions it starts with", () => {
+    const subs = new SubmissionMap(storage, "submissions", [
+      ["s1", sub("s1", "p1", "u1")],
+      ["s2", sub("s2", "p1", "u2", true)],
+      ["s3", sub("s3", "p2", "u1", true)],
+    ]);
+    expect(subs.forProblem("p1").map((s) => s.id)).toEqual(["s1", "s2"]);
+    expect(subs.forUser("u1").map((s) => s.id)).toEqual(["s1", "s3"]);
+    expect(subs.forProblemAndUser("p1", "u2").map((s) => s.id)).toEqual(["s2"]);
+    expect(subs.attemptCount("p1")).toBe(2);
+    expect(subs.solverCount("p1", 0)).toBe(1);
+    expect(subs.hasSolved("u1", "p2", 0)).toBe(true);
+    expect(subs.hasSolved("u1", "p1", 0)).toBe(false);
+  });
+
+  test("keeps a user solved until their last correct submission is deleted", () => {
+    const subs = new SubmissionMap(storage, "submissions");
+    subs.set("s1", sub("s1", "p1", "u1", true));
+    subs.set("s2", sub("s2", "p1", "u1", true));
+    expect(subs.solverCount("p1", 0)).toBe(1);
+
+    subs.delete("s1");
+    expect(subs.hasSolved("u1", "p1", 0)).toBe(true);
+    subs.delete("s2");
+    expect(subs.hasSolved("u1", "p1", 0)).toBe(false);
+    expect(subs.attemptCount("p1")).toBe(0);
+    expect(subs.forUser("u1")).toEqual([]);
+  });
+
+  test("picks up submissions changed in place and set again", () => {
+    const subs = new SubmissionMap(storage, "submissions");
+    const s1 = sub("s1", "p1", "u1", true);
+    subs.set("s1", s1);
+
+    s1.isCorrect = false;
+    subs.set("s1", s1);
+    expect(subs.hasSolved("u1", "p1", 0)).toBe(false);
+    expect(subs.forProblem("p1")).toEqual([s1]);
+
+    s1.isCorrect = true;
+    s1.part = 1;
+    subs.set("s1", s1);
+    expect(subs.hasSolved("u1", "p1", 0)).toBe(false);
+    expect(subs.hasSolved("u1", "p1", 1)).toBe(true);
+  });
+});
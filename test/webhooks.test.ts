@@ -0,0 +1,248 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { formatPayload, type WebhookEvent } from "../src/webhooks";
+import { admin, CSRF, session, startServer, user } from "./server";
+
+const HOUR = 60 * 60 * 1000;
+
+// Stands in for Discord, Slack or anything else receiving webhooks. The
+// next `failures` requests get a 500.
+const received: { path: string; body: any }[] = [];
+let failures = 0;
+const receiver = Bun.serve({
+  port: 0,
+  async fetch(req) {
+    received.push({ path: new URL(req.url).pathname, body: await req.json() });
+    if (failures > 0) {
+      failures--;
+      return new Response("down", { status: 500 });
+    }
+    return new Response(null, { status: 204 });
+  },
+});
+const receiverUrl = `http://localhost:${receiver.port}`;
+
+let server: Awaited<ReturnType<typeof startServer>>;
+
+beforeAll(async () => {
+  const now = Date.now();
+  const problem = (id: string, title: string, extra: object = {}) => [
+    id,
+    {
+      id,
+      title,
+      parts: [{ description: `The **${title.toLowerCase()}** problem.` }],
+      inputs: [{ correctAnswers: ["6"] }],
+      checker: { type: "exact", settings: {} },
+      numericHints: false,
+      authorId: "u1",
+      createdAt: now - HOUR,
+      ...extra,
+    },
+  ];
+
+  server = await startServer(
+    3930,
+    {
+      users: [
+        user("u1", "alice"),
+        user("u2", "bob"),
+        user("u3", "carol"),
+        admin("u4"),
+      ],
+      problems: [
+        problem("p1", "Sum", { tags: ["math"] }),
+        problem("p2", "Walk", { createdAt: now - 2 * HOUR }),
+        problem("p3", "Secret", { groupIds: ["g1"] }),
+        problem("p4", "Later", { releaseAt: now + HOUR }),
+      ],
+      sessions: [
+        session("s1", "u1"),
+        session("s2", "u2"),
+        session("s3", "u3"),
+        session("s4", "u4"),
+      ],
+    },
+    { webhookRetryDelaysMs: [10, 10] },
+  );
+});
+
+afterAll(async () => {
+  await server.stop();
+  receiver.stop(true);
+});
+
+function post(path: string, session: string, fields: object = {}) {
+  return fetch(`${server.url}${path}`, {
+    method: "POST",
+    headers: { Cookie: `session=${session}` },
+    body: new URLSearchParams({ csrf: CSRF, ...fields }),
+    redirect: "manual",
+  });
+}
+
+function createProblem(title: string, fields: Record<string, string> = {}) {
+  const form = new FormData();
+  form.append("csrf", CSRF);
+  form.append("title", title);
+  form.append("description", "Add the numbers.");
+  form.append("correctAnswer", "6");
+  for (const [name, value] of Object.entries(fields)) {
+    form.append(name, value);
+  }
+  return fetch(`${server.url}/new-problem`, {
+    method: "POST",
+    headers: { Cookie: "session=s1" },
+    body: form,
+    redirect: "manual",
+  });
+}
+
+// Deliveries happen in the background
+async function waitForRequests(count: number) {
+  for (let i = 0; i < 100 && received.length < count; i++) {
+    await Bun.sleep(10);
+  }
+  expect(received).toHaveLength(count);
+}
+
+async function feedTitles(query = "") {
+  const res = await fetch(`${server.url}/feed.xml${query}`);
+  const text = await res.text();
+  return Array.from(
+    text.matchAll(/<entry>\s*<id>[^<]*<\/id>\s*<title>([^<]*)/g),
+    (m) => m[1],
+  );
+}
+
+describe("feed", () => {
+  test("list released public problems, newest first", async () => {
+    const res = await fetch(`${server.url}/feed.xml`);
+    expect(res.headers.get("content-type")).toContain("application/atom+xml");
+    const text = await res.text();
+    expect(text).toContain("<title>coding problems</title>");
+    expect(text).toContain("&lt;strong&gt;sum&lt;/strong&gt;");
+    expect(await feedTitles()).toEqual(["Sum", "Walk"]);
+  });
+
+  test("filter by tag or author", async () => {
+    expect(await feedTitles("?tag=math")).toEqual(["Sum"]);
+    expect(await feedTitles("?author=bob")).toEqual([]);
+    const res = await fetch(`${server.url}/feed.xml?author=nobody`);
+    expect(res.status).toBe(404);
+  });
+});
+
+describe("webhooks", () => {
+  test("let only admins add webhooks", async () => {
+    const fields = {
+      url: `${receiverUrl}/json`,
+      format: "json",
+      events: "problem.created",
+    };
+    expect((await post("/admin/webhooks", "s1", fields)).status).toBe(403);
+    expect(
+      (
+        await post("/admin/webhooks", "s4", {
+          ...fields,
+          url: "ftp://example.com",
+        })
+      ).status,
+    ).toBe(400);
+
+    await post("/admin/webhooks", "s4", fields);
+    const body = new URLSearchParams({
+      csrf: CSRF,
+      url: `${receiverUrl}/discord`,
+      format: "discord",
+    });
+    body.append("events", "problem.created");
+    body.append("events", "problem.solved");
+    await fetch(`${server.url}/admin/webhooks`, {
+      method: "POST",
+      headers: { Cookie: "session=s4" },
+      body,
+    });
+    expect(server.app.state.webhooks.size).toBe(2);
+  });
+
+  test("announce new problems", async () => {
+    const res = await createProblem("Brand New");
+    const id = res.headers.get("location")!.split("/")[2]!;
+    await waitForRequests(2);
+
+    const json = received.find((r) => r.path === "/json")!.body;
+    expect(json).toMatchObject({
+      type: "problem.created",
+      problem: { id, title: "Brand New", author: "alice" },
+    });
+    expect(json.problem.url).toEndWith(`/problem/${id}`);
+    expect(received.find((r) => r.path === "/discord")!.body).toEqual({
+      content: `New problem: [Brand New](${json.problem.url}) by @alice`,
+      allowed_mentions: { parse: [] },
+    });
+  });
+
+  test("wait for the release of scheduled problems", async () => {
+    received.length = 0;
+    await createProblem("Next Week", { releaseAt: "2099-01-01T00:00" });
+    await Bun.sleep(50);
+    expect(received).toEqual([]);
+  });
+
+  test("announce the first solve only", async () => {
+    await post("/problem/p1/submit", "s2", { answer: "6" });
+    await waitForRequests(1);
+    expect(received[0]!.body.content).toStartWith(
+      "@bob is the first to solve [Sum]",
+    );
+
+    await post("/problem/p1/submit", "s3", { answer: "6" });
+    await Bun.sleep(50);
+    expect(received).toHaveLength(1);
+  });
+
+  test("retry failed deliveries and log them", async () => {
+    received.length = 0;
+    failures = 1;
+    await post("/problem/p2/submit", "s2", { answer: "6" });
+    await waitForRequests(2);
+    await Bun.sleep(20);
+
+    const [delivery] = Array.from(server.app.state.deliveries.values()).filter(
+      (d) => d.problemId === "p2",
+    );
+    expect(delivery).toMatchObject({ ok: true, attempts: 2, status: 204 });
+
+    const adminPage = await (
+      await fetch(`${server.url}/admin`, { headers: { Cookie: "session=s4" } })
+    ).text();
+    expect(adminPage).toContain("HTTP 204 after 2 attempts");
+  });
+});
+
+describe("chat messages", () => {
+  const event: WebhookEvent = {
+    type: "problem.created",
+    problem: {
+      id: "p1",
+      title: "@everyone <@1> *Win* [a prize](https://evil.example) & more",
+      url: "https://example.com/problem/p1",
+      author: "alice",
+    },
+    at: "2026-01-01T00:00:00.000Z",
+  };
+
+  test("escape titles for Discord and mention no one", () => {
+    expect(formatPayload(event, "discord")).toEqual({
+      content:
+        "New problem: [\\@everyone \\<\\@1\\> \\*Win\\* \\[a prize\\]\\(https\\://evil.example\\) & more](https://example.com/problem/p1) by @alice",
+      allowed_mentions: { parse: [] },
+    });
+  });
+
+  test("escape titles for Slack", () => {
+    expect(formatPayload(event, "slack")).toEqual({
+      text: "New problem: <https://example.com/problem/p1|@everyone &lt;@1&gt; *\u200bWin*\u200b [a prize](https://evil.example) &amp; more> by @alice",
+    });
+  });
+});